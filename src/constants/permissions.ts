@@ -0,0 +1,84 @@
+import { accessLevelEnum } from '../db/schema/acl-entries.ts';
+import type { UserRole } from '../types/auth.ts';
+
+export const PERMISSIONS = [
+  'files:read',
+  'files:write',
+  'files:delete',
+  'folders:read',
+  'folders:write',
+  'folders:delete',
+  'users:read',
+  'users:manage',
+  'logs:read',
+  'logs:write',
+  'logs:delete',
+  'storage:manage',
+  'shares:manage',
+  'acl:manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  colaborador: [
+    'files:read',
+    'files:write',
+    'folders:read',
+    'folders:write',
+    'users:read',
+    'shares:manage',
+  ],
+  visualizador: ['files:read', 'folders:read'],
+};
+
+export function hasPermission(role: UserRole, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
+
+export type AccessLevel = (typeof accessLevelEnum.enumValues)[number];
+
+// Em ordem crescente: cada nível inclui os anteriores
+export const ACCESS_LEVELS = accessLevelEnum.enumValues;
+
+/**
+ * Nível de acesso a arquivos e pastas sem entradas de ACL no caminho
+ */
+export const ROLE_ACCESS_LEVELS: Record<UserRole, AccessLevel> = {
+  admin: 'manage',
+  colaborador: 'write',
+  visualizador: 'read',
+};
+
+/**
+ * Nível exigido sobre o arquivo ou a pasta pelas permissões verificadas
+ * pela ACL
+ */
+export const PERMISSION_ACCESS_LEVELS: Partial<
+  Record<Permission, AccessLevel>
+> = {
+  'files:read': 'read',
+  'folders:read': 'read',
+  'files:write': 'write',
+  'folders:write': 'write',
+  'files:delete': 'manage',
+  'folders:delete': 'manage',
+  'acl:manage': 'manage',
+};
+
+export function hasAccessLevel(
+  level: AccessLevel,
+  required: AccessLevel
+): boolean {
+  return ACCESS_LEVELS.indexOf(level) >= ACCESS_LEVELS.indexOf(required);
+}
+
+/**
+ * Permissões concedidas sobre um arquivo ou pasta por um nível de acesso
+ */
+export function getAccessLevelPermissions(level: AccessLevel): Permission[] {
+  return Object.entries(PERMISSION_ACCESS_LEVELS)
+    .filter(([, required]) => hasAccessLevel(level, required))
+    .map(([permission]) => permission as Permission);
+}
@@ -24,6 +24,13 @@ export const db = drizzle(sql, {
   casing: 'snake_case',
 });
 
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Executor aceito por serviços que podem rodar dentro ou fora de uma transação
+ */
+export type DbExecutor = typeof db | DbTransaction;
+
 // Testar conexão na inicialização
 async function testConnection() {
   try {
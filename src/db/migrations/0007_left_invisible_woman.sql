@@ -0,0 +1,11 @@
+CREATE TABLE "blobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"checksum" text NOT NULL,
+	"storage_path" text NOT NULL,
+	"size" bigint NOT NULL,
+	"reference_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "blobs_checksum_unique" UNIQUE("checksum")
+);
+--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "blob_id" uuid;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TYPE "public"."upload_session_status" AS ENUM('pendente', 'finalizando', 'concluido');--> statement-breakpoint
+CREATE TABLE "upload_parts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"offset" bigint NOT NULL,
+	"size" bigint NOT NULL,
+	"storage_path" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "upload_parts_sessionId_offset_unique" UNIQUE("session_id","offset")
+);
+--> statement-breakpoint
+CREATE TABLE "upload_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" uuid NOT NULL,
+	"file_name" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"folder_id" uuid,
+	"checksum" text,
+	"total_size" bigint NOT NULL,
+	"uploaded_size" bigint DEFAULT 0 NOT NULL,
+	"status" "upload_session_status" DEFAULT 'pendente' NOT NULL,
+	"file_id" uuid,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,21 @@
+CREATE TABLE "file_versions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"file_id" uuid NOT NULL,
+	"version_number" integer NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"size" bigint NOT NULL,
+	"storage_path" text NOT NULL,
+	"checksum" text,
+	"blob_id" uuid,
+	"restored_from" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid NOT NULL,
+	CONSTRAINT "file_versions_fileId_versionNumber_unique" UNIQUE("file_id","version_number")
+);
+--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "current_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+UPDATE "files" SET "updated_at" = "created_at";--> statement-breakpoint
+INSERT INTO "file_versions" ("file_id", "version_number", "name", "type", "size", "storage_path", "checksum", "blob_id", "created_at", "created_by")
+SELECT "id", 1, "name", "type", "size", "storage_path", "checksum", "blob_id", "created_at", "created_by" FROM "files";
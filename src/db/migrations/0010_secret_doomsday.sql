@@ -0,0 +1 @@
+ALTER TYPE "public"."log_action_type" ADD VALUE 'move';
\ No newline at end of file
@@ -0,0 +1,4 @@
+CREATE TYPE "public"."folder_status" AS ENUM('ativo', 'lixeira');--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "trash_root_id" uuid;--> statement-breakpoint
+ALTER TABLE "folders" ADD COLUMN "status" "folder_status" DEFAULT 'ativo' NOT NULL;--> statement-breakpoint
+ALTER TABLE "folders" ADD COLUMN "trash_root_id" uuid;
\ No newline at end of file
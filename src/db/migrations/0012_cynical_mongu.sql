@@ -0,0 +1,4 @@
+ALTER TABLE "files" ADD COLUMN "trashed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "folders" ADD COLUMN "trashed_at" timestamp;--> statement-breakpoint
+UPDATE "files" SET "trashed_at" = now() WHERE "status" = 'lixeira';--> statement-breakpoint
+UPDATE "folders" SET "trashed_at" = now() WHERE "status" = 'lixeira';
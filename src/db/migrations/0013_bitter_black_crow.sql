@@ -0,0 +1,3 @@
+CREATE TYPE "public"."file_integrity_status" AS ENUM('integro', 'ausente', 'corrompido');--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "integrity_status" "file_integrity_status" DEFAULT 'integro' NOT NULL;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "integrity_checked_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TYPE "public"."log_action_type" ADD VALUE 'update';--> statement-breakpoint
+ALTER TYPE "public"."log_action_type" ADD VALUE 'create_user';--> statement-breakpoint
+ALTER TYPE "public"."log_action_type" ADD VALUE 'delete_user';--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "target_user_id" uuid;
\ No newline at end of file
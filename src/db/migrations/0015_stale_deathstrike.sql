@@ -0,0 +1,10 @@
+ALTER TYPE "public"."log_action_type" ADD VALUE 'rename';--> statement-breakpoint
+ALTER TYPE "public"."log_action_type" ADD VALUE 'share';--> statement-breakpoint
+ALTER TYPE "public"."log_action_type" ADD VALUE 'login';--> statement-breakpoint
+ALTER TYPE "public"."log_action_type" ADD VALUE 'logout';--> statement-breakpoint
+ALTER TYPE "public"."log_action_type" ADD VALUE 'permission_change';--> statement-breakpoint
+ALTER TYPE "public"."log_action_type" ADD VALUE 'purge';--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "ip" text;--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "user_agent" text;--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "request_id" text;--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "details" jsonb;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TYPE "public"."log_action_type" ADD VALUE 'log_retention';--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "sequence" bigint;--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "previous_hash" text;--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "hash" text;--> statement-breakpoint
+ALTER TABLE "logs" ADD CONSTRAINT "logs_sequence_unique" UNIQUE("sequence");--> statement-breakpoint
+UPDATE "logs" SET "sequence" = "ordered"."sequence" FROM (SELECT "id", row_number() OVER (ORDER BY "timestamp", "id") AS "sequence" FROM "logs") AS "ordered" WHERE "logs"."id" = "ordered"."id";
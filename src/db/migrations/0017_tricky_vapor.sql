@@ -0,0 +1,5 @@
+CREATE TABLE "signed_url_nonces" (
+	"nonce" text PRIMARY KEY NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp DEFAULT now() NOT NULL
+);
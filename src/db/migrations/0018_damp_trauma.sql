@@ -0,0 +1,20 @@
+ALTER TYPE "public"."log_action_type" ADD VALUE 'revoke_share';--> statement-breakpoint
+ALTER TYPE "public"."log_action_type" ADD VALUE 'access_share';--> statement-breakpoint
+CREATE TABLE "shares" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"token_hash" text NOT NULL,
+	"file_id" uuid,
+	"folder_id" uuid,
+	"created_by" uuid NOT NULL,
+	"password_hash" text,
+	"expires_at" timestamp,
+	"max_downloads" integer,
+	"download_count" integer DEFAULT 0 NOT NULL,
+	"view_only" boolean DEFAULT false NOT NULL,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "shares_tokenHash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "logs" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "share_id" uuid;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TYPE "public"."access_level" AS ENUM('none', 'read', 'write', 'manage');--> statement-breakpoint
+CREATE TABLE "acl_entries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"file_id" uuid,
+	"folder_id" uuid,
+	"user_id" uuid NOT NULL,
+	"level" "access_level" NOT NULL,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "acl_entries_fileId_userId_unique" UNIQUE("file_id","user_id"),
+	CONSTRAINT "acl_entries_folderId_userId_unique" UNIQUE("folder_id","user_id")
+);
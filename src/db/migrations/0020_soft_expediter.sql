@@ -0,0 +1,22 @@
+CREATE TABLE "group_members" (
+	"group_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"added_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "group_members_group_id_user_id_pk" PRIMARY KEY("group_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "groups" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_by" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "groups_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "acl_entries" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "acl_entries" ADD COLUMN "group_id" uuid;--> statement-breakpoint
+ALTER TABLE "acl_entries" ADD CONSTRAINT "acl_entries_fileId_groupId_unique" UNIQUE("file_id","group_id");--> statement-breakpoint
+ALTER TABLE "acl_entries" ADD CONSTRAINT "acl_entries_folderId_groupId_unique" UNIQUE("folder_id","group_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "folders" ADD COLUMN "quota_bytes" bigint;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "quota_bytes" bigint;
\ No newline at end of file
@@ -0,0 +1,2 @@
+UPDATE "files" SET "trashed_at" = now() WHERE "status" = 'lixeira' AND "trashed_at" IS NULL;--> statement-breakpoint
+UPDATE "folders" SET "trashed_at" = now() WHERE "status" = 'lixeira' AND "trashed_at" IS NULL;
\ No newline at end of file
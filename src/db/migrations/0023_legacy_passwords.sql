@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "legacy_password" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "users" SET "legacy_password" = true WHERE "password_hash" NOT LIKE 'scrypt$%';
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { pgEnum, pgTable, timestamp, unique, uuid } from 'drizzle-orm/pg-core';
+
+// Em ordem crescente: cada nível inclui os anteriores. `none` bloqueia o
+// acesso herdado de uma pasta acima.
+export const accessLevelEnum = pgEnum('access_level', [
+  'none',
+  'read',
+  'write',
+  'manage',
+]);
+
+// Permissão de um usuário ou grupo (apenas um dos dois) sobre um arquivo ou
+// uma pasta (apenas um dos dois). Entradas em pastas valem para toda a
+// subárvore até serem substituídas por outra entrada aplicável mais abaixo.
+export const aclEntries = pgTable(
+  'acl_entries',
+  {
+    id: uuid().defaultRandom().primaryKey(),
+    fileId: uuid(),
+    folderId: uuid(),
+    userId: uuid(),
+    groupId: uuid(),
+    level: accessLevelEnum().notNull(),
+    createdBy: uuid().notNull(),
+    createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+    updatedAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => [
+    unique().on(table.fileId, table.userId),
+    unique().on(table.folderId, table.userId),
+    unique().on(table.fileId, table.groupId),
+    unique().on(table.folderId, table.groupId),
+  ]
+);
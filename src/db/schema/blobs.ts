@@ -0,0 +1,19 @@
+import {
+  bigint,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+export const blobs = pgTable('blobs', {
+  id: uuid().defaultRandom().primaryKey(),
+  checksum: text().notNull().unique(),
+  storagePath: text().notNull(),
+  size: bigint({
+    mode: 'bigint',
+  }).notNull(),
+  referenceCount: integer().notNull().default(0),
+  createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+});
@@ -0,0 +1,30 @@
+import {
+  bigint,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+export const fileVersions = pgTable(
+  'file_versions',
+  {
+    id: uuid().defaultRandom().primaryKey(),
+    fileId: uuid().notNull(),
+    versionNumber: integer().notNull(),
+    name: text().notNull(),
+    type: text().notNull(),
+    size: bigint({
+      mode: 'bigint',
+    }).notNull(),
+    storagePath: text().notNull(),
+    checksum: text(),
+    blobId: uuid(),
+    restoredFrom: integer(),
+    createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+    createdBy: uuid().notNull(),
+  },
+  (table) => [unique().on(table.fileId, table.versionNumber)]
+);
@@ -1,5 +1,6 @@
 import {
   bigint,
+  integer,
   pgEnum,
   pgTable,
   text,
@@ -9,6 +10,13 @@ import {
 
 export const fileStatusEnum = pgEnum('file_status', ['ativo', 'lixeira']);
 
+// Resultado da última reconciliação entre o banco e o storage
+export const fileIntegrityStatusEnum = pgEnum('file_integrity_status', [
+  'integro',
+  'ausente',
+  'corrompido',
+]);
+
 export const files = pgTable('files', {
   id: uuid().defaultRandom().primaryKey(),
   name: text().notNull(),
@@ -18,9 +26,17 @@ export const files = pgTable('files', {
   }).notNull(),
   storagePath: text().notNull(),
   checksum: text(),
+  blobId: uuid(),
   folderId: uuid(),
   ownerId: uuid().notNull(),
   status: fileStatusEnum().notNull(),
+  // Pasta cuja exclusão enviou este arquivo para a lixeira
+  trashRootId: uuid(),
+  trashedAt: timestamp({ withTimezone: false }),
+  currentVersion: integer().notNull().default(1),
+  integrityStatus: fileIntegrityStatusEnum().notNull().default('integro'),
+  integrityCheckedAt: timestamp({ withTimezone: false }),
   createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+  updatedAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
   createdBy: uuid().notNull(),
 });
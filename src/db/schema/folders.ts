@@ -1,9 +1,26 @@
-import { pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+import {
+  bigint,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+export const folderStatusEnum = pgEnum('folder_status', ['ativo', 'lixeira']);
 
 export const folders = pgTable('folders', {
   id: uuid().defaultRandom().primaryKey(),
   name: text().notNull(),
   parentId: uuid(),
+  status: folderStatusEnum().notNull().default('ativo'),
+  // Pasta cuja exclusão enviou este item para a lixeira
+  trashRootId: uuid(),
+  trashedAt: timestamp(),
+  // Limite em bytes para a soma dos arquivos da subárvore
+  quotaBytes: bigint({
+    mode: 'bigint',
+  }),
   createdAt: timestamp().notNull().defaultNow(),
   createdBy: uuid().notNull(),
 });
@@ -0,0 +1,28 @@
+import {
+  pgTable,
+  primaryKey,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+// Grupos de usuários (ex.: departamentos), usados como principal na ACL
+export const groups = pgTable('groups', {
+  id: uuid().defaultRandom().primaryKey(),
+  name: text().notNull().unique(),
+  description: text(),
+  createdBy: uuid().notNull(),
+  createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+  updatedAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+});
+
+export const groupMembers = pgTable(
+  'group_members',
+  {
+    groupId: uuid().notNull(),
+    userId: uuid().notNull(),
+    addedBy: uuid().notNull(),
+    createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.groupId, table.userId] })]
+);
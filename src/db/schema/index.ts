@@ -1,6 +1,14 @@
+import { aclEntries } from './acl-entries.ts';
+import { blobs } from './blobs.ts';
+import { fileVersions } from './file-versions.ts';
 import { files } from './files.ts';
 import { folders } from './folders.ts';
+import { groupMembers, groups } from './groups.ts';
 import { logs } from './logs.ts';
+import { refreshTokens } from './refresh-tokens.ts';
+import { shares } from './shares.ts';
+import { signedUrlNonces } from './signed-url-nonces.ts';
+import { uploadParts, uploadSessions } from './upload-sessions.ts';
 import { users } from './users.ts';
 
 export const schema = {
@@ -8,4 +16,14 @@ export const schema = {
   folders,
   users,
   logs,
+  refreshTokens,
+  blobs,
+  uploadSessions,
+  uploadParts,
+  fileVersions,
+  signedUrlNonces,
+  shares,
+  aclEntries,
+  groups,
+  groupMembers,
 };
@@ -1,4 +1,12 @@
-import { pgEnum, pgTable, timestamp, uuid } from 'drizzle-orm/pg-core';
+import {
+  bigint,
+  jsonb,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core';
 
 export const logActionTypeEnum = pgEnum('log_action_type', [
   'upload',
@@ -7,13 +15,42 @@ export const logActionTypeEnum = pgEnum('log_action_type', [
   'delete',
   'restore',
   'create_folder',
+  'move',
+  'update',
+  'create_user',
+  'delete_user',
+  'rename',
+  'share',
+  'login',
+  'logout',
+  'permission_change',
+  'purge',
+  'log_retention',
+  'revoke_share',
+  'access_share',
 ]);
 
 export const logs = pgTable('logs', {
   id: uuid().defaultRandom().primaryKey(),
-  userId: uuid().notNull(),
+  // Nulo em acessos anônimos, como os feitos por links públicos
+  userId: uuid(),
   fileId: uuid(),
   folderId: uuid(),
+  // Usuário afetado em ações de gerenciamento de usuários
+  targetUserId: uuid(),
+  shareId: uuid(),
   actionType: logActionTypeEnum().notNull(),
+  // Contexto da requisição que originou a ação
+  ip: text(),
+  userAgent: text(),
+  requestId: text(),
+  // Dados complementares da ação, como valores antes/depois de uma alteração
+  details: jsonb().$type<Record<string, unknown>>(),
   timestamp: timestamp({ withTimezone: false }).notNull().defaultNow(),
+  // Encadeamento à prova de adulteração: cada entrada guarda o hash do seu
+  // conteúdo e o da entrada anterior. Entradas anteriores ao encadeamento
+  // têm apenas a sequência
+  sequence: bigint({ mode: 'number' }).unique(),
+  previousHash: text(),
+  hash: text(),
 });
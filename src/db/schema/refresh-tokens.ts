@@ -0,0 +1,12 @@
+import { pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+
+export const refreshTokens = pgTable('refresh_tokens', {
+  id: uuid().defaultRandom().primaryKey(),
+  userId: uuid().notNull(),
+  tokenHash: text().notNull().unique(),
+  familyId: uuid().notNull(),
+  expiresAt: timestamp({ withTimezone: false }).notNull(),
+  revokedAt: timestamp({ withTimezone: false }),
+  replacedById: uuid(),
+  createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+});
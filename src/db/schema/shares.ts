@@ -0,0 +1,26 @@
+import {
+  boolean,
+  integer,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+// Links públicos para um arquivo ou uma pasta (apenas um dos dois)
+export const shares = pgTable('shares', {
+  id: uuid().defaultRandom().primaryKey(),
+  // Apenas o hash do token é guardado; o link é exibido só na criação
+  tokenHash: text().notNull().unique(),
+  fileId: uuid(),
+  folderId: uuid(),
+  createdBy: uuid().notNull(),
+  passwordHash: text(),
+  expiresAt: timestamp({ withTimezone: false }),
+  maxDownloads: integer(),
+  downloadCount: integer().notNull().default(0),
+  // Permite ver os metadados e a listagem, mas não baixar o conteúdo
+  viewOnly: boolean().notNull().default(false),
+  revokedAt: timestamp({ withTimezone: false }),
+  createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+});
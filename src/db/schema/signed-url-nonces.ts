@@ -0,0 +1,8 @@
+import { pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+
+// URLs assinadas de uso único já utilizadas, mantidas até expirarem
+export const signedUrlNonces = pgTable('signed_url_nonces', {
+  nonce: text().primaryKey(),
+  expiresAt: timestamp({ withTimezone: false }).notNull(),
+  usedAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+});
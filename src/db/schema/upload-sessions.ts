@@ -0,0 +1,55 @@
+import { sql } from 'drizzle-orm';
+import {
+  bigint,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  unique,
+  uuid,
+} from 'drizzle-orm/pg-core';
+
+export const uploadSessionStatusEnum = pgEnum('upload_session_status', [
+  'pendente',
+  'finalizando',
+  'concluido',
+]);
+
+export const uploadSessions = pgTable('upload_sessions', {
+  id: uuid().defaultRandom().primaryKey(),
+  ownerId: uuid().notNull(),
+  fileName: text().notNull(),
+  mimeType: text().notNull(),
+  folderId: uuid(),
+  checksum: text(),
+  totalSize: bigint({
+    mode: 'bigint',
+  }).notNull(),
+  uploadedSize: bigint({
+    mode: 'bigint',
+  })
+    .notNull()
+    .default(sql`0`),
+  status: uploadSessionStatusEnum().notNull().default('pendente'),
+  fileId: uuid(),
+  expiresAt: timestamp({ withTimezone: false }).notNull(),
+  createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+  updatedAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+});
+
+export const uploadParts = pgTable(
+  'upload_parts',
+  {
+    id: uuid().defaultRandom().primaryKey(),
+    sessionId: uuid().notNull(),
+    offset: bigint({
+      mode: 'bigint',
+    }).notNull(),
+    size: bigint({
+      mode: 'bigint',
+    }).notNull(),
+    storagePath: text().notNull(),
+    createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
+  },
+  (table) => [unique().on(table.sessionId, table.offset)]
+);
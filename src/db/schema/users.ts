@@ -1,4 +1,12 @@
-import { pgEnum, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core';
+import {
+  bigint,
+  boolean,
+  pgEnum,
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+} from 'drizzle-orm/pg-core';
 
 export const userRoleEnum = pgEnum('user_role', [
   'admin',
@@ -11,7 +19,14 @@ export const users = pgTable('users', {
   name: text().notNull(),
   email: text().notNull().unique(),
   passwordHash: text().notNull(),
+  // Senha gravada sem hash antes do scrypt; o hash é gerado no próximo login
+  // ou por `pnpm auth:hash-legacy-passwords`
+  legacyPassword: boolean().notNull().default(false),
   role: userRoleEnum().notNull(),
+  // Cota de armazenamento em bytes; nula usa o padrão do papel
+  quotaBytes: bigint({
+    mode: 'bigint',
+  }),
   createdAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
   updatedAt: timestamp({ withTimezone: false }).notNull().defaultNow(),
 });
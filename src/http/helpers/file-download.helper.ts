@@ -0,0 +1,126 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { getStorageProvider } from '../../services/storage/storage.factory.ts';
+import {
+  createMultipartByteranges,
+  isNotModified,
+  isResumedDownload,
+  resolveRequestedRanges,
+} from './range.helper.ts';
+
+export interface StoredFileContent {
+  /** Identificador usado no ETag fraco quando não há checksum */
+  id: string;
+  name: string;
+  type: string;
+  size: bigint;
+  storagePath: string;
+  checksum: string | null;
+  lastModified: Date;
+}
+
+// ETag forte apenas quando o checksum do conteúdo é conhecido
+function getEtag(content: StoredFileContent): string {
+  return content.checksum
+    ? `"${content.checksum}"`
+    : `W/"${content.id}-${Number(content.size)}"`;
+}
+
+/**
+ * Indica se a requisição retoma um download do conteúdo, ver
+ * `isResumedDownload`
+ */
+export function isResumedFileDownload(
+  request: FastifyRequest,
+  content: StoredFileContent
+): boolean {
+  return isResumedDownload(
+    request.headers,
+    Number(content.size),
+    getEtag(content),
+    content.lastModified
+  );
+}
+
+/**
+ * Envia o conteúdo armazenado tratando Range (inclusive múltiplos
+ * intervalos), If-Range, If-None-Match e If-Modified-Since
+ */
+export function sendStoredFile(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  content: StoredFileContent
+) {
+  const storageProvider = getStorageProvider();
+  const size = Number(content.size);
+  const etag = getEtag(content);
+  const { lastModified } = content;
+
+  reply.header('Accept-Ranges', 'bytes');
+  reply.header('ETag', etag);
+  reply.header('Last-Modified', lastModified.toUTCString());
+
+  // Checksum SHA-256 do conteúdo para verificação de integridade
+  if (content.checksum) {
+    const digest = Buffer.from(content.checksum, 'hex').toString('base64');
+    reply.header('Digest', `sha-256=${digest}`);
+    reply.header('Repr-Digest', `sha-256=:${digest}:`);
+  }
+
+  if (isNotModified(request.headers, etag, lastModified)) {
+    return reply.status(304).send();
+  }
+
+  reply.header(
+    'Content-Disposition',
+    `attachment; filename="${encodeURIComponent(content.name)}"`
+  );
+
+  const rangeResult = resolveRequestedRanges(
+    request.headers,
+    size,
+    etag,
+    lastModified
+  );
+
+  if (rangeResult.type === 'unsatisfiable') {
+    reply.header('Content-Range', `bytes */${size}`);
+    return reply.status(416).send({
+      message: 'Intervalo solicitado não pode ser atendido',
+    });
+  }
+
+  if (rangeResult.type === 'none') {
+    reply.header('Content-Type', content.type);
+    reply.header('Content-Length', size.toString());
+
+    return reply.send(storageProvider.createReadStream(content.storagePath));
+  }
+
+  const { ranges } = rangeResult;
+
+  if (ranges.length === 1) {
+    const [range] = ranges;
+    reply.header('Content-Type', content.type);
+    reply.header('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    reply.header('Content-Length', (range.end - range.start + 1).toString());
+
+    return reply
+      .status(206)
+      .send(storageProvider.createReadStream(content.storagePath, range));
+  }
+
+  const multipart = createMultipartByteranges(
+    ranges,
+    size,
+    content.type,
+    (range) => storageProvider.createReadStream(content.storagePath, range)
+  );
+
+  reply.header(
+    'Content-Type',
+    `multipart/byteranges; boundary=${multipart.boundary}`
+  );
+  reply.header('Content-Length', multipart.contentLength.toString());
+
+  return reply.status(206).send(multipart.body);
+}
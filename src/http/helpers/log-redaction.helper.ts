@@ -0,0 +1,59 @@
+const REDACTED = '[redacted]';
+const SENSITIVE_KEY_REGEX = /password|token|secret|signature|nonce/i;
+const SHARE_TOKEN_PATH_REGEX = /^\/s\/[^/?]+/;
+
+/**
+ * Remove dos logs o token dos links de compartilhamento (`/s/:token`) e os
+ * parâmetros de query sensíveis, como a assinatura das URLs assinadas
+ */
+export function redactUrl(url: string): string {
+  const queryIndex = url.indexOf('?');
+  const path = queryIndex === -1 ? url : url.slice(0, queryIndex);
+  const redactedPath = path.replace(SHARE_TOKEN_PATH_REGEX, `/s/${REDACTED}`);
+
+  if (queryIndex === -1) {
+    return redactedPath;
+  }
+
+  const query = url
+    .slice(queryIndex + 1)
+    .split('&')
+    .map((pair) => {
+      const [key] = pair.split('=');
+      return SENSITIVE_KEY_REGEX.test(decodeURIComponentSafe(key))
+        ? `${key}=${REDACTED}`
+        : pair;
+    })
+    .join('&');
+
+  return `${redactedPath}?${query}`;
+}
+
+/**
+ * Substitui os valores de campos sensíveis (senhas, tokens, assinaturas) em
+ * body, query ou params antes de registrá-los
+ */
+export function redactSensitiveFields(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactSensitiveFields);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      SENSITIVE_KEY_REGEX.test(key) ? REDACTED : redactSensitiveFields(field),
+    ])
+  );
+}
+
+function decodeURIComponentSafe(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
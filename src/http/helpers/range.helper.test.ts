@@ -0,0 +1,190 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  isNotModified,
+  isResumedDownload,
+  parseRangeHeader,
+  resolveRequestedRanges,
+} from './range.helper.ts';
+
+const SIZE = 10;
+const ETAG = '"abc"';
+const LAST_MODIFIED = new Date('2026-01-01T12:00:00Z');
+
+describe('parseRangeHeader', () => {
+  it('ignora headers ausentes, de outras unidades ou malformados', () => {
+    assert.deepEqual(parseRangeHeader(undefined, SIZE), { type: 'none' });
+    assert.deepEqual(parseRangeHeader('items=0-1', SIZE), { type: 'none' });
+    assert.deepEqual(parseRangeHeader('bytes=abc', SIZE), { type: 'none' });
+    assert.deepEqual(parseRangeHeader('bytes=-', SIZE), { type: 'none' });
+  });
+
+  it('ignora o header inteiro quando um intervalo termina antes de começar', () => {
+    assert.deepEqual(parseRangeHeader('bytes=5-3', SIZE), { type: 'none' });
+    assert.deepEqual(parseRangeHeader('bytes=0-1,5-3', SIZE), {
+      type: 'none',
+    });
+  });
+
+  it('interpreta intervalos fechados, abertos e sufixos', () => {
+    assert.deepEqual(parseRangeHeader('bytes=0-4', SIZE), {
+      type: 'ranges',
+      ranges: [{ start: 0, end: 4 }],
+    });
+    assert.deepEqual(parseRangeHeader('bytes=3-', SIZE), {
+      type: 'ranges',
+      ranges: [{ start: 3, end: 9 }],
+    });
+    assert.deepEqual(parseRangeHeader('bytes=-3', SIZE), {
+      type: 'ranges',
+      ranges: [{ start: 7, end: 9 }],
+    });
+  });
+
+  it('limita o fim ao tamanho do recurso', () => {
+    assert.deepEqual(parseRangeHeader('bytes=2-100', SIZE), {
+      type: 'ranges',
+      ranges: [{ start: 2, end: 9 }],
+    });
+    assert.deepEqual(parseRangeHeader('bytes=-100', SIZE), {
+      type: 'ranges',
+      ranges: [{ start: 0, end: 9 }],
+    });
+  });
+
+  it('descarta apenas os intervalos fora do recurso', () => {
+    assert.deepEqual(parseRangeHeader('bytes=0-1,20-30', SIZE), {
+      type: 'ranges',
+      ranges: [{ start: 0, end: 1 }],
+    });
+  });
+
+  it('retorna unsatisfiable quando nenhum intervalo alcança o recurso', () => {
+    for (const header of ['bytes=10-', 'bytes=10-20', 'bytes=-0']) {
+      assert.deepEqual(parseRangeHeader(header, SIZE), {
+        type: 'unsatisfiable',
+      });
+    }
+    assert.deepEqual(parseRangeHeader('bytes=0-', 0), {
+      type: 'unsatisfiable',
+    });
+  });
+
+  it('ignora headers com intervalos demais', () => {
+    const header = `bytes=${Array.from({ length: 21 }, () => '0-0').join(',')}`;
+    assert.deepEqual(parseRangeHeader(header, SIZE), { type: 'none' });
+  });
+});
+
+describe('isNotModified', () => {
+  it('compara If-None-Match de forma fraca', () => {
+    assert.equal(
+      isNotModified({ 'if-none-match': `W/${ETAG}` }, ETAG, LAST_MODIFIED),
+      true
+    );
+    assert.equal(
+      isNotModified({ 'if-none-match': '"outro", *' }, ETAG, LAST_MODIFIED),
+      false
+    );
+    assert.equal(
+      isNotModified({ 'if-none-match': '*' }, ETAG, LAST_MODIFIED),
+      true
+    );
+  });
+
+  it('usa If-Modified-Since apenas sem If-None-Match', () => {
+    const since = LAST_MODIFIED.toUTCString();
+
+    assert.equal(
+      isNotModified({ 'if-modified-since': since }, ETAG, LAST_MODIFIED),
+      true
+    );
+    assert.equal(
+      isNotModified(
+        { 'if-none-match': '"outro"', 'if-modified-since': since },
+        ETAG,
+        LAST_MODIFIED
+      ),
+      false
+    );
+    assert.equal(
+      isNotModified(
+        { 'if-modified-since': new Date('2025-01-01').toUTCString() },
+        ETAG,
+        LAST_MODIFIED
+      ),
+      false
+    );
+  });
+});
+
+describe('resolveRequestedRanges', () => {
+  it('aplica o Range quando If-Range corresponde ao ETag ou à data', () => {
+    const expected = { type: 'ranges', ranges: [{ start: 2, end: 9 }] };
+
+    assert.deepEqual(
+      resolveRequestedRanges(
+        { range: 'bytes=2-', 'if-range': ETAG },
+        SIZE,
+        ETAG,
+        LAST_MODIFIED
+      ),
+      expected
+    );
+    assert.deepEqual(
+      resolveRequestedRanges(
+        { range: 'bytes=2-', 'if-range': LAST_MODIFIED.toUTCString() },
+        SIZE,
+        ETAG,
+        LAST_MODIFIED
+      ),
+      expected
+    );
+  });
+
+  it('envia o recurso inteiro quando If-Range está desatualizado ou é fraco', () => {
+    for (const ifRange of ['"outro"', `W/${ETAG}`, 'data inválida']) {
+      assert.deepEqual(
+        resolveRequestedRanges(
+          { range: 'bytes=2-', 'if-range': ifRange },
+          SIZE,
+          ETAG,
+          LAST_MODIFIED
+        ),
+        { type: 'none' }
+      );
+    }
+  });
+});
+
+describe('isResumedDownload', () => {
+  it('aceita um único intervalo após o primeiro byte com If-Range atual', () => {
+    assert.equal(
+      isResumedDownload(
+        { range: 'bytes=4-', 'if-range': ETAG },
+        SIZE,
+        ETAG,
+        LAST_MODIFIED
+      ),
+      true
+    );
+  });
+
+  it('recusa requisições sem If-Range, do início ou com vários intervalos', () => {
+    const cases = [
+      { range: 'bytes=4-' },
+      { range: 'bytes=0-', 'if-range': ETAG },
+      { range: 'bytes=4-5,7-8', 'if-range': ETAG },
+      { range: 'bytes=40-', 'if-range': ETAG },
+      { range: 'bytes=4-', 'if-range': '"outro"' },
+    ];
+
+    for (const headers of cases) {
+      assert.equal(
+        isResumedDownload(headers, SIZE, ETAG, LAST_MODIFIED),
+        false,
+        JSON.stringify(headers)
+      );
+    }
+  });
+});
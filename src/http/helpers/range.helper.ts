@@ -0,0 +1,255 @@
+import { randomBytes } from 'node:crypto';
+import type { IncomingHttpHeaders } from 'node:http';
+import { Readable } from 'node:stream';
+import type { ByteRange } from '../../services/storage/storage-provider.interface.ts';
+
+const RANGE_UNIT_PREFIX = 'bytes=';
+const MAX_RANGES = 20;
+const RANGE_SPEC_REGEX = /^\s*\d*-\d*\s*$/;
+const WEAK_ETAG_PREFIX_REGEX = /^W\//;
+
+export type RangeParseResult =
+  | { type: 'none' }
+  | { type: 'unsatisfiable' }
+  | { type: 'ranges'; ranges: ByteRange[] };
+
+type RangeSpecResult = ByteRange | 'invalid' | 'unsatisfiable';
+
+/**
+ * Especificações inválidas (sintaxe incorreta ou último byte antes do
+ * primeiro) são diferentes das válidas que não alcançam nenhum byte do
+ * recurso: só estas últimas resultam em 416
+ */
+function parseRangeSpec(spec: string, size: number): RangeSpecResult {
+  if (!RANGE_SPEC_REGEX.test(spec)) {
+    return 'invalid';
+  }
+
+  const [rawStart, rawEnd] = spec.trim().split('-');
+
+  // Sufixo: "-500" representa os últimos 500 bytes
+  if (rawStart === '') {
+    if (rawEnd === '') {
+      return 'invalid';
+    }
+    const suffixLength = Number(rawEnd);
+    if (suffixLength === 0 || size === 0) {
+      return 'unsatisfiable';
+    }
+    return { start: Math.max(size - suffixLength, 0), end: size - 1 };
+  }
+
+  const start = Number(rawStart);
+  if (rawEnd !== '' && Number(rawEnd) < start) {
+    return 'invalid';
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+
+  const end = rawEnd === '' ? size - 1 : Math.min(Number(rawEnd), size - 1);
+  return { start, end };
+}
+
+/**
+ * Interpreta o header Range (RFC 9110) para um recurso de `size` bytes.
+ * Headers malformados ou com unidades desconhecidas são ignorados e o
+ * recurso completo deve ser servido.
+ */
+export function parseRangeHeader(
+  header: string | undefined,
+  size: number
+): RangeParseResult {
+  if (!header?.startsWith(RANGE_UNIT_PREFIX)) {
+    return { type: 'none' };
+  }
+
+  const specs = header.slice(RANGE_UNIT_PREFIX.length).split(',');
+  if (specs.length > MAX_RANGES) {
+    return { type: 'none' };
+  }
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const range = parseRangeSpec(spec, size);
+    // Uma especificação inválida invalida o header inteiro
+    if (range === 'invalid') {
+      return { type: 'none' };
+    }
+    if (range !== 'unsatisfiable') {
+      ranges.push(range);
+    }
+  }
+
+  if (ranges.length === 0) {
+    return { type: 'unsatisfiable' };
+  }
+
+  return { type: 'ranges', ranges };
+}
+
+function toEpochSeconds(date: Date | number): number {
+  return Math.floor((typeof date === 'number' ? date : date.getTime()) / 1000);
+}
+
+/**
+ * Verifica se o valor de If-None-Match corresponde ao ETag atual
+ * (comparação fraca, conforme RFC 9110)
+ */
+function matchesIfNoneMatch(header: string, etag: string): boolean {
+  if (header.trim() === '*') {
+    return true;
+  }
+
+  const normalize = (value: string) =>
+    value.trim().replace(WEAK_ETAG_PREFIX_REGEX, '');
+  return header
+    .split(',')
+    .some((value) => normalize(value) === normalize(etag));
+}
+
+/**
+ * Avalia as pré-condições de cache. If-None-Match tem precedência sobre
+ * If-Modified-Since, que só é considerado quando o primeiro está ausente.
+ */
+export function isNotModified(
+  headers: IncomingHttpHeaders,
+  etag: string,
+  lastModified: Date
+): boolean {
+  const ifNoneMatch = headers['if-none-match'];
+  if (ifNoneMatch) {
+    return matchesIfNoneMatch(ifNoneMatch, etag);
+  }
+
+  const ifModifiedSince = Date.parse(headers['if-modified-since'] ?? '');
+  return (
+    !Number.isNaN(ifModifiedSince) &&
+    toEpochSeconds(lastModified) <= toEpochSeconds(ifModifiedSince)
+  );
+}
+
+/**
+ * Avalia If-Range: o Range só é aplicado se o validador ainda for atual.
+ * Aceita ETag forte ou data HTTP igual ao Last-Modified.
+ */
+function isIfRangeFresh(
+  header: string | string[] | undefined,
+  etag: string,
+  lastModified: Date
+): boolean {
+  if (!header) {
+    return true;
+  }
+
+  const value = String(header).trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return !value.startsWith('W/') && value === etag;
+  }
+
+  const date = Date.parse(value);
+  return (
+    !Number.isNaN(date) && toEpochSeconds(date) === toEpochSeconds(lastModified)
+  );
+}
+
+export interface MultipartByteranges {
+  boundary: string;
+  contentLength: number;
+  body: Readable;
+}
+
+/**
+ * Monta o corpo multipart/byteranges para requisições com vários intervalos,
+ * lendo cada intervalo do storage sob demanda
+ */
+export function createMultipartByteranges(
+  ranges: ByteRange[],
+  size: number,
+  contentType: string,
+  openRange: (range: ByteRange) => NodeJS.ReadableStream
+): MultipartByteranges {
+  const boundary = randomBytes(16).toString('hex');
+  const partHeaders = ranges.map((range) =>
+    Buffer.from(
+      `--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`
+    )
+  );
+  const partSeparator = Buffer.from('\r\n');
+  const closingBoundary = Buffer.from(`--${boundary}--\r\n`);
+
+  const contentLength =
+    ranges.reduce(
+      (total, range, index) =>
+        total +
+        partHeaders[index].length +
+        (range.end - range.start + 1) +
+        partSeparator.length,
+      0
+    ) + closingBoundary.length;
+
+  async function* generateParts() {
+    for (const [index, range] of ranges.entries()) {
+      yield partHeaders[index];
+      // Os intervalos precisam ser escritos em sequência no corpo da resposta
+      // biome-ignore lint/nursery/noAwaitInLoop: true
+      for await (const chunk of openRange(range)) {
+        yield chunk;
+      }
+      yield partSeparator;
+    }
+    yield closingBoundary;
+  }
+
+  return {
+    boundary,
+    contentLength,
+    body: Readable.from(generateParts(), { objectMode: false }),
+  };
+}
+
+/**
+ * Resolve os intervalos solicitados considerando o If-Range: se o validador
+ * não corresponder à versão atual, o arquivo inteiro deve ser enviado
+ */
+export function resolveRequestedRanges(
+  headers: IncomingHttpHeaders,
+  size: number,
+  etag: string,
+  lastModified: Date
+): RangeParseResult {
+  if (!isIfRangeFresh(headers['if-range'], etag, lastModified)) {
+    return { type: 'none' };
+  }
+
+  return parseRangeHeader(headers.range, size);
+}
+
+/**
+ * Indica se a requisição retoma um download já iniciado: um único intervalo
+ * válido que não começa no primeiro byte, atrelado por If-Range à versão
+ * atual do arquivo
+ */
+export function isResumedDownload(
+  headers: IncomingHttpHeaders,
+  size: number,
+  etag: string,
+  lastModified: Date
+): boolean {
+  if (
+    !(
+      headers['if-range'] &&
+      isIfRangeFresh(headers['if-range'], etag, lastModified)
+    )
+  ) {
+    return false;
+  }
+
+  const rangeResult = parseRangeHeader(headers.range, size);
+
+  return (
+    rangeResult.type === 'ranges' &&
+    rangeResult.ranges.length === 1 &&
+    rangeResult.ranges[0].start > 0
+  );
+}
@@ -0,0 +1,115 @@
+import type { FastifyInstance } from 'fastify';
+import {
+  type LogActionType,
+  type LogDetails,
+  type LogEntry,
+  LogService,
+} from '../../services/log.service.ts';
+import { logger } from '../../utils/logger.ts';
+import { redactUrl } from '../helpers/log-redaction.helper.ts';
+import { createRequestContext } from './request-context.ts';
+
+const logService = new LogService();
+
+const FIRST_BYTE_RANGE_REGEX = /^bytes=\s*0-/;
+
+type AuditTarget = 'file' | 'folder' | 'user';
+
+const TARGET_COLUMNS = {
+  file: 'fileId',
+  folder: 'folderId',
+  user: 'targetUserId',
+} as const satisfies Record<AuditTarget, keyof LogEntry>;
+
+export interface RouteAudit {
+  action: LogActionType;
+  target: AuditTarget;
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    audit?: RouteAudit;
+  }
+
+  interface FastifyRequest {
+    /**
+     * Recursos afetados pela requisição, quando não vêm de `params.id`
+     * (por exemplo, ids gerados por rotas de criação)
+     */
+    auditTargetIds?: string[];
+    /** Substitui a ação declarada na rota (ex.: alteração de papel) */
+    auditAction?: LogActionType;
+    auditDetails?: LogDetails;
+  }
+}
+
+/**
+ * Um download em partes (players de vídeo, gerenciadores de download) gera
+ * uma resposta 206 por intervalo. Só a resposta completa ou a do intervalo
+ * que começa no primeiro byte conta como download; HEAD não transfere nada.
+ */
+function isPartialDownload(
+  method: string,
+  statusCode: number,
+  range = ''
+): boolean {
+  if (method === 'HEAD') {
+    return true;
+  }
+
+  return statusCode === 206 && !FIRST_BYTE_RANGE_REGEX.test(range);
+}
+
+/**
+ * Registra nos logs, em nome do usuário autenticado, as requisições bem
+ * sucedidas de rotas que declaram `config.audit`. Ações cujo log depende
+ * de regras de negócio (versões, movimentações, exclusões em cascata) são
+ * registradas pelos próprios serviços e não usam `config.audit`.
+ */
+export function setupRouteAudit(app: FastifyInstance) {
+  app.decorateRequest('auditTargetIds');
+  app.decorateRequest('auditAction');
+  app.decorateRequest('auditDetails');
+
+  app.addHook('onResponse', async (request, reply) => {
+    const { audit } = request.routeOptions.config;
+
+    if (!(audit && request.user) || reply.statusCode >= 300) {
+      return;
+    }
+
+    const { id } = (request.params ?? {}) as { id?: string };
+    const targetIds = request.auditTargetIds ?? (id ? [id] : [null]);
+    const column = TARGET_COLUMNS[audit.target];
+    const actionType = request.auditAction ?? audit.action;
+
+    if (
+      actionType === 'download' &&
+      isPartialDownload(request.method, reply.statusCode, request.headers.range)
+    ) {
+      return;
+    }
+
+    // O hook roda após o envio da resposta, fora do contexto da requisição
+    const context = createRequestContext(request);
+
+    try {
+      await Promise.all(
+        targetIds.map((targetId) =>
+          logService.record({
+            userId: request.user.id,
+            actionType,
+            [column]: targetId,
+            details: request.auditDetails,
+            context,
+          })
+        )
+      );
+    } catch (error) {
+      logger.error(
+        `Falha ao registrar log de auditoria (${actionType}) em ${request.method} ${redactUrl(request.url)}`,
+        error
+      );
+    }
+  });
+}
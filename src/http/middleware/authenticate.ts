@@ -0,0 +1,38 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import { AuthService } from '../../services/auth/auth.service.ts';
+import {
+  createUnauthorizedResponse,
+  HTTP_STATUS,
+} from '../../types/api-response.ts';
+
+const authService = new AuthService();
+
+const BEARER_PREFIX = 'Bearer ';
+
+/**
+ * PreHandler que valida o access token e popula request.user
+ */
+export async function authenticate(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> {
+  const authorization = request.headers.authorization;
+
+  if (!authorization?.startsWith(BEARER_PREFIX)) {
+    return await reply
+      .status(HTTP_STATUS.UNAUTHORIZED)
+      .send(createUnauthorizedResponse('Token de acesso não informado'));
+  }
+
+  const user = authService.verifyAccessToken(
+    authorization.slice(BEARER_PREFIX.length).trim()
+  );
+
+  if (!user) {
+    return await reply
+      .status(HTTP_STATUS.UNAUTHORIZED)
+      .send(createUnauthorizedResponse('Token de acesso inválido ou expirado'));
+  }
+
+  request.user = user;
+}
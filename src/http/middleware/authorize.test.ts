@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, before, describe, it, mock } from 'node:test';
+import type { FastifyInstance, InjectOptions, RouteOptions } from 'fastify';
+import type { AuthenticatedUser, UserRole } from '../../types/auth.ts';
+
+// As rotas importam o env, que exige o segredo do JWT
+process.env.JWT_SECRET ??= 'x'.repeat(32);
+
+const { fastify } = await import('fastify');
+const {
+  hasAccessLevel,
+  PERMISSION_ACCESS_LEVELS,
+  PERMISSIONS,
+  ROLE_ACCESS_LEVELS,
+  ROLE_PERMISSIONS,
+} = await import('../../constants/permissions.ts');
+const { sql } = await import('../../db/connection.ts');
+const { AclService } = await import('../../services/acl.service.ts');
+const { registerProtectedRoutes } = await import(
+  '../routes/protected-routes.ts'
+);
+const { setupRoutePermissions } = await import('./authorize.ts');
+
+const ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+const PARAM_REGEX = /:(\w+)/g;
+
+type RegisteredRoute = Pick<RouteOptions, 'method' | 'url' | 'config'>;
+type HasAccessArgs = Parameters<InstanceType<typeof AclService>['hasAccess']>;
+
+/**
+ * Monta as rotas protegidas com os handlers substituídos: a requisição que
+ * passa pela autorização recebe 200, sem tocar no banco
+ */
+async function buildApp(routes: RegisteredRoute[]): Promise<FastifyInstance> {
+  const app = fastify();
+
+  app.decorateRequest('user');
+  app.setValidatorCompiler(() => (data) => ({ value: data }));
+  app.setSerializerCompiler(() => (data) => JSON.stringify(data));
+
+  app.addHook('onRoute', (routeOptions) => {
+    routes.push({
+      method: routeOptions.method,
+      url: routeOptions.url,
+      config: routeOptions.config,
+    });
+    routeOptions.handler = async () => ({ reached: true });
+  });
+
+  app.addHook('preHandler', (request, _, done) => {
+    request.user = {
+      id: randomUUID(),
+      email: 'teste@example.com',
+      role: request.headers['x-test-role'] as UserRole,
+    } satisfies AuthenticatedUser;
+    done();
+  });
+
+  setupRoutePermissions(app);
+  await app.register(registerProtectedRoutes);
+  await app.ready();
+
+  return app;
+}
+
+function toRequestUrl(url: string): string {
+  return url.replace(PARAM_REGEX, (_, name: string) =>
+    name === 'version' ? '1' : randomUUID()
+  );
+}
+
+describe('permissões por papel', () => {
+  const routes: RegisteredRoute[] = [];
+  let app: FastifyInstance;
+
+  before(async () => {
+    // Sem entradas de ACL, o nível de acesso é o padrão do papel
+    mock.method(
+      AclService.prototype,
+      'hasAccess',
+      (...[user, , required]: HasAccessArgs) =>
+        Promise.resolve(
+          hasAccessLevel(ROLE_ACCESS_LEVELS[user.role as UserRole], required)
+        )
+    );
+    app = await buildApp(routes);
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    await app.close();
+    await sql.end();
+  });
+
+  it('toda rota protegida declara uma permissão conhecida', () => {
+    assert.ok(routes.length > 0);
+
+    for (const route of routes) {
+      assert.ok(
+        route.config?.permission &&
+          PERMISSIONS.includes(route.config.permission),
+        `${route.method} ${route.url} sem permissão válida`
+      );
+    }
+  });
+
+  it('administradores têm todas as permissões', () => {
+    assert.deepEqual([...ROLE_PERMISSIONS.admin], [...PERMISSIONS]);
+  });
+
+  it('cada papel acessa apenas as rotas que a sua política permite', async () => {
+    const requests = routes.flatMap((route) =>
+      ROLES.map(async (role) => {
+        const { permission, acl } = route.config ?? {};
+        const method = [route.method].flat()[0] as InjectOptions['method'];
+        const response = await app.inject({
+          method,
+          url: toRequestUrl(route.url),
+          headers: { 'x-test-role': role },
+        });
+
+        // Rotas com ACL `handler` verificam o destino no próprio handler
+        const checkedByHandler =
+          acl === 'handler' &&
+          permission !== undefined &&
+          PERMISSION_ACCESS_LEVELS[permission] !== undefined;
+        const allowed =
+          checkedByHandler ||
+          ROLE_PERMISSIONS[role].includes(permission as never);
+
+        assert.equal(
+          response.statusCode,
+          allowed ? 200 : 403,
+          `${role} em ${method} ${route.url} (${permission})`
+        );
+
+        // Respostas a HEAD não têm corpo
+        if (!allowed && method !== 'HEAD') {
+          assert.deepEqual(response.json(), {
+            success: false,
+            data: null,
+            status: '403',
+            message: 'Você não tem permissão para esta operação',
+          });
+        }
+      })
+    );
+
+    await Promise.all(requests);
+  });
+});
@@ -0,0 +1,104 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import {
+  hasPermission,
+  PERMISSION_ACCESS_LEVELS,
+  type Permission,
+} from '../../constants/permissions.ts';
+import {
+  AclService,
+  type AclTarget,
+  toAclNode,
+} from '../../services/acl.service.ts';
+import {
+  createForbiddenResponse,
+  HTTP_STATUS,
+} from '../../types/api-response.ts';
+import { logger } from '../../utils/logger.ts';
+
+const aclService = new AclService();
+
+/**
+ * Arquivo ou pasta sobre o qual a rota atua. Sem id na requisição, a
+ * verificação é feita sobre a raiz.
+ */
+export interface RouteAcl {
+  target: AclTarget;
+  /** Campo com o id do nó (padrão: `id`) */
+  param?: string;
+  /** Parte da requisição que contém o campo (padrão: `params`) */
+  from?: 'params' | 'body' | 'query';
+}
+
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    permission?: Permission;
+    /**
+     * Verifica a permissão pela ACL do arquivo ou pasta em vez do papel.
+     * Com `handler`, a verificação fica a cargo da própria rota (ex.:
+     * uploads multipart, cujo destino só é conhecido durante o parse).
+     */
+    acl?: RouteAcl | 'handler';
+  }
+}
+
+function isAllowed(
+  request: FastifyRequest,
+  permission: Permission,
+  acl: RouteAcl | 'handler' | undefined
+): boolean | Promise<boolean> {
+  const required = PERMISSION_ACCESS_LEVELS[permission];
+
+  if (!(acl && required)) {
+    return hasPermission(request.user.role, permission);
+  }
+
+  if (acl === 'handler') {
+    return true;
+  }
+
+  const source = request[acl.from ?? 'params'] as
+    | Record<string, unknown>
+    | undefined;
+  const id = source?.[acl.param ?? 'id'];
+
+  return aclService.hasAccess(
+    request.user,
+    toAclNode(acl.target, typeof id === 'string' && id ? id : null),
+    required
+  );
+}
+
+/**
+ * Exige que toda rota registrada na instância declare `config.permission`
+ * e bloqueia com 403 usuários cujo papel não concede essa permissão. Rotas
+ * com `config.acl` usam o nível de acesso ao arquivo ou pasta, que parte
+ * do papel e pode ser ampliado ou restringido pela ACL.
+ * Deve ser registrado após o preHandler de autenticação.
+ */
+export function setupRoutePermissions(app: FastifyInstance) {
+  app.addHook('onRoute', (routeOptions) => {
+    if (!routeOptions.config?.permission) {
+      throw new Error(
+        `Rota ${routeOptions.method} ${routeOptions.url} não declara permissão`
+      );
+    }
+  });
+
+  app.addHook('preHandler', async (request, reply) => {
+    const { permission, acl } = request.routeOptions.config;
+
+    if (permission && (await isAllowed(request, permission, acl))) {
+      return;
+    }
+
+    logger.warn(
+      `Acesso negado: usuário ${request.user.id} (${request.user.role}) sem permissão ${permission} em ${request.method} ${request.url}`
+    );
+
+    return await reply
+      .status(HTTP_STATUS.FORBIDDEN)
+      .send(
+        createForbiddenResponse('Você não tem permissão para esta operação')
+      );
+  });
+}
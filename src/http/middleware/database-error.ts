@@ -1,5 +1,6 @@
 import type { FastifyInstance } from 'fastify';
 import { logger } from '../../utils/logger.ts';
+import { redactUrl } from '../helpers/log-redaction.helper.ts';
 
 interface DatabaseError extends Error {
   code?: string;
@@ -22,7 +23,7 @@ export function setupDatabaseErrorHandling(app: FastifyInstance) {
       const dbError = error as DatabaseError;
 
       logger.error(
-        `🔥 ERRO DE BANCO DE DADOS detectado na rota ${request.method} ${request.url}:`,
+        `🔥 ERRO DE BANCO DE DADOS detectado na rota ${request.method} ${redactUrl(request.url)}:`,
         {
           message: error.message,
           code: dbError.code,
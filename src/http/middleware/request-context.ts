@@ -0,0 +1,24 @@
+import type { FastifyInstance, FastifyRequest } from 'fastify';
+import {
+  type RequestContext,
+  runWithRequestContext,
+} from '../../utils/request-context.ts';
+
+export function createRequestContext(request: FastifyRequest): RequestContext {
+  return {
+    ip: request.ip,
+    userAgent: request.headers['user-agent'] ?? null,
+    requestId: request.id,
+  };
+}
+
+/**
+ * Disponibiliza IP, user agent e id da requisição para o restante do
+ * processamento e devolve o id no header X-Request-Id
+ */
+export function setupRequestContext(app: FastifyInstance) {
+  app.addHook('onRequest', (request, reply, done) => {
+    reply.header('X-Request-Id', request.id);
+    runWithRequestContext(createRequestContext(request), done);
+  });
+}
@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { ACCESS_LEVELS, PERMISSIONS } from '../../../constants/permissions.ts';
+import type {
+  AclEntryRecord,
+  AclTarget,
+  EffectiveAccess,
+} from '../../../services/acl.service.ts';
+
+/**
+ * As rotas de ACL existem tanto para arquivos quanto para pastas
+ */
+export const ACL_ROUTE_TARGETS = [
+  { target: 'file', prefix: '/files', tag: 'files', label: 'arquivo' },
+  { target: 'folder', prefix: '/folders', tag: 'folders', label: 'pasta' },
+] as const satisfies readonly {
+  target: AclTarget;
+  prefix: string;
+  tag: string;
+  label: string;
+}[];
+
+export const accessLevelSchema = z.enum(ACCESS_LEVELS);
+
+export const aclEntrySchema = z.object({
+  id: z.string(),
+  fileId: z.string().nullable(),
+  folderId: z.string().nullable(),
+  userId: z.string().nullable(),
+  groupId: z.string().nullable(),
+  level: accessLevelSchema,
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const effectiveAccessSchema = z.object({
+  userId: z.string(),
+  level: accessLevelSchema,
+  source: z.enum(['admin', 'role', 'entry']),
+  inherited: z.boolean(),
+  entry: aclEntrySchema.nullable(),
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+export function formatAclEntry(entry: AclEntryRecord) {
+  return {
+    ...entry,
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString(),
+  };
+}
+
+export function formatEffectiveAccess(userId: string, access: EffectiveAccess) {
+  return {
+    userId,
+    level: access.level,
+    source: access.source,
+    inherited: access.inherited,
+    entry: access.entry ? formatAclEntry(access.entry) : null,
+    permissions: access.permissions,
+  };
+}
@@ -0,0 +1,57 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { AclService, toAclNode } from '../../../services/acl.service.ts';
+import {
+  createApiErrorResponse,
+  createErrorResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+import { ACL_ROUTE_TARGETS } from './acl-schemas.ts';
+
+const aclService = new AclService();
+
+export function deleteAclGroupEntry(app: FastifyInstance) {
+  for (const { target, prefix, tag, label } of ACL_ROUTE_TARGETS) {
+    app.withTypeProvider<ZodTypeProvider>().delete(
+      `${prefix}/:id/acl/groups/:groupId`,
+      {
+        config: { permission: 'acl:manage', acl: { target } },
+        schema: {
+          tags: [tag],
+          summary: `Remover a entrada de um grupo da ACL de um(a) ${label}`,
+          description:
+            'Os membros voltam a herdar o nível da pasta acima ou do seu papel',
+          params: z.object({
+            id: z.uuid(),
+            groupId: z.uuid(),
+          }),
+          response: {
+            204: z.object({}),
+            404: createErrorResponseSchema(),
+          },
+        },
+      },
+      async (request, reply) => {
+        const removed = await aclService.removeEntry(
+          toAclNode(target, request.params.id),
+          { groupId: request.params.groupId },
+          request.user
+        );
+
+        if (!removed) {
+          return reply
+            .status(HTTP_STATUS.NOT_FOUND)
+            .send(
+              createApiErrorResponse(
+                'Entrada da ACL não encontrada',
+                HTTP_STATUS.NOT_FOUND
+              )
+            );
+        }
+
+        return reply.status(HTTP_STATUS.NO_CONTENT).send();
+      }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { AclService, toAclNode } from '../../../services/acl.service.ts';
+import {
+  createApiSuccessResponse,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import {
+  ACL_ROUTE_TARGETS,
+  aclEntrySchema,
+  formatAclEntry,
+} from './acl-schemas.ts';
+
+const aclService = new AclService();
+
+export function getAclEntries(app: FastifyInstance) {
+  for (const { target, prefix, tag, label } of ACL_ROUTE_TARGETS) {
+    app.withTypeProvider<ZodTypeProvider>().get(
+      `${prefix}/:id/acl`,
+      {
+        config: { permission: 'acl:manage', acl: { target } },
+        schema: {
+          tags: [tag],
+          summary: `Listar entradas da ACL de um(a) ${label}`,
+          description:
+            'Apenas as entradas definidas diretamente no nó; as herdadas de pastas acima não são incluídas',
+          params: z.object({
+            id: z.uuid(),
+          }),
+          response: {
+            200: createSuccessResponseSchema(z.array(aclEntrySchema)),
+          },
+        },
+      },
+      async (request, reply) => {
+        const entries = await aclService.listEntries(
+          toAclNode(target, request.params.id)
+        );
+
+        return reply.send(
+          createApiSuccessResponse(
+            entries.map(formatAclEntry),
+            'Entradas da ACL listadas'
+          )
+        );
+      }
+    );
+  }
+}
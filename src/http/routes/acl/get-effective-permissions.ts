@@ -0,0 +1,95 @@
+import { eq } from 'drizzle-orm';
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { db } from '../../../db/connection.ts';
+import { users } from '../../../db/schema/users.ts';
+import { AclService, toAclNode } from '../../../services/acl.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+import {
+  ACL_ROUTE_TARGETS,
+  effectiveAccessSchema,
+  formatEffectiveAccess,
+} from './acl-schemas.ts';
+
+const aclService = new AclService();
+
+export function getEffectivePermissions(app: FastifyInstance) {
+  for (const { target, prefix, tag, label } of ACL_ROUTE_TARGETS) {
+    app.withTypeProvider<ZodTypeProvider>().get(
+      `${prefix}/:id/permissions`,
+      {
+        config: {
+          permission: target === 'file' ? 'files:read' : 'folders:read',
+          acl: { target },
+        },
+        schema: {
+          tags: [tag],
+          summary: `Permissões efetivas de um usuário sobre um(a) ${label}`,
+          description:
+            'Sem userId, consulta o próprio usuário. Consultar outro usuário exige nível manage sobre o nó',
+          params: z.object({
+            id: z.uuid(),
+          }),
+          querystring: z.object({
+            userId: z.uuid().optional(),
+          }),
+          response: {
+            200: createSuccessResponseSchema(effectiveAccessSchema),
+            403: createErrorResponseSchema(),
+            404: createErrorResponseSchema(),
+          },
+        },
+      },
+      async (request, reply) => {
+        const node = toAclNode(target, request.params.id);
+        const userId = request.query.userId ?? request.user.id;
+
+        if (
+          userId !== request.user.id &&
+          !(await aclService.hasAccess(request.user, node, 'manage'))
+        ) {
+          return reply
+            .status(HTTP_STATUS.FORBIDDEN)
+            .send(
+              createApiErrorResponse(
+                'Você não tem permissão para consultar outros usuários',
+                HTTP_STATUS.FORBIDDEN
+              )
+            );
+        }
+
+        const [user] = await db
+          .select({ id: users.id, role: users.role })
+          .from(users)
+          .where(eq(users.id, userId));
+
+        if (!user) {
+          return reply
+            .status(HTTP_STATUS.NOT_FOUND)
+            .send(
+              createApiErrorResponse(
+                'Usuário não encontrado',
+                HTTP_STATUS.NOT_FOUND
+              )
+            );
+        }
+
+        const access = await aclService.getEffectiveAccess(user, node);
+
+        return reply.send(
+          createApiSuccessResponse(
+            formatEffectiveAccess(user.id, access),
+            'Permissões efetivas calculadas'
+          )
+        );
+      }
+    );
+  }
+}
@@ -0,0 +1,6 @@
+export { deleteAclEntry } from './delete-acl-entry.ts';
+export { deleteAclGroupEntry } from './delete-acl-group-entry.ts';
+export { getAclEntries } from './get-acl-entries.ts';
+export { getEffectivePermissions } from './get-effective-permissions.ts';
+export { setAclEntry } from './set-acl-entry.ts';
+export { setAclGroupEntry } from './set-acl-group-entry.ts';
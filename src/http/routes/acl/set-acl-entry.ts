@@ -0,0 +1,74 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  AclError,
+  AclService,
+  toAclNode,
+} from '../../../services/acl.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import {
+  ACL_ROUTE_TARGETS,
+  accessLevelSchema,
+  aclEntrySchema,
+  formatAclEntry,
+} from './acl-schemas.ts';
+
+const aclService = new AclService();
+
+export function setAclEntry(app: FastifyInstance) {
+  for (const { target, prefix, tag, label } of ACL_ROUTE_TARGETS) {
+    app.withTypeProvider<ZodTypeProvider>().put(
+      `${prefix}/:id/acl/:userId`,
+      {
+        config: { permission: 'acl:manage', acl: { target } },
+        schema: {
+          tags: [tag],
+          summary: `Definir o nível de acesso de um usuário a um(a) ${label}`,
+          description:
+            'Substitui a entrada existente. Em pastas, o nível vale para toda a subárvore até outra entrada aplicável ao usuário; `none` bloqueia o acesso herdado',
+          params: z.object({
+            id: z.uuid(),
+            userId: z.uuid(),
+          }),
+          body: z.object({
+            level: accessLevelSchema,
+          }),
+          response: {
+            200: createSuccessResponseSchema(aclEntrySchema),
+            404: createErrorResponseSchema(),
+          },
+        },
+      },
+      async (request, reply) => {
+        try {
+          const entry = await aclService.setEntry(
+            toAclNode(target, request.params.id),
+            { userId: request.params.userId },
+            request.body.level,
+            request.user
+          );
+
+          return reply.send(
+            createApiSuccessResponse(
+              formatAclEntry(entry),
+              'Permissão atualizada com sucesso'
+            )
+          );
+        } catch (error) {
+          if (error instanceof AclError) {
+            return reply
+              .status(error.statusCode)
+              .send(createApiErrorResponse(error.message, error.statusCode));
+          }
+          throw error;
+        }
+      }
+    );
+  }
+}
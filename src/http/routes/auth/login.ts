@@ -0,0 +1,69 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  AuthenticationError,
+  AuthService,
+} from '../../../services/auth/auth.service.ts';
+import {
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  createUnauthorizedResponse,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+
+const authService = new AuthService();
+
+export function login(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/auth/login',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Autenticar usuário com email e senha',
+        body: z.object({
+          email: z.email(),
+          password: z.string().min(1),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              accessToken: z.string(),
+              refreshToken: z.string(),
+              tokenType: z.literal('Bearer'),
+              expiresIn: z.number().int(),
+              user: z.object({
+                id: z.string(),
+                name: z.string(),
+                email: z.string(),
+                role: z.enum(['admin', 'colaborador', 'visualizador']),
+              }),
+            })
+          ),
+          401: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { email, password } = request.body;
+
+      try {
+        const result = await authService.login(email, password);
+
+        return reply
+          .status(HTTP_STATUS.OK)
+          .send(
+            createApiSuccessResponse(result, 'Login realizado com sucesso')
+          );
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          return reply
+            .status(HTTP_STATUS.UNAUTHORIZED)
+            .send(createUnauthorizedResponse(error.message));
+        }
+        throw error;
+      }
+    }
+  );
+}
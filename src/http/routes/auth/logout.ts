@@ -0,0 +1,29 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { AuthService } from '../../../services/auth/auth.service.ts';
+
+const authService = new AuthService();
+
+export function logout(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/auth/logout',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Encerrar sessão revogando o refresh token',
+        body: z.object({
+          refreshToken: z.string().min(1),
+        }),
+        response: {
+          204: z.object({}),
+        },
+      },
+    },
+    async (request, reply) => {
+      await authService.logout(request.body.refreshToken);
+
+      return reply.status(204).send();
+    }
+  );
+}
@@ -0,0 +1,60 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  AuthenticationError,
+  AuthService,
+} from '../../../services/auth/auth.service.ts';
+import {
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  createUnauthorizedResponse,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+
+const authService = new AuthService();
+
+export function refreshToken(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/auth/refresh',
+    {
+      schema: {
+        tags: ['auth'],
+        summary: 'Renovar access token usando um refresh token',
+        body: z.object({
+          refreshToken: z.string().min(1),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              accessToken: z.string(),
+              refreshToken: z.string(),
+              tokenType: z.literal('Bearer'),
+              expiresIn: z.number().int(),
+            })
+          ),
+          401: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const tokens = await authService.refresh(request.body.refreshToken);
+
+        return reply
+          .status(HTTP_STATUS.OK)
+          .send(
+            createApiSuccessResponse(tokens, 'Sessão renovada com sucesso')
+          );
+      } catch (error) {
+        if (error instanceof AuthenticationError) {
+          return reply
+            .status(HTTP_STATUS.UNAUTHORIZED)
+            .send(createUnauthorizedResponse(error.message));
+        }
+        throw error;
+      }
+    }
+  );
+}
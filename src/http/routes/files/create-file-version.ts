@@ -0,0 +1,223 @@
+import type { MultipartFile } from '@fastify/multipart';
+import { eq } from 'drizzle-orm';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { ALLOWED_FILE_TYPES } from '../../../constants/files.ts';
+import { db } from '../../../db/connection.ts';
+import { files } from '../../../db/schema/files.ts';
+import {
+  ChecksumMismatchError,
+  FileUploadService,
+  type UploadFileResult,
+} from '../../../services/file-upload.service.ts';
+import { FileVersionService } from '../../../services/file-version.service.ts';
+import {
+  QuotaExceededError,
+  QuotaService,
+} from '../../../services/quota.service.ts';
+import type { ByteBudget } from '../../../services/storage/byte-limit-stream.ts';
+import { normalizeSha256 } from '../../../services/storage/checksum-stream.ts';
+import {
+  createApiErrorResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  createUnprocessableEntityResponse,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+import { logger } from '../../../utils/logger.ts';
+import { createResponseHelper } from '../../helpers/response.helper.ts';
+
+const uploadService = new FileUploadService();
+const fileVersionService = new FileVersionService();
+const quotaService = new QuotaService();
+
+type VersionUpload = { upload: UploadFileResult } | { rejection: string };
+
+const versionFieldsSchema = z.object({
+  checksum: z
+    .string()
+    .refine(
+      (value) => normalizeSha256(value) !== null,
+      'checksum deve ser um SHA-256 em hexadecimal'
+    )
+    .optional(),
+});
+
+export function createFileVersion(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/files/:id/versions',
+    {
+      config: {
+        permission: 'files:write',
+        acl: { target: 'file' },
+      },
+      schema: {
+        tags: ['files'],
+        summary: 'Enviar nova versão de um arquivo',
+        description:
+          'Upload multipart/form-data de um único arquivo que passa a ser a versão atual',
+        consumes: ['multipart/form-data'],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          201: createSuccessResponseSchema(
+            z.object({
+              id: z.string(),
+              fileId: z.string(),
+              versionNumber: z.number().int(),
+              name: z.string(),
+              type: z.string(),
+              size: z.string(),
+              checksum: z.string().nullable(),
+              createdAt: z.string(),
+              createdBy: z.string(),
+            })
+          ),
+          400: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+          422: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const responseHelper = createResponseHelper(reply);
+
+      if (!request.isMultipart()) {
+        return await responseHelper.badRequest(
+          'Request deve ser multipart/form-data'
+        );
+      }
+
+      const [file] = await db
+        .select({
+          id: files.id,
+          ownerId: files.ownerId,
+          folderId: files.folderId,
+        })
+        .from(files)
+        .where(eq(files.id, id));
+
+      if (!file) {
+        return await responseHelper.notFound('Arquivo não encontrado');
+      }
+
+      let received: VersionUpload;
+      try {
+        // As versões anteriores continuam contando no uso do dono do arquivo
+        const budget = await quotaService.createBudget(
+          file.ownerId,
+          file.folderId
+        );
+        received = await receiveVersionUpload(request, budget);
+      } catch (error) {
+        return handleVersionUploadError(error, reply);
+      }
+
+      if ('rejection' in received) {
+        return await responseHelper.badRequest(received.rejection);
+      }
+
+      const version = await fileVersionService.addVersion(
+        id,
+        received.upload,
+        request.user
+      );
+
+      if (!version) {
+        return await responseHelper.notFound('Arquivo não encontrado');
+      }
+
+      logger.info(
+        `Versão ${version.versionNumber} criada para o arquivo ${id}`
+      );
+
+      return await responseHelper.created(
+        {
+          id: version.id,
+          fileId: version.fileId,
+          versionNumber: version.versionNumber,
+          name: version.name,
+          type: version.type,
+          size: version.size.toString(),
+          checksum: version.checksum,
+          createdAt: version.createdAt.toISOString(),
+          createdBy: version.createdBy,
+        },
+        'Nova versão criada com sucesso'
+      );
+    }
+  );
+
+  function handleVersionUploadError(error: unknown, reply: FastifyReply) {
+    if (error instanceof ChecksumMismatchError) {
+      return reply
+        .status(HTTP_STATUS.UNPROCESSABLE_ENTITY)
+        .send(createUnprocessableEntityResponse(error.message));
+    }
+
+    if (error instanceof QuotaExceededError) {
+      return reply
+        .status(error.statusCode)
+        .send(createApiErrorResponse(error.message, error.statusCode));
+    }
+
+    throw error;
+  }
+
+  async function receiveVersionUpload(
+    request: FastifyRequest,
+    budget: ByteBudget | undefined
+  ): Promise<VersionUpload> {
+    const fields: Record<string, string> = {};
+    let upload: UploadFileResult | null = null;
+
+    for await (const part of request.parts()) {
+      if (part.type !== 'file') {
+        fields[part.fieldname] = part.value as string;
+        continue;
+      }
+
+      const rejection = validateVersionPart(part, fields, upload !== null);
+      if (rejection) {
+        part.file.resume();
+        if (upload) {
+          await uploadService.discardUpload(upload);
+        }
+        return { rejection };
+      }
+
+      // Campos de texto devem preceder o arquivo no corpo multipart
+      upload = await uploadService.uploadFile(part, {
+        expectedChecksum: fields.checksum,
+        budget,
+      });
+    }
+
+    return upload ? { upload } : { rejection: 'Arquivo não foi enviado' };
+  }
+
+  function validateVersionPart(
+    part: MultipartFile,
+    fields: Record<string, string>,
+    alreadyUploaded: boolean
+  ): string | null {
+    if (alreadyUploaded) {
+      return 'Apenas um arquivo por versão é permitido';
+    }
+
+    if (!uploadService.validateFileType(part.mimetype, ALLOWED_FILE_TYPES)) {
+      return `Tipo de arquivo não suportado: ${part.mimetype}`;
+    }
+
+    const validation = versionFieldsSchema.safeParse(fields);
+    if (!validation.success) {
+      return validation.error.issues.map((issue) => issue.message).join(', ');
+    }
+
+    return null;
+  }
+}
@@ -5,24 +5,43 @@ import { z, ZodError } from 'zod';
 import { ALLOWED_FILE_TYPES } from '../../../constants/files.ts';
 import { db } from '../../../db/connection.ts';
 import { files } from '../../../db/schema/files.ts';
+import { AclError, AclService } from '../../../services/acl.service.ts';
 import {
+  ChecksumMismatchError,
   FileUploadService,
   type UploadFileResult,
 } from '../../../services/file-upload.service.ts';
+import { FileVersionService } from '../../../services/file-version.service.ts';
 import {
+  QuotaExceededError,
+  QuotaService,
+} from '../../../services/quota.service.ts';
+import { normalizeSha256 } from '../../../services/storage/checksum-stream.ts';
+import {
+  createApiErrorResponse,
   createErrorResponseSchema,
   createSuccessResponseSchema,
+  createUnprocessableEntityResponse,
+  HTTP_STATUS,
 } from '../../../types/api-response.ts';
+import type { AuthenticatedUser } from '../../../types/auth.ts';
 import { logger } from '../../../utils/logger.ts';
 import { createResponseHelper } from '../../helpers/response.helper.ts';
 
 const uploadService = new FileUploadService();
+const aclService = new AclService();
+const quotaService = new QuotaService();
+const fileVersionService = new FileVersionService();
 
 const multipartFieldsSchema = z.object({
-  ownerId: z.uuid('ownerId deve ser um UUID válido'),
-  createdBy: z.uuid('createdBy deve ser um UUID válido'),
   folderId: z.uuid('folderId deve ser um UUID válido').optional(),
-  status: z.enum(['ativo', 'lixeira']).default('ativo'),
+  checksum: z
+    .string()
+    .refine(
+      (value) => normalizeSha256(value) !== null,
+      'checksum deve ser um SHA-256 em hexadecimal'
+    )
+    .optional(),
 });
 
 type MultipartFields = z.infer<typeof multipartFieldsSchema>;
@@ -31,6 +50,11 @@ export function createFile(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/files',
     {
+      config: {
+        permission: 'files:write',
+        acl: 'handler',
+        audit: { action: 'upload', target: 'file' },
+      },
       schema: {
         description:
           'Upload de arquivo com metadados usando multipart/form-data',
@@ -54,8 +78,11 @@ export function createFile(app: FastifyInstance) {
             })
           ),
           400: createErrorResponseSchema(),
+          403: createErrorResponseSchema(),
           413: createErrorResponseSchema(),
+          422: createErrorResponseSchema(),
           500: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
         },
       },
     },
@@ -113,9 +140,10 @@ export function createFile(app: FastifyInstance) {
       }
 
       // Validar e processar
-      const result = await processFileUpload(file, data);
+      const result = await processFileUpload(file, data, request.user);
 
       logger.info(`Upload concluído com sucesso: ${result.id}`);
+      request.auditTargetIds = [result.id];
 
       return await responseHelper.created(result, 'Arquivo criado com sucesso');
     } catch (error) {
@@ -126,24 +154,46 @@ export function createFile(app: FastifyInstance) {
   // Função auxiliar para processar upload (comum para todas as abordagens)
   async function processFileUpload(
     file: MultipartFile,
-    data: Record<string, string>
+    data: Record<string, string>,
+    actor: AuthenticatedUser
   ) {
     logger.info('=== INICIANDO PROCESSAMENTO DO UPLOAD ===');
 
     // Validar campos obrigatórios
     const validatedFields = multipartFieldsSchema.parse(data);
 
+    // Verificar escrita na pasta de destino (ou na raiz)
+    await aclService.assertAccess(
+      actor,
+      { folderId: validatedFields.folderId || null },
+      'write'
+    );
+
     // Validar tipo de arquivo
     validateFileType(file);
 
+    // Espaço livre nas cotas do usuário e da pasta, verificado no streaming
+    const budget = await quotaService.createBudget(
+      actor.id,
+      validatedFields.folderId || null
+    );
+
     // Fazer upload do arquivo
     logger.info(`Iniciando upload: ${file.filename} (${file.mimetype})`);
-    const uploadResult = await uploadService.uploadFile(file);
+    const uploadResult = await uploadService.uploadFile(file, {
+      expectedChecksum: validatedFields.checksum,
+      budget,
+    });
 
     // Salvar no banco de dados
-    const result = await saveFileToDatabase(uploadResult, validatedFields);
-
-    return result;
+    try {
+      return await saveFileToDatabase(uploadResult, validatedFields, actor);
+    } catch (error) {
+      await uploadService
+        .discardUpload(uploadResult)
+        .catch(() => logger.warn('Falha ao limpar arquivo após erro de BD'));
+      throw error;
+    }
   }
 
   // Função para validar tipo de arquivo
@@ -158,36 +208,47 @@ export function createFile(app: FastifyInstance) {
   // Função para salvar no banco de dados
   async function saveFileToDatabase(
     uploadResult: UploadFileResult,
-    validatedFields: MultipartFields
+    validatedFields: MultipartFields,
+    actor: AuthenticatedUser
   ) {
     logger.info('Salvando arquivo no banco de dados...');
 
-    const result = await db
-      .insert(files)
-      .values({
-        name: uploadResult.originalName,
-        type: uploadResult.mimeType,
-        size: BigInt(uploadResult.size),
-        checksum: uploadResult.checksum,
-        storagePath: uploadResult.storagePath,
-        folderId: validatedFields.folderId || null,
-        ownerId: validatedFields.ownerId,
-        status: validatedFields.status,
-        createdBy: validatedFields.createdBy,
-      })
-      .returning({
-        id: files.id,
-        name: files.name,
-        type: files.type,
-        size: files.size,
-        checksum: files.checksum,
-        storagePath: files.storagePath,
-        folderId: files.folderId,
-        ownerId: files.ownerId,
-        status: files.status,
-        createdAt: files.createdAt,
-        createdBy: files.createdBy,
-      });
+    const result = await db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(files)
+        .values({
+          name: uploadResult.originalName,
+          type: uploadResult.mimeType,
+          size: BigInt(uploadResult.size),
+          checksum: uploadResult.checksum,
+          blobId: uploadResult.blobId,
+          storagePath: uploadResult.storagePath,
+          folderId: validatedFields.folderId || null,
+          ownerId: actor.id,
+          status: 'ativo',
+          createdBy: actor.id,
+        })
+        .returning({
+          id: files.id,
+          name: files.name,
+          type: files.type,
+          size: files.size,
+          checksum: files.checksum,
+          storagePath: files.storagePath,
+          folderId: files.folderId,
+          ownerId: files.ownerId,
+          status: files.status,
+          createdAt: files.createdAt,
+          createdBy: files.createdBy,
+        });
+
+      await fileVersionService.createInitialVersion(
+        { ...inserted[0], blobId: uploadResult.blobId },
+        tx
+      );
+
+      return inserted;
+    });
 
     const fileRecord = {
       ...result[0],
@@ -199,6 +260,13 @@ export function createFile(app: FastifyInstance) {
     return fileRecord;
   }
 
+  // Erros de serviço que já carregam o status HTTP da resposta
+  function isServiceError(
+    error: unknown
+  ): error is AclError | QuotaExceededError {
+    return error instanceof AclError || error instanceof QuotaExceededError;
+  }
+
   // Função para tratamento de erros
   function handleUploadError(error: unknown, reply: FastifyReply) {
     logger.error('Erro no upload de arquivo:', error);
@@ -217,6 +285,18 @@ export function createFile(app: FastifyInstance) {
       );
     }
 
+    if (error instanceof ChecksumMismatchError) {
+      return reply
+        .status(HTTP_STATUS.UNPROCESSABLE_ENTITY)
+        .send(createUnprocessableEntityResponse(error.message));
+    }
+
+    if (isServiceError(error)) {
+      return reply
+        .status(error.statusCode)
+        .send(createApiErrorResponse(error.message, error.statusCode));
+    }
+
     // Handle specific file upload errors
     if (error instanceof Error) {
       const errorType = getErrorType(error.message);
@@ -5,23 +5,65 @@ import { ZodError, z } from 'zod';
 import { ALLOWED_FILE_TYPES } from '../../../constants/files.ts';
 import { db } from '../../../db/connection.ts';
 import { files } from '../../../db/schema/files.ts';
+import { AclService } from '../../../services/acl.service.ts';
 import {
+  ChecksumMismatchError,
   FileUploadService,
   type UploadFileResult,
 } from '../../../services/file-upload.service.ts';
+import { FileVersionService } from '../../../services/file-version.service.ts';
+import {
+  QuotaExceededError,
+  QuotaService,
+} from '../../../services/quota.service.ts';
+import type { ByteBudget } from '../../../services/storage/byte-limit-stream.ts';
+import { normalizeSha256 } from '../../../services/storage/checksum-stream.ts';
 import {
   createErrorResponseSchema,
   createSuccessResponseSchema,
 } from '../../../types/api-response.ts';
+import type { AuthenticatedUser } from '../../../types/auth.ts';
 import { logger } from '../../../utils/logger.ts';
 
 const uploadService = new FileUploadService();
+const aclService = new AclService();
+const quotaService = new QuotaService();
+const fileVersionService = new FileVersionService();
+
+const checksumMapSchema = z.record(
+  z.string(),
+  z.string().refine((value) => normalizeSha256(value) !== null)
+);
+
+function safeJsonParse(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
 
 const multipartFieldsSchema = z.object({
-  ownerId: z.uuid('ownerId deve ser um UUID válido'),
-  createdBy: z.uuid('createdBy deve ser um UUID válido'),
   folderId: z.uuid('folderId deve ser um UUID válido').optional(),
-  status: z.enum(['ativo', 'lixeira']).default('ativo'),
+  // Mapa JSON { "nome-do-arquivo": "sha256" } com os checksums esperados
+  checksums: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value) {
+        return {};
+      }
+      const parsed = checksumMapSchema.safeParse(safeJsonParse(value));
+      if (!parsed.success) {
+        ctx.addIssue({
+          code: 'custom',
+          message:
+            'checksums deve ser um objeto JSON { nomeDoArquivo: sha256 } com SHA-256 em hexadecimal',
+        });
+        return z.NEVER;
+      }
+      return parsed.data;
+    }),
 });
 
 type MultipartFields = z.infer<typeof multipartFieldsSchema>;
@@ -51,6 +93,11 @@ export function createMultipleFiles(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/files/bulk',
     {
+      config: {
+        permission: 'files:write',
+        acl: 'handler',
+        audit: { action: 'upload', target: 'file' },
+      },
       schema: {
         description:
           'Upload de múltiplos arquivos com metadados usando multipart/form-data',
@@ -89,7 +136,9 @@ export function createMultipleFiles(app: FastifyInstance) {
             })
           ),
           400: createErrorResponseSchema(),
+          403: createErrorResponseSchema(),
           500: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
         },
       },
     },
@@ -114,11 +163,18 @@ export function createMultipleFiles(app: FastifyInstance) {
         });
       }
 
+      // A pasta só é conhecida após ler todas as partes: durante o
+      // streaming vale apenas a cota do usuário
+      const streamingBudget = await quotaService.createBudget(
+        request.user.id,
+        null
+      );
+
       const {
         data,
         tasks: uploadTasks,
         immediateErrors,
-      } = await collectMultipartParts(request);
+      } = await collectMultipartParts(request, streamingBudget);
 
       if (uploadTasks.length === 0 && immediateErrors.length === 0) {
         logger.error('Nenhum arquivo foi encontrado no upload');
@@ -159,16 +215,45 @@ export function createMultipleFiles(app: FastifyInstance) {
 
       const validatedFields = parsed.data;
 
+      // Sem escrita na pasta de destino, nenhum arquivo é mantido
+      const canWrite = await aclService.hasAccess(
+        request.user,
+        { folderId: validatedFields.folderId || null },
+        'write'
+      );
+      if (!canWrite) {
+        const settled = await Promise.allSettled(
+          uploadTasks.map((t) => t.promise)
+        );
+        await cleanupUploadedFilesOnValidationFailure(settled);
+
+        return reply.status(403).send({
+          success: false,
+          data: null,
+          status: '403',
+          message: 'Você não tem permissão para acessar este item',
+        });
+      }
+
       // Aguarda conclusão dos uploads e persiste no banco (evitar await em loop)
       const settled = await Promise.allSettled(
         uploadTasks.map((t) => t.promise)
       );
+      const remaining = await quotaService.getRemaining(
+        request.user.id,
+        validatedFields.folderId || null
+      );
       const persisted = await persistSettledUploads(
         settled,
         uploadTasks,
-        validatedFields
+        validatedFields,
+        request.user,
+        remaining === null ? undefined : { remaining: Number(remaining) }
       );
       const results: FileUploadResult[] = [...immediateErrors, ...persisted];
+      request.auditTargetIds = results.flatMap((r) =>
+        r.file ? [r.file.id] : []
+      );
 
       // Calcular estatísticas
       const successful = results.filter(
@@ -199,7 +284,10 @@ export function createMultipleFiles(app: FastifyInstance) {
   }
 
   // Coleta partes do multipart e inicia uploads imediatamente
-  async function collectMultipartParts(request: FastifyRequest): Promise<{
+  async function collectMultipartParts(
+    request: FastifyRequest,
+    budget: ByteBudget | undefined
+  ): Promise<{
     data: Record<string, string>;
     tasks: UploadTask[];
     immediateErrors: FileUploadResult[];
@@ -231,7 +319,8 @@ export function createMultipleFiles(app: FastifyInstance) {
       const r = createUploadTaskFromPart(
         part,
         inflight,
-        MAX_CONCURRENT_UPLOADS
+        MAX_CONCURRENT_UPLOADS,
+        budget
       );
       if (r.error) {
         immediateErrors.push(r.error);
@@ -268,7 +357,10 @@ export function createMultipleFiles(app: FastifyInstance) {
     logger.debug(`Campo processado: ${part.fieldname} = ${fieldValue}`);
   }
 
-  function handleFilePart(part: MultipartFile): {
+  function handleFilePart(
+    part: MultipartFile,
+    budget: ByteBudget | undefined
+  ): {
     task?: UploadTask;
     error?: FileUploadResult;
   } {
@@ -300,7 +392,7 @@ export function createMultipleFiles(app: FastifyInstance) {
       };
     }
 
-    const promise = uploadService.uploadFile(part).then((res) => {
+    const promise = uploadService.uploadFile(part, { budget }).then((res) => {
       logger.info(`Upload concluído com sucesso: ${part.filename}`);
       return res;
     });
@@ -330,9 +422,10 @@ export function createMultipleFiles(app: FastifyInstance) {
   function createUploadTaskFromPart(
     part: MultipartFile,
     inflight: Set<Promise<unknown>>,
-    maxConcurrent: number
+    maxConcurrent: number,
+    budget: ByteBudget | undefined
   ): { task?: UploadTask; error?: FileUploadResult } {
-    const res = handleFilePart(part);
+    const res = handleFilePart(part, budget);
     if (!res.task) {
       return res;
     }
@@ -372,7 +465,7 @@ export function createMultipleFiles(app: FastifyInstance) {
       )
       .map((s) =>
         uploadService
-          .deleteFile(s.value.storagePath)
+          .discardUpload(s.value)
           .catch(() => logger.warn('Falha ao limpar arquivo após validação'))
       );
     await Promise.all(deletions);
@@ -381,12 +474,19 @@ export function createMultipleFiles(app: FastifyInstance) {
   async function persistSettledUploads(
     settled: PromiseSettledResult<UploadFileResult>[],
     uploadTasks: UploadTask[],
-    validatedFields: MultipartFields
+    validatedFields: MultipartFields,
+    actor: AuthenticatedUser,
+    budget: ByteBudget | undefined
   ): Promise<FileUploadResult[]> {
     const savePromises = settled.map((s, idx) => {
       const filename = uploadTasks[idx]?.filename ?? 'arquivo';
       if (s.status === 'fulfilled') {
-        return saveFileToDatabase(s.value, validatedFields)
+        return assertExpectedChecksum(
+          s.value,
+          validatedFields.checksums[filename]
+        )
+          .then(() => reserveQuota(s.value, budget))
+          .then(() => saveFileToDatabase(s.value, validatedFields, actor))
           .then(
             (record) => ({ success: true, file: record }) as FileUploadResult
           )
@@ -394,7 +494,7 @@ export function createMultipleFiles(app: FastifyInstance) {
             const msg =
               e instanceof Error ? e.message : 'Erro ao salvar no banco';
             await uploadService
-              .deleteFile(s.value.storagePath)
+              .discardUpload(s.value)
               .catch(() =>
                 logger.warn('Falha ao limpar arquivo após erro de BD')
               );
@@ -417,6 +517,37 @@ export function createMultipleFiles(app: FastifyInstance) {
     return await Promise.all(savePromises);
   }
 
+  // Desconta o arquivo do espaço livre nas cotas do usuário e da pasta
+  function reserveQuota(
+    uploadResult: UploadFileResult,
+    budget: ByteBudget | undefined
+  ): Promise<void> {
+    if (!budget) {
+      return Promise.resolve();
+    }
+    if (uploadResult.size > budget.remaining) {
+      return Promise.reject(new QuotaExceededError());
+    }
+    budget.remaining -= uploadResult.size;
+    return Promise.resolve();
+  }
+
+  // Rejeita uploads cujo conteúdo não corresponde ao checksum informado
+  function assertExpectedChecksum(
+    uploadResult: UploadFileResult,
+    expected: string | undefined
+  ): Promise<void> {
+    if (expected && normalizeSha256(expected) !== uploadResult.checksum) {
+      return Promise.reject(
+        new ChecksumMismatchError(
+          normalizeSha256(expected) ?? expected,
+          uploadResult.checksum
+        )
+      );
+    }
+    return Promise.resolve();
+  }
+
   // Função para validar tipo de arquivo
   function validateFileType(file: MultipartFile) {
     if (!uploadService.validateFileType(file.mimetype, ALLOWED_FILE_TYPES)) {
@@ -427,34 +558,45 @@ export function createMultipleFiles(app: FastifyInstance) {
   // Função para salvar no banco de dados
   async function saveFileToDatabase(
     uploadResult: UploadFileResult,
-    validatedFields: MultipartFields
+    validatedFields: MultipartFields,
+    actor: AuthenticatedUser
   ) {
-    const result = await db
-      .insert(files)
-      .values({
-        name: uploadResult.originalName,
-        type: uploadResult.mimeType,
-        size: BigInt(uploadResult.size),
-        checksum: uploadResult.checksum,
-        storagePath: uploadResult.storagePath,
-        folderId: validatedFields.folderId || null,
-        ownerId: validatedFields.ownerId,
-        status: validatedFields.status,
-        createdBy: validatedFields.createdBy,
-      })
-      .returning({
-        id: files.id,
-        name: files.name,
-        type: files.type,
-        size: files.size,
-        checksum: files.checksum,
-        storagePath: files.storagePath,
-        folderId: files.folderId,
-        ownerId: files.ownerId,
-        status: files.status,
-        createdAt: files.createdAt,
-        createdBy: files.createdBy,
-      });
+    const result = await db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(files)
+        .values({
+          name: uploadResult.originalName,
+          type: uploadResult.mimeType,
+          size: BigInt(uploadResult.size),
+          checksum: uploadResult.checksum,
+          blobId: uploadResult.blobId,
+          storagePath: uploadResult.storagePath,
+          folderId: validatedFields.folderId || null,
+          ownerId: actor.id,
+          status: 'ativo',
+          createdBy: actor.id,
+        })
+        .returning({
+          id: files.id,
+          name: files.name,
+          type: files.type,
+          size: files.size,
+          checksum: files.checksum,
+          storagePath: files.storagePath,
+          folderId: files.folderId,
+          ownerId: files.ownerId,
+          status: files.status,
+          createdAt: files.createdAt,
+          createdBy: files.createdBy,
+        });
+
+      await fileVersionService.createInitialVersion(
+        { ...inserted[0], blobId: uploadResult.blobId },
+        tx
+      );
+
+      return inserted;
+    });
 
     const fileRecord = {
       ...result[0],
@@ -486,6 +628,15 @@ export function createMultipleFiles(app: FastifyInstance) {
       });
     }
 
+    if (error instanceof QuotaExceededError) {
+      return reply.status(error.statusCode).send({
+        success: false,
+        data: null,
+        status: error.statusCode.toString(),
+        message: error.message,
+      });
+    }
+
     const message =
       error instanceof Error ? error.message : 'Erro interno do servidor';
 
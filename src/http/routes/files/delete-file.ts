@@ -1,19 +1,25 @@
-import { eq } from 'drizzle-orm';
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
-import { db } from '../../../db/connection.ts';
-import { files } from '../../../db/schema/files.ts';
+import { FileVersionService } from '../../../services/file-version.service.ts';
+
+const fileVersionService = new FileVersionService();
 
 export function deleteFile(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().delete(
     '/files/:id',
     {
+      config: {
+        permission: 'files:delete',
+        acl: { target: 'file' },
+      },
       schema: {
         tags: ['files'],
         summary: 'Deletar arquivo',
+        description:
+          'Remove o arquivo e todas as suas versões permanentemente, apagando do storage o conteúdo que não for compartilhado com outros arquivos',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         response: {
           204: z.object({}),
@@ -26,11 +32,9 @@ export function deleteFile(app: FastifyInstance) {
     async (request, reply) => {
       const { id } = request.params;
 
-      const result = await db.delete(files).where(eq(files.id, id)).returning({
-        id: files.id,
-      });
+      const deleted = await fileVersionService.deleteFile(id, request.user);
 
-      if (result.length === 0) {
+      if (!deleted) {
         return reply.status(404).send({ message: 'Arquivo não encontrado' });
       }
 
@@ -0,0 +1,71 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { FileVersionService } from '../../../services/file-version.service.ts';
+import { getStorageProvider } from '../../../services/storage/storage.factory.ts';
+import { logger } from '../../../utils/logger.ts';
+import { sendStoredFile } from '../../helpers/file-download.helper.ts';
+
+const fileVersionService = new FileVersionService();
+
+export function downloadFileVersion(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/files/:id/versions/:version/download',
+    {
+      config: {
+        permission: 'files:read',
+        acl: { target: 'file' },
+        audit: { action: 'download', target: 'file' },
+      },
+      schema: {
+        tags: ['files'],
+        summary: 'Download de uma versão específica do arquivo',
+        params: z.object({
+          id: z.uuid(),
+          version: z.coerce.number().int().positive(),
+        }),
+        response: {
+          200: z.any().describe('Versão do arquivo para download'),
+          206: z.any().describe('Conteúdo parcial da versão'),
+          304: z.any().describe('Versão não modificada'),
+          404: z.object({
+            message: z.string(),
+          }),
+          416: z.object({
+            message: z.string(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, version: versionNumber } = request.params;
+
+      try {
+        const version = await fileVersionService.getVersion(id, versionNumber);
+
+        if (!version) {
+          return reply.status(404).send({
+            message: 'Versão não encontrada',
+          });
+        }
+
+        const exists = await getStorageProvider().exists(version.storagePath);
+        if (!exists) {
+          return reply.status(404).send({
+            message: 'Versão não encontrada no storage',
+          });
+        }
+
+        return sendStoredFile(request, reply, {
+          ...version,
+          lastModified: version.createdAt,
+        });
+      } catch (error) {
+        logger.error('Erro ao fazer download da versão do arquivo:', error);
+        return reply.status(500).send({
+          message: 'Erro interno do servidor',
+        });
+      }
+    }
+  );
+}
@@ -4,25 +4,37 @@ import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { db } from '../../../db/connection.ts';
 import { files } from '../../../db/schema/files.ts';
-import { LocalStorageProvider } from '../../../services/storage/local-storage.provider.ts';
 import { getStorageProvider } from '../../../services/storage/storage.factory.ts';
 import { logger } from '../../../utils/logger.ts';
+import { sendStoredFile } from '../../helpers/file-download.helper.ts';
 
 export function downloadFile(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/files/:id/download',
     {
+      config: {
+        permission: 'files:read',
+        acl: { target: 'file' },
+        audit: { action: 'download', target: 'file' },
+      },
       schema: {
         tags: ['files'],
         summary: 'Download de arquivo',
+        description:
+          'Suporta Range (inclusive múltiplos intervalos), If-Range, If-None-Match e If-Modified-Since',
         params: z.object({
           id: z.uuid(),
         }),
         response: {
           200: z.any().describe('Arquivo para download'),
+          206: z.any().describe('Conteúdo parcial do arquivo'),
+          304: z.any().describe('Arquivo não modificado'),
           404: z.object({
             message: z.string(),
           }),
+          416: z.object({
+            message: z.string(),
+          }),
         },
       },
     },
@@ -49,23 +61,10 @@ export function downloadFile(app: FastifyInstance) {
           });
         }
 
-        // Para o provider local, criar stream de leitura
-        if (storageProvider instanceof LocalStorageProvider) {
-          const readStream = storageProvider.createReadStream(file.storagePath);
-
-          reply.header('Content-Type', file.type);
-          reply.header(
-            'Content-Disposition',
-            `attachment; filename="${encodeURIComponent(file.name)}"`
-          );
-          reply.header('Content-Length', file.size.toString());
-
-          return reply.send(readStream);
-        }
-
-        // Para outros providers (futuro S3), redirecionar para URL
-        const downloadUrl = await storageProvider.getUrl(file.storagePath);
-        return reply.redirect(downloadUrl);
+        return sendStoredFile(request, reply, {
+          ...file,
+          lastModified: file.updatedAt,
+        });
       } catch (error) {
         logger.error('Erro ao fazer download do arquivo:', error);
         return reply.status(500).send({
@@ -16,11 +16,16 @@ export function getFileById(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/files/:id',
     {
+      config: {
+        permission: 'files:read',
+        acl: { target: 'file' },
+        audit: { action: 'view', target: 'file' },
+      },
       schema: {
         tags: ['files'],
         summary: 'Buscar arquivo por ID',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         response: {
           200: createSuccessResponseSchema(
@@ -33,7 +38,11 @@ export function getFileById(app: FastifyInstance) {
               folderId: z.string().nullable(),
               ownerId: z.string(),
               status: z.enum(['ativo', 'lixeira']),
+              currentVersion: z.number().int(),
+              integrityStatus: z.enum(['integro', 'ausente', 'corrompido']),
+              integrityCheckedAt: z.string().datetime().nullable(),
               createdAt: z.string().datetime(),
+              updatedAt: z.string().datetime(),
               createdBy: z.string(),
             })
           ),
@@ -54,7 +63,11 @@ export function getFileById(app: FastifyInstance) {
           folderId: files.folderId,
           ownerId: files.ownerId,
           status: files.status,
+          currentVersion: files.currentVersion,
+          integrityStatus: files.integrityStatus,
+          integrityCheckedAt: files.integrityCheckedAt,
           createdAt: files.createdAt,
+          updatedAt: files.updatedAt,
           createdBy: files.createdBy,
         })
         .from(files)
@@ -69,6 +82,8 @@ export function getFileById(app: FastifyInstance) {
         ...result[0],
         size: result[0].size.toString(),
         createdAt: result[0].createdAt.toISOString(),
+        updatedAt: result[0].updatedAt.toISOString(),
+        integrityCheckedAt: result[0].integrityCheckedAt?.toISOString() ?? null,
       };
 
       const response = createApiSuccessResponse(file, 'Arquivo encontrado');
@@ -0,0 +1,102 @@
+import { eq } from 'drizzle-orm';
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { db } from '../../../db/connection.ts';
+import { files } from '../../../db/schema/files.ts';
+import { FileUploadService } from '../../../services/file-upload.service.ts';
+import { SignedUrlError } from '../../../services/storage/signed-url.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+
+const fileUploadService = new FileUploadService();
+
+// Mesmo limite das URLs pré-assinadas do S3
+const MAX_URL_EXPIRES_IN = 7 * 24 * 60 * 60;
+
+export function getFileUrl(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/files/:id/url',
+    {
+      config: {
+        permission: 'files:read',
+        acl: { target: 'file' },
+        audit: { action: 'share', target: 'file' },
+      },
+      schema: {
+        tags: ['files'],
+        summary: 'Gerar URL temporária de download',
+        description:
+          'Gera uma URL assinada que dispensa autenticação até expirar. No storage local, a URL pode ser de uso único (singleUse) e vinculada ao IP de quem a solicitou (bindIp)',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        querystring: z.object({
+          expiresIn: z.coerce
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_URL_EXPIRES_IN)
+            .optional(),
+          singleUse: z.stringbool().default(false),
+          bindIp: z.stringbool().default(false),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              url: z.string(),
+            })
+          ),
+          400: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { expiresIn, singleUse, bindIp } = request.query;
+
+      const [file] = await db
+        .select({ storagePath: files.storagePath })
+        .from(files)
+        .where(eq(files.id, id));
+
+      if (!file) {
+        return reply
+          .status(HTTP_STATUS.NOT_FOUND)
+          .send(
+            createApiErrorResponse(
+              'Arquivo não encontrado',
+              HTTP_STATUS.NOT_FOUND
+            )
+          );
+      }
+
+      try {
+        const url = await fileUploadService.getFileUrl(file.storagePath, {
+          expiresIn,
+          singleUse,
+          ip: bindIp ? request.ip : undefined,
+        });
+
+        request.auditDetails = { expiresIn, singleUse, bindIp };
+
+        return reply.send(
+          createApiSuccessResponse({ url }, 'URL de download gerada')
+        );
+      } catch (error) {
+        if (error instanceof SignedUrlError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
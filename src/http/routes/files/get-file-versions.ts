@@ -0,0 +1,79 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { FileVersionService } from '../../../services/file-version.service.ts';
+import {
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import { createResponseHelper } from '../../helpers/response.helper.ts';
+
+const fileVersionService = new FileVersionService();
+
+export function getFileVersions(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/files/:id/versions',
+    {
+      config: {
+        permission: 'files:read',
+        acl: { target: 'file' },
+      },
+      schema: {
+        tags: ['files'],
+        summary: 'Listar versões de um arquivo',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.array(
+              z.object({
+                id: z.string(),
+                versionNumber: z.number().int(),
+                name: z.string(),
+                type: z.string(),
+                size: z.string(),
+                checksum: z.string().nullable(),
+                isCurrent: z.boolean(),
+                restoredFrom: z.number().int().nullable(),
+                downloadUrl: z.string(),
+                createdAt: z.string(),
+                createdBy: z.string(),
+                authorName: z.string().nullable(),
+              })
+            )
+          ),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const responseHelper = createResponseHelper(reply);
+
+      const versions = await fileVersionService.listVersions(id);
+
+      if (!versions) {
+        return await responseHelper.notFound('Arquivo não encontrado');
+      }
+
+      return await responseHelper.success(
+        versions.map((version) => ({
+          id: version.id,
+          versionNumber: version.versionNumber,
+          name: version.name,
+          type: version.type,
+          size: version.size.toString(),
+          checksum: version.checksum,
+          isCurrent: version.isCurrent,
+          restoredFrom: version.restoredFrom,
+          downloadUrl: `/files/${id}/versions/${version.versionNumber}/download`,
+          createdAt: version.createdAt.toISOString(),
+          createdBy: version.createdBy,
+          authorName: version.authorName,
+        })),
+        'Versões encontradas'
+      );
+    }
+  );
+}
@@ -4,6 +4,7 @@ import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { db } from '../../../db/connection.ts';
 import { files } from '../../../db/schema/files.ts';
+import { AclService } from '../../../services/acl.service.ts';
 import {
   calculateOffset,
   calculatePaginationMeta,
@@ -13,10 +14,13 @@ import {
 import { logger } from '../../../utils/logger.ts';
 import { createResponseHelper } from '../../helpers/response.helper.ts';
 
+const aclService = new AclService();
+
 export function getFiles(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/files',
     {
+      config: { permission: 'files:read' },
       schema: {
         tags: ['files'],
         summary: 'Listar todos os arquivos com paginação e busca',
@@ -65,7 +69,10 @@ export function getFiles(app: FastifyInstance) {
           `GET /files - Parâmetros recebidos: ${JSON.stringify(request.query)}`
         );
 
-        const conditions: Parameters<typeof and> = [];
+        // Arquivos que o usuário não pode ler não aparecem na listagem
+        const conditions: Parameters<typeof and> = [
+          aclService.readableFiles(request.user),
+        ];
 
         if (folderId) {
           conditions.push(eq(files.folderId, folderId));
@@ -1,9 +1,14 @@
 export { createFile } from './create-file.ts';
+export { createFileVersion } from './create-file-version.ts';
 export { createMultipleFiles } from './create-multiple-files.ts';
 export { deleteFile } from './delete-file.ts';
 export { downloadFile } from './download-file.ts';
+export { downloadFileVersion } from './download-file-version.ts';
 export { getFileById } from './get-file-by-id.ts';
+export { getFileUrl } from './get-file-url.ts';
+export { getFileVersions } from './get-file-versions.ts';
 export { getFiles } from './get-files.ts';
 export { moveFileToTrash } from './move-file-to-trash.ts';
 export { restoreFile } from './restore-file.ts';
+export { restoreFileVersion } from './restore-file-version.ts';
 export { updateFile } from './update-file.ts';
@@ -1,4 +1,4 @@
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
@@ -9,11 +9,16 @@ export function moveFileToTrash(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/files/:id/trash',
     {
+      config: {
+        permission: 'files:write',
+        acl: { target: 'file' },
+        audit: { action: 'delete', target: 'file' },
+      },
       schema: {
         tags: ['files'],
         summary: 'Mover arquivo para a lixeira',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         response: {
           200: z.object({
@@ -22,24 +27,40 @@ export function moveFileToTrash(app: FastifyInstance) {
           404: z.object({
             message: z.string(),
           }),
+          409: z.object({
+            message: z.string(),
+          }),
         },
       },
     },
     async (request, reply) => {
       const { id } = request.params;
 
+      // Só arquivos ativos: reenviar à lixeira reiniciaria o prazo de remoção
       const result = await db
         .update(files)
         .set({
           status: 'lixeira',
+          trashedAt: new Date(),
         })
-        .where(eq(files.id, id))
+        .where(and(eq(files.id, id), eq(files.status, 'ativo')))
         .returning({
           id: files.id,
         });
 
       if (result.length === 0) {
-        return reply.status(404).send({ message: 'Arquivo não encontrado' });
+        const [file] = await db
+          .select({ id: files.id })
+          .from(files)
+          .where(eq(files.id, id));
+
+        if (!file) {
+          return reply.status(404).send({ message: 'Arquivo não encontrado' });
+        }
+
+        return reply
+          .status(409)
+          .send({ message: 'O arquivo já está na lixeira' });
       }
 
       return reply.send({ message: 'Arquivo movido para a lixeira' });
@@ -0,0 +1,95 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { FileVersionService } from '../../../services/file-version.service.ts';
+import { QuotaExceededError } from '../../../services/quota.service.ts';
+import {
+  createApiErrorResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import { createResponseHelper } from '../../helpers/response.helper.ts';
+
+const fileVersionService = new FileVersionService();
+
+export function restoreFileVersion(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/files/:id/versions/:version/restore',
+    {
+      config: {
+        permission: 'files:write',
+        acl: { target: 'file' },
+      },
+      schema: {
+        tags: ['files'],
+        summary: 'Restaurar versão anterior do arquivo',
+        description:
+          'Cria uma nova versão atual com o conteúdo da versão informada, preservando o histórico',
+        params: z.object({
+          id: z.uuid(),
+          version: z.coerce.number().int().positive(),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              id: z.string(),
+              fileId: z.string(),
+              versionNumber: z.number().int(),
+              restoredFrom: z.number().int().nullable(),
+              name: z.string(),
+              type: z.string(),
+              size: z.string(),
+              checksum: z.string().nullable(),
+              createdAt: z.string(),
+              createdBy: z.string(),
+            })
+          ),
+          404: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, version: versionNumber } = request.params;
+      const responseHelper = createResponseHelper(reply);
+
+      let version: Awaited<
+        ReturnType<typeof fileVersionService.restoreVersion>
+      >;
+      try {
+        version = await fileVersionService.restoreVersion(
+          id,
+          versionNumber,
+          request.user
+        );
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+
+      if (!version) {
+        return await responseHelper.notFound('Versão não encontrada');
+      }
+
+      return await responseHelper.success(
+        {
+          id: version.id,
+          fileId: version.fileId,
+          versionNumber: version.versionNumber,
+          restoredFrom: version.restoredFrom,
+          name: version.name,
+          type: version.type,
+          size: version.size.toString(),
+          checksum: version.checksum,
+          createdAt: version.createdAt.toISOString(),
+          createdBy: version.createdBy,
+        },
+        `Versão ${versionNumber} restaurada como versão ${version.versionNumber}`
+      );
+    }
+  );
+}
@@ -4,16 +4,22 @@ import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { db } from '../../../db/connection.ts';
 import { files } from '../../../db/schema/files.ts';
+import { folders } from '../../../db/schema/folders.ts';
 
 export function restoreFile(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().patch(
     '/files/:id/restore',
     {
+      config: {
+        permission: 'files:write',
+        acl: { target: 'file' },
+        audit: { action: 'restore', target: 'file' },
+      },
       schema: {
         tags: ['files'],
         summary: 'Restaurar arquivo da lixeira',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         response: {
           200: z.object({
@@ -22,25 +28,53 @@ export function restoreFile(app: FastifyInstance) {
           404: z.object({
             message: z.string(),
           }),
+          409: z.object({
+            message: z.string(),
+          }),
         },
       },
     },
     async (request, reply) => {
       const { id } = request.params;
 
-      const result = await db
+      const [file] = await db
+        .select({ status: files.status, folderId: files.folderId })
+        .from(files)
+        .where(eq(files.id, id));
+
+      if (!file) {
+        return reply.status(404).send({ message: 'Arquivo não encontrado' });
+      }
+
+      if (file.status !== 'lixeira') {
+        return reply
+          .status(409)
+          .send({ message: 'O arquivo não está na lixeira' });
+      }
+
+      if (file.folderId) {
+        const [folder] = await db
+          .select({ status: folders.status })
+          .from(folders)
+          .where(eq(folders.id, file.folderId));
+
+        // Restaurado, o arquivo ficaria ativo dentro de uma pasta na lixeira
+        if (folder?.status === 'lixeira') {
+          return reply.status(409).send({
+            message:
+              'A pasta do arquivo está na lixeira; restaure a pasta primeiro',
+          });
+        }
+      }
+
+      await db
         .update(files)
         .set({
           status: 'ativo',
+          trashRootId: null,
+          trashedAt: null,
         })
-        .where(eq(files.id, id))
-        .returning({
-          id: files.id,
-        });
-
-      if (result.length === 0) {
-        return reply.status(404).send({ message: 'Arquivo não encontrado' });
-      }
+        .where(eq(files.id, id));
 
       return reply.send({ message: 'Arquivo restaurado com sucesso' });
     }
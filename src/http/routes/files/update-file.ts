@@ -4,29 +4,101 @@ import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { db } from '../../../db/connection.ts';
 import { files } from '../../../db/schema/files.ts';
+import { folders } from '../../../db/schema/folders.ts';
+import { AclService } from '../../../services/acl.service.ts';
+import { diffChanges } from '../../../services/log.service.ts';
 import {
+  QuotaExceededError,
+  QuotaService,
+} from '../../../services/quota.service.ts';
+import {
+  createApiErrorResponse,
   createErrorResponseSchema,
   createSuccessResponseSchema,
+  HTTP_STATUS,
+  type HttpStatusCode,
 } from '../../../types/api-response.ts';
+import type { AuthenticatedUser } from '../../../types/auth.ts';
 import { createResponseHelper } from '../../helpers/response.helper.ts';
 
+const aclService = new AclService();
+const quotaService = new QuotaService();
+
+/**
+ * Mover o arquivo exige uma pasta de destino ativa (ou a raiz), escrita
+ * nela e espaço nas cotas das pastas do destino. Retorna o erro a
+ * responder, se houver.
+ */
+async function checkMoveDestination(
+  user: AuthenticatedUser,
+  file: { id: string; folderId: string | null },
+  folderId: string | null
+): Promise<{ message: string; statusCode: HttpStatusCode } | null> {
+  if (folderId) {
+    const [folder] = await db
+      .select({ status: folders.status })
+      .from(folders)
+      .where(eq(folders.id, folderId));
+
+    if (!folder) {
+      return {
+        message: 'Pasta de destino não encontrada',
+        statusCode: HTTP_STATUS.NOT_FOUND,
+      };
+    }
+
+    if (folder.status !== 'ativo') {
+      return {
+        message: 'A pasta de destino está na lixeira',
+        statusCode: HTTP_STATUS.UNPROCESSABLE_ENTITY,
+      };
+    }
+  }
+
+  if (!(await aclService.hasAccess(user, { folderId }, 'write'))) {
+    return {
+      message: 'Você não tem permissão para mover o arquivo para o destino',
+      statusCode: HTTP_STATUS.FORBIDDEN,
+    };
+  }
+
+  try {
+    await quotaService.assertMoveAvailable(
+      await quotaService.getFileUsage(file.id),
+      file.folderId,
+      folderId
+    );
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return { message: error.message, statusCode: error.statusCode };
+    }
+    throw error;
+  }
+
+  return null;
+}
+
 export function updateFile(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().put(
     '/files/:id',
     {
+      config: {
+        permission: 'files:write',
+        acl: { target: 'file' },
+        audit: { action: 'update', target: 'file' },
+      },
       schema: {
         tags: ['files'],
         summary: 'Atualizar arquivo',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         body: z.object({
           name: z.string().min(1).optional(),
           type: z.string().min(1).optional(),
-          size: z.string().optional(),
-          storagePath: z.string().min(1).optional(),
-          folderId: z.string().optional(),
-          status: z.enum(['ativo', 'lixeira']).optional(),
+          // Conteúdo muda por versões; lixeira e restauração têm rotas próprias.
+          // `null` move o arquivo para o nível raiz
+          folderId: z.uuid().nullable().optional(),
         }),
         response: {
           200: createSuccessResponseSchema(
@@ -43,20 +115,48 @@ export function updateFile(app: FastifyInstance) {
               createdBy: z.string(),
             })
           ),
+          403: createErrorResponseSchema(),
           404: createErrorResponseSchema(),
+          422: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
         },
       },
     },
     async (request, reply) => {
       const { id } = request.params;
-      const { size, ...otherUpdateData } = request.body;
+      const updateData = request.body;
       const responseHelper = createResponseHelper(reply);
 
-      // Prepare update data with proper type conversion
-      const updateData = {
-        ...otherUpdateData,
-        ...(size && { size: BigInt(size) }),
-      };
+      const [current] = await db
+        .select({
+          name: files.name,
+          type: files.type,
+          folderId: files.folderId,
+        })
+        .from(files)
+        .where(eq(files.id, id));
+
+      if (!current) {
+        return await responseHelper.notFound('Arquivo não encontrado');
+      }
+
+      const { folderId } = updateData;
+      const moveError =
+        folderId !== undefined && folderId !== current.folderId
+          ? await checkMoveDestination(
+              request.user,
+              { id, folderId: current.folderId },
+              folderId
+            )
+          : null;
+
+      if (moveError) {
+        return reply
+          .status(moveError.statusCode)
+          .send(
+            createApiErrorResponse(moveError.message, moveError.statusCode)
+          );
+      }
 
       const result = await db
         .update(files)
@@ -79,6 +179,14 @@ export function updateFile(app: FastifyInstance) {
         return await responseHelper.notFound('Arquivo não encontrado');
       }
 
+      const changes = diffChanges(current, updateData);
+      if (changes) {
+        request.auditDetails = changes;
+        if (Object.keys(changes.after).every((field) => field === 'name')) {
+          request.auditAction = 'rename';
+        }
+      }
+
       const file = {
         ...result[0],
         size: result[0].size.toString(),
@@ -14,13 +14,17 @@ export function createFolder(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/folders',
     {
+      config: {
+        permission: 'folders:write',
+        acl: { target: 'folder', param: 'parentId', from: 'body' },
+        audit: { action: 'create_folder', target: 'folder' },
+      },
       schema: {
         tags: ['folders'],
         summary: 'Criar nova pasta',
         body: z.object({
           name: z.string().min(1),
           parentId: z.string().optional(),
-          createdBy: z.string(),
         }),
         response: {
           201: createSuccessResponseSchema(
@@ -37,7 +41,7 @@ export function createFolder(app: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      const { name, parentId, createdBy } = request.body;
+      const { name, parentId } = request.body;
 
       try {
         const result = await db
@@ -45,7 +49,7 @@ export function createFolder(app: FastifyInstance) {
           .values({
             name,
             parentId: parentId || null,
-            createdBy,
+            createdBy: request.user.id,
           })
           .returning({
             id: folders.id,
@@ -59,6 +63,7 @@ export function createFolder(app: FastifyInstance) {
           ...result[0],
           createdAt: result[0].createdAt.toISOString(),
         };
+        request.auditTargetIds = [folder.id];
 
         return reply
           .status(201)
@@ -1,50 +1,77 @@
-import { eq } from 'drizzle-orm';
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
-import { db } from '../../../db/connection.ts';
-import { folders } from '../../../db/schema/folders.ts';
 import {
+  FolderOperationError,
+  FolderService,
+} from '../../../services/folder.service.ts';
+import {
+  createApiErrorResponse,
   createApiSuccessResponse,
   createErrorResponseSchema,
-  createNotFoundResponse,
+  createSuccessResponseSchema,
 } from '../../../types/api-response.ts';
 
+const folderService = new FolderService();
+
+const DELETION_MESSAGES = {
+  restrict: 'Pasta deletada com sucesso',
+  trash: 'Pasta movida para a lixeira com sucesso',
+  purge: 'Pasta e conteúdo removidos permanentemente',
+} as const;
+
 export function deleteFolder(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().delete(
     '/folders/:id',
     {
+      config: {
+        permission: 'folders:delete',
+        acl: { target: 'folder' },
+      },
       schema: {
         tags: ['folders'],
         summary: 'Deletar pasta',
+        description:
+          'restrict recusa pastas com conteúdo; trash envia a subárvore (pastas e arquivos) para a lixeira; purge remove a subárvore e os arquivos armazenados permanentemente. trash e purge exigem permissão de gerenciamento em todas as subpastas e arquivos',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
+        }),
+        querystring: z.object({
+          mode: z.enum(['restrict', 'trash', 'purge']).default('restrict'),
         }),
         response: {
-          200: createApiSuccessResponse(null, 'Pasta deletada com sucesso'),
+          200: createSuccessResponseSchema(
+            z.object({
+              mode: z.enum(['restrict', 'trash', 'purge']),
+              folders: z.number(),
+              files: z.number(),
+              storageObjects: z.number(),
+            })
+          ),
+          403: createErrorResponseSchema(),
           404: createErrorResponseSchema(),
+          409: createErrorResponseSchema(),
         },
       },
     },
     async (request, reply) => {
       const { id } = request.params;
+      const { mode } = request.query;
 
-      const result = await db
-        .delete(folders)
-        .where(eq(folders.id, id))
-        .returning({
-          id: folders.id,
-        });
+      try {
+        const summary = await folderService.delete(id, mode, request.user);
 
-      if (result.length === 0) {
-        return reply
-          .status(404)
-          .send(createNotFoundResponse('Pasta não encontrada'));
+        return reply.send(
+          createApiSuccessResponse(summary, DELETION_MESSAGES[mode])
+        );
+      } catch (error) {
+        if (error instanceof FolderOperationError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
       }
-
-      return reply.send(
-        createApiSuccessResponse(null, 'Pasta deletada com sucesso')
-      );
     }
   );
 }
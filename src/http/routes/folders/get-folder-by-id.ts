@@ -15,11 +15,15 @@ export function getFolderById(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/folders/:id',
     {
+      config: {
+        permission: 'folders:read',
+        acl: { target: 'folder' },
+      },
       schema: {
         tags: ['folders'],
         summary: 'Buscar pasta por ID',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         response: {
           200: createSuccessResponseSchema(
@@ -0,0 +1,55 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { FolderService } from '../../../services/folder.service.ts';
+import {
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import { createResponseHelper } from '../../helpers/response.helper.ts';
+
+const folderService = new FolderService();
+
+export function getFolderPath(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/folders/:id/path',
+    {
+      config: {
+        permission: 'folders:read',
+        acl: { target: 'folder' },
+      },
+      schema: {
+        tags: ['folders'],
+        summary: 'Caminho (breadcrumb) da raiz até a pasta',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.array(
+              z.object({
+                id: z.string(),
+                name: z.string(),
+                parentId: z.string().nullable(),
+                fileCount: z.number().int(),
+                totalSize: z.string(),
+              })
+            )
+          ),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const responseHelper = createResponseHelper(reply);
+
+      const path = await folderService.getPath(request.params.id);
+
+      if (!path) {
+        return await responseHelper.notFound('Pasta não encontrada');
+      }
+
+      return await responseHelper.success(path, 'Caminho da pasta encontrado');
+    }
+  );
+}
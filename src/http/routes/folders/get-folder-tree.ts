@@ -0,0 +1,73 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  FolderService,
+  MAX_FOLDER_TREE_DEPTH,
+} from '../../../services/folder.service.ts';
+import {
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import { createResponseHelper } from '../../helpers/response.helper.ts';
+
+const folderService = new FolderService();
+
+const folderTreeNodeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  parentId: z.string().nullable(),
+  depth: z.number().int(),
+  fileCount: z.number().int(),
+  totalSize: z.string(),
+  get children(): z.ZodArray<typeof folderTreeNodeSchema> {
+    return z.array(folderTreeNodeSchema);
+  },
+});
+
+export function getFolderTree(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/folders/tree',
+    {
+      config: {
+        permission: 'folders:read',
+        acl: { target: 'folder', param: 'rootId', from: 'query' },
+      },
+      schema: {
+        tags: ['folders'],
+        summary: 'Árvore de pastas com contagem de arquivos e tamanho',
+        querystring: z.object({
+          rootId: z
+            .uuid()
+            .optional()
+            .describe('Pasta raiz da árvore (padrão: pastas de nível raiz)'),
+          maxDepth: z.coerce
+            .number()
+            .int()
+            .min(0)
+            .max(MAX_FOLDER_TREE_DEPTH)
+            .optional()
+            .describe('Profundidade máxima a partir da raiz (0 = só a raiz)'),
+        }),
+        response: {
+          200: createSuccessResponseSchema(z.array(folderTreeNodeSchema)),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const responseHelper = createResponseHelper(reply);
+
+      const tree = await folderService.getTree({
+        ...request.query,
+        readableBy: request.user,
+      });
+
+      if (!tree) {
+        return await responseHelper.notFound('Pasta não encontrada');
+      }
+
+      return await responseHelper.success(tree, 'Árvore de pastas gerada');
+    }
+  );
+}
@@ -4,6 +4,7 @@ import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { db } from '../../../db/connection.ts';
 import { folders } from '../../../db/schema/folders.ts';
+import { AclService } from '../../../services/acl.service.ts';
 import {
   calculateOffset,
   calculatePaginationMeta,
@@ -12,15 +13,23 @@ import {
   paginationQuerySchema,
 } from '../../../types/api-response.ts';
 
+const aclService = new AclService();
+
 export function getFolders(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/folders',
     {
+      config: { permission: 'folders:read' },
       schema: {
         tags: ['folders'],
         summary: 'Listar todas as pastas com paginação e busca',
         querystring: paginationQuerySchema.extend({
           parentId: z.string().optional(),
+          status: z
+            .enum(['ativo', 'lixeira'])
+            .optional()
+            .default('ativo')
+            .describe('Pastas na lixeira só são listadas com status=lixeira'),
           query: z.string().optional().describe('Buscar por nome da pasta'),
           sortBy: z
             .enum(['name', 'createdAt'])
@@ -39,6 +48,7 @@ export function getFolders(app: FastifyInstance) {
               id: z.string(),
               name: z.string(),
               parentId: z.string().nullable(),
+              status: z.enum(['ativo', 'lixeira']),
               createdAt: z.string().datetime(),
               createdBy: z.string(),
             })
@@ -47,9 +57,13 @@ export function getFolders(app: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      const { page, limit, parentId, query, sortBy, sortOrder } = request.query;
+      const { page, limit, parentId, status, query, sortBy, sortOrder } =
+        request.query;
 
-      const conditions: Parameters<typeof and> = [];
+      const conditions: Parameters<typeof and> = [
+        eq(folders.status, status),
+        aclService.readableFolders(request.user),
+      ];
 
       if (parentId) {
         conditions.push(eq(folders.parentId, parentId));
@@ -84,6 +98,7 @@ export function getFolders(app: FastifyInstance) {
           id: folders.id,
           name: folders.name,
           parentId: folders.parentId,
+          status: folders.status,
           createdAt: folders.createdAt,
           createdBy: folders.createdBy,
         })
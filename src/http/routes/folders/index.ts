@@ -1,5 +1,10 @@
 export { createFolder } from './create-folder.ts';
 export { deleteFolder } from './delete-folder.ts';
 export { getFolderById } from './get-folder-by-id.ts';
+export { getFolderPath } from './get-folder-path.ts';
+export { getFolderTree } from './get-folder-tree.ts';
 export { getFolders } from './get-folders.ts';
+export { moveFolder } from './move-folder.ts';
+export { restoreFolder } from './restore-folder.ts';
+export { setFolderQuota } from './set-folder-quota.ts';
 export { updateFolder } from './update-folder.ts';
@@ -0,0 +1,96 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  FolderOperationError,
+  FolderService,
+} from '../../../services/folder.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+
+const folderService = new FolderService();
+
+export function moveFolder(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().patch(
+    '/folders/:id/move',
+    {
+      config: {
+        permission: 'folders:write',
+        acl: { target: 'folder' },
+      },
+      schema: {
+        tags: ['folders'],
+        summary: 'Mover pasta',
+        description:
+          'Move a pasta para outro pai (ou para a raiz com parentId null), rejeitando ciclos e nomes duplicados entre pastas irmãs',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        body: z.object({
+          parentId: z.uuid().nullable(),
+          autoRename: z
+            .boolean()
+            .default(false)
+            .describe(
+              'Renomear para "Nome (2)" se o nome já existir no destino'
+            ),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              id: z.string(),
+              name: z.string(),
+              parentId: z.string().nullable(),
+              renamed: z.boolean(),
+              createdAt: z.string().datetime(),
+              createdBy: z.string(),
+            })
+          ),
+          403: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+          409: createErrorResponseSchema(),
+          422: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { parentId, autoRename } = request.body;
+
+      try {
+        const { folder, renamed } = await folderService.move(
+          id,
+          parentId,
+          request.user,
+          { autoRename }
+        );
+
+        return reply.send(
+          createApiSuccessResponse(
+            {
+              id: folder.id,
+              name: folder.name,
+              parentId: folder.parentId,
+              renamed,
+              createdAt: folder.createdAt.toISOString(),
+              createdBy: folder.createdBy,
+            },
+            'Pasta movida com sucesso'
+          )
+        );
+      } catch (error) {
+        if (error instanceof FolderOperationError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,64 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  FolderOperationError,
+  FolderService,
+} from '../../../services/folder.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+
+const folderService = new FolderService();
+
+export function restoreFolder(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().patch(
+    '/folders/:id/restore',
+    {
+      config: {
+        permission: 'folders:write',
+        acl: { target: 'folder' },
+      },
+      schema: {
+        tags: ['folders'],
+        summary: 'Restaurar pasta da lixeira',
+        description:
+          'Restaura a pasta e todas as subpastas e arquivos enviados para a lixeira junto com ela',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              folders: z.number(),
+              files: z.number(),
+            })
+          ),
+          404: createErrorResponseSchema(),
+          409: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      try {
+        const summary = await folderService.restore(id, request.user);
+
+        return reply.send(
+          createApiSuccessResponse(summary, 'Pasta restaurada com sucesso')
+        );
+      } catch (error) {
+        if (error instanceof FolderOperationError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,87 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { diffChanges } from '../../../services/log.service.ts';
+import { QuotaService } from '../../../services/quota.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+
+const quotaService = new QuotaService();
+
+export function setFolderQuota(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().put(
+    '/folders/:id/quota',
+    {
+      config: {
+        permission: 'storage:manage',
+        audit: { action: 'update', target: 'folder' },
+      },
+      schema: {
+        tags: ['folders'],
+        summary: 'Definir cota da pasta',
+        description:
+          'Limita a soma dos arquivos da pasta e de todas as subpastas. Envie quotaBytes nulo para remover a cota',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        body: z.object({
+          quotaBytes: z.number().int().nonnegative().nullable(),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              folderId: z.string(),
+              quota: z.string().nullable(),
+              used: z.string(),
+            })
+          ),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+      const { quotaBytes } = request.body;
+
+      const result = await quotaService.setFolderQuota(
+        id,
+        quotaBytes === null ? null : BigInt(quotaBytes)
+      );
+
+      if (!result) {
+        return reply
+          .status(HTTP_STATUS.NOT_FOUND)
+          .send(
+            createApiErrorResponse(
+              'Pasta não encontrada',
+              HTTP_STATUS.NOT_FOUND
+            )
+          );
+      }
+
+      const changes = diffChanges(
+        { quotaBytes: result.previousQuota },
+        { quotaBytes: result.quota }
+      );
+      if (changes) {
+        request.auditDetails = changes;
+      }
+
+      return reply.send(
+        createApiSuccessResponse(
+          {
+            folderId: result.folderId,
+            quota: result.quota?.toString() ?? null,
+            used: result.used.toString(),
+          },
+          'Cota da pasta atualizada com sucesso'
+        )
+      );
+    }
+  );
+}
@@ -1,25 +1,32 @@
-import { eq } from 'drizzle-orm';
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
-import { db } from '../../../db/connection.ts';
-import { folders } from '../../../db/schema/folders.ts';
 import {
+  FolderOperationError,
+  FolderService,
+} from '../../../services/folder.service.ts';
+import {
+  createApiErrorResponse,
   createApiSuccessResponse,
   createErrorResponseSchema,
-  createNotFoundResponse,
   createSuccessResponseSchema,
 } from '../../../types/api-response.ts';
 
+const folderService = new FolderService();
+
 export function updateFolder(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().put(
     '/folders/:id',
     {
+      config: {
+        permission: 'folders:write',
+        acl: { target: 'folder' },
+      },
       schema: {
         tags: ['folders'],
         summary: 'Atualizar pasta',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         body: z.object({
           name: z.string().min(1).optional(),
@@ -35,7 +42,11 @@ export function updateFolder(app: FastifyInstance) {
               createdBy: z.string(),
             })
           ),
+          403: createErrorResponseSchema(),
           404: createErrorResponseSchema(),
+          409: createErrorResponseSchema(),
+          422: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
         },
       },
     },
@@ -43,27 +54,25 @@ export function updateFolder(app: FastifyInstance) {
       const { id } = request.params;
       const updateData = request.body;
 
-      const result = await db
-        .update(folders)
-        .set(updateData)
-        .where(eq(folders.id, id))
-        .returning({
-          id: folders.id,
-          name: folders.name,
-          parentId: folders.parentId,
-          createdAt: folders.createdAt,
-          createdBy: folders.createdBy,
-        });
-
-      if (result.length === 0) {
-        return reply
-          .status(404)
-          .send(createNotFoundResponse('Pasta não encontrada'));
+      // Mudanças de pai passam pelas mesmas validações do move
+      let updated: Awaited<ReturnType<typeof folderService.update>>;
+      try {
+        updated = await folderService.update(id, updateData, request.user);
+      } catch (error) {
+        if (error instanceof FolderOperationError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
       }
 
       const folder = {
-        ...result[0],
-        createdAt: result[0].createdAt.toISOString(),
+        id: updated.id,
+        name: updated.name,
+        parentId: updated.parentId,
+        createdAt: updated.createdAt.toISOString(),
+        createdBy: updated.createdBy,
       };
 
       return reply.send(
@@ -0,0 +1,71 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { GroupError, GroupService } from '../../../services/group.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+
+const groupService = new GroupService();
+
+export function addGroupMember(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().put(
+    '/groups/:id/members/:userId',
+    {
+      config: {
+        permission: 'users:manage',
+        audit: { action: 'permission_change', target: 'user' },
+      },
+      schema: {
+        tags: ['groups'],
+        summary: 'Adicionar usuário ao grupo',
+        description:
+          'O usuário passa a receber as permissões concedidas ao grupo',
+        params: z.object({
+          id: z.uuid(),
+          userId: z.uuid(),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              added: z.boolean(),
+            })
+          ),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, userId } = request.params;
+
+      try {
+        const added = await groupService.addMember(id, userId, request.user);
+
+        // Sem alteração, não há o que registrar
+        request.auditTargetIds = added ? [userId] : [];
+        request.auditDetails = {
+          groupId: id,
+          before: { member: false },
+          after: { member: true },
+        };
+
+        return reply.send(
+          createApiSuccessResponse(
+            { added },
+            added ? 'Usuário adicionado ao grupo' : 'Usuário já é membro'
+          )
+        );
+      } catch (error) {
+        if (error instanceof GroupError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,56 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { GroupError, GroupService } from '../../../services/group.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+import {
+  formatGroup,
+  groupInputSchema,
+  groupItemSchema,
+} from './group-schemas.ts';
+
+const groupService = new GroupService();
+
+export function createGroup(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/groups',
+    {
+      config: { permission: 'users:manage' },
+      schema: {
+        tags: ['groups'],
+        summary: 'Criar grupo',
+        body: groupInputSchema,
+        response: {
+          201: createSuccessResponseSchema(groupItemSchema),
+          409: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const group = await groupService.create(request.body, request.user);
+
+        return reply
+          .status(HTTP_STATUS.CREATED)
+          .send(
+            createApiSuccessResponse(
+              formatGroup(group),
+              'Grupo criado com sucesso'
+            )
+          );
+      } catch (error) {
+        if (error instanceof GroupError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
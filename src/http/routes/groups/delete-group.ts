@@ -0,0 +1,47 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { GroupError, GroupService } from '../../../services/group.service.ts';
+import {
+  createApiErrorResponse,
+  createErrorResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+
+const groupService = new GroupService();
+
+export function deleteGroup(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/groups/:id',
+    {
+      config: { permission: 'users:manage' },
+      schema: {
+        tags: ['groups'],
+        summary: 'Deletar grupo',
+        description:
+          'Remove também os membros e as entradas da ACL do grupo; os usuários em si são mantidos',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          204: z.object({}),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        await groupService.delete(request.params.id);
+
+        return reply.status(HTTP_STATUS.NO_CONTENT).send();
+      } catch (error) {
+        if (error instanceof GroupError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
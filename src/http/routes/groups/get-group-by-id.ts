@@ -0,0 +1,63 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { GroupError, GroupService } from '../../../services/group.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import {
+  formatGroup,
+  formatGroupMember,
+  groupItemSchema,
+  groupMemberSchema,
+} from './group-schemas.ts';
+
+const groupService = new GroupService();
+
+export function getGroupById(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/groups/:id',
+    {
+      config: { permission: 'users:read' },
+      schema: {
+        tags: ['groups'],
+        summary: 'Buscar grupo por ID com seus membros',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            groupItemSchema.extend({
+              members: z.array(groupMemberSchema),
+            })
+          ),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { members, ...group } = await groupService.getById(
+          request.params.id
+        );
+
+        return reply.send(
+          createApiSuccessResponse({
+            ...formatGroup(group),
+            members: members.map(formatGroupMember),
+          })
+        );
+      } catch (error) {
+        if (error instanceof GroupError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,38 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { GroupService } from '../../../services/group.service.ts';
+import {
+  calculatePaginationMeta,
+  createApiPaginatedResponse,
+  createPaginatedResponseSchema,
+  paginationQuerySchema,
+} from '../../../types/api-response.ts';
+import { formatGroup, groupSummarySchema } from './group-schemas.ts';
+
+const groupService = new GroupService();
+
+export function getGroups(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/groups',
+    {
+      config: { permission: 'users:read' },
+      schema: {
+        tags: ['groups'],
+        summary: 'Listar grupos com paginação',
+        querystring: paginationQuerySchema,
+        response: {
+          200: createPaginatedResponseSchema(groupSummarySchema),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { page, limit } = request.query;
+      const { items, total } = await groupService.list(page, limit);
+
+      const meta = calculatePaginationMeta(page, limit, total);
+      return reply.send(
+        createApiPaginatedResponse(items.map(formatGroup), meta)
+      );
+    }
+  );
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import type {
+  GroupMember,
+  GroupRecord,
+  GroupSummary,
+} from '../../../services/group.service.ts';
+
+export const groupItemSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  createdBy: z.string(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+});
+
+export const groupSummarySchema = groupItemSchema.extend({
+  memberCount: z.number().int(),
+});
+
+export const groupMemberSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string().email(),
+  role: z.enum(['admin', 'colaborador', 'visualizador']),
+  addedAt: z.string().datetime(),
+});
+
+export const groupInputSchema = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().max(1000).nullable().optional(),
+});
+
+export function formatGroup<T extends GroupRecord | GroupSummary>(group: T) {
+  return {
+    ...group,
+    createdAt: group.createdAt.toISOString(),
+    updatedAt: group.updatedAt.toISOString(),
+  };
+}
+
+export function formatGroupMember(member: GroupMember) {
+  return { ...member, addedAt: member.addedAt.toISOString() };
+}
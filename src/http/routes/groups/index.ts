@@ -0,0 +1,7 @@
+export { addGroupMember } from './add-group-member.ts';
+export { createGroup } from './create-group.ts';
+export { deleteGroup } from './delete-group.ts';
+export { getGroupById } from './get-group-by-id.ts';
+export { getGroups } from './get-groups.ts';
+export { removeGroupMember } from './remove-group-member.ts';
+export { updateGroup } from './update-group.ts';
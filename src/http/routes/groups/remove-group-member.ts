@@ -0,0 +1,69 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { GroupError, GroupService } from '../../../services/group.service.ts';
+import {
+  createApiErrorResponse,
+  createErrorResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+
+const groupService = new GroupService();
+
+export function removeGroupMember(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/groups/:id/members/:userId',
+    {
+      config: {
+        permission: 'users:manage',
+        audit: { action: 'permission_change', target: 'user' },
+      },
+      schema: {
+        tags: ['groups'],
+        summary: 'Remover usuário do grupo',
+        params: z.object({
+          id: z.uuid(),
+          userId: z.uuid(),
+        }),
+        response: {
+          204: z.object({}),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id, userId } = request.params;
+
+      try {
+        const removed = await groupService.removeMember(id, userId);
+
+        if (!removed) {
+          return reply
+            .status(HTTP_STATUS.NOT_FOUND)
+            .send(
+              createApiErrorResponse(
+                'Usuário não é membro do grupo',
+                HTTP_STATUS.NOT_FOUND
+              )
+            );
+        }
+
+        request.auditTargetIds = [userId];
+        request.auditDetails = {
+          groupId: id,
+          before: { member: true },
+          after: { member: false },
+        };
+
+        return reply.status(HTTP_STATUS.NO_CONTENT).send();
+      } catch (error) {
+        if (error instanceof GroupError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,61 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { GroupError, GroupService } from '../../../services/group.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import {
+  formatGroup,
+  groupInputSchema,
+  groupItemSchema,
+} from './group-schemas.ts';
+
+const groupService = new GroupService();
+
+export function updateGroup(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().put(
+    '/groups/:id',
+    {
+      config: { permission: 'users:manage' },
+      schema: {
+        tags: ['groups'],
+        summary: 'Atualizar grupo',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        body: groupInputSchema.partial(),
+        response: {
+          200: createSuccessResponseSchema(groupItemSchema),
+          404: createErrorResponseSchema(),
+          409: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const group = await groupService.update(
+          request.params.id,
+          request.body
+        );
+
+        return reply.send(
+          createApiSuccessResponse(
+            formatGroup(group),
+            'Grupo atualizado com sucesso'
+          )
+        );
+      } catch (error) {
+        if (error instanceof GroupError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -1,4 +1,8 @@
+export * from './auth/index.ts';
 export * from './files/index.ts';
 export * from './folders/index.ts';
 export * from './logs/index.ts';
+export * from './storage/index.ts';
+export * from './trash/index.ts';
+export * from './uploads/index.ts';
 export * from './users/index.ts';
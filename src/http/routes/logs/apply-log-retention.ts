@@ -0,0 +1,51 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { LogIntegrityService } from '../../../services/log-integrity.service.ts';
+import {
+  createApiSuccessResponse,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+
+const logIntegrityService = new LogIntegrityService();
+
+export function applyLogRetention(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/logs/retention',
+    {
+      config: { permission: 'logs:delete' },
+      schema: {
+        tags: ['logs'],
+        summary: 'Aplicar retenção de logs',
+        description:
+          'Remove as entradas anteriores à data informada, a partir do início da cadeia. A retenção é registrada como uma nova entrada de log, que mantém a cadeia verificável',
+        body: z.object({
+          before: z.string().datetime(),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              before: z.string().datetime(),
+              deletedEntries: z.number().int(),
+              lastSequence: z.number().int().nullable(),
+              lastHash: z.string().nullable(),
+            })
+          ),
+        },
+      },
+    },
+    async (request, reply) => {
+      const summary = await logIntegrityService.applyRetention(
+        new Date(request.body.before),
+        request.user
+      );
+
+      return reply.send(
+        createApiSuccessResponse(
+          { ...summary, before: summary.before.toISOString() },
+          'Retenção de logs aplicada'
+        )
+      );
+    }
+  );
+}
@@ -1,46 +1,46 @@
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
-import { db } from '../../../db/connection.ts';
-import { logs } from '../../../db/schema/logs.ts';
+import { logActionTypeEnum } from '../../../db/schema/logs.ts';
+import { LogService } from '../../../services/log.service.ts';
+import { createRequestContext } from '../../middleware/request-context.ts';
+import { logItemSchema } from './log-schemas.ts';
+
+const logService = new LogService();
+
+// Ações registradas apenas pelo sistema. A retenção, em especial, define o
+// início da cadeia conferido pela verificação de integridade.
+const SYSTEM_ACTION_TYPES = [
+  'log_retention',
+  'login',
+  'logout',
+  'permission_change',
+  'purge',
+  'access_share',
+  'revoke_share',
+] as const;
 
 export function createLog(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/logs',
     {
+      config: { permission: 'logs:write' },
       schema: {
         tags: ['logs'],
         summary: 'Criar novo log',
+        description:
+          'Registro manual, restrito a administradores. A entrada é sempre atribuída ao usuário autenticado; as ações da API já são registradas automaticamente e ações exclusivas do sistema, como log_retention e login, não são aceitas',
         body: z.object({
-          userId: z.string(),
           fileId: z.string().optional(),
           folderId: z.string().optional(),
-          actionType: z.enum([
-            'upload',
-            'download',
-            'view',
-            'delete',
-            'restore',
-            'create_folder',
-          ]),
+          actionType: z
+            .enum(logActionTypeEnum.enumValues)
+            .exclude([...SYSTEM_ACTION_TYPES]),
+          details: z.record(z.string(), z.unknown()).optional(),
         }),
         response: {
           201: z.object({
-            log: z.object({
-              id: z.string(),
-              userId: z.string(),
-              fileId: z.string().nullable(),
-              folderId: z.string().nullable(),
-              actionType: z.enum([
-                'upload',
-                'download',
-                'view',
-                'delete',
-                'restore',
-                'create_folder',
-              ]),
-              timestamp: z.string().datetime(),
-            }),
+            log: logItemSchema,
           }),
           400: z.object({
             message: z.string(),
@@ -49,29 +49,21 @@ export function createLog(app: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      const { userId, fileId, folderId, actionType } = request.body;
+      const { fileId, folderId, actionType, details } = request.body;
 
       try {
-        const result = await db
-          .insert(logs)
-          .values({
-            userId,
-            fileId: fileId || null,
-            folderId: folderId || null,
-            actionType,
-          })
-          .returning({
-            id: logs.id,
-            userId: logs.userId,
-            fileId: logs.fileId,
-            folderId: logs.folderId,
-            actionType: logs.actionType,
-            timestamp: logs.timestamp,
-          });
+        const created = await logService.record({
+          userId: request.user.id,
+          fileId: fileId || null,
+          folderId: folderId || null,
+          actionType,
+          details: details ?? null,
+          context: createRequestContext(request),
+        });
 
         const log = {
-          ...result[0],
-          timestamp: result[0].timestamp.toISOString(),
+          ...created,
+          timestamp: created.timestamp.toISOString(),
         };
 
         return reply.status(201).send({ log });
@@ -0,0 +1,42 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { LogExportService } from '../../../services/log-export.service.ts';
+import { logFiltersQuerySchema } from './log-schemas.ts';
+
+const logExportService = new LogExportService();
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+} as const;
+
+export function exportLogs(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/logs/export',
+    {
+      config: { permission: 'logs:read' },
+      schema: {
+        tags: ['logs'],
+        summary: 'Exportar logs em CSV ou NDJSON',
+        description:
+          'Envia os logs filtrados em streaming, ordenados por data, com os nomes dos usuários, arquivos e pastas envolvidos',
+        querystring: logFiltersQuerySchema.extend({
+          format: z.enum(['csv', 'ndjson']).default('csv'),
+        }),
+      },
+    },
+    (request, reply) => {
+      const { format, ...filters } = request.query;
+      const date = new Date().toISOString().slice(0, 10);
+
+      reply.header('Content-Type', CONTENT_TYPES[format]);
+      reply.header(
+        'Content-Disposition',
+        `attachment; filename="logs-${date}.${format}"`
+      );
+
+      return reply.send(logExportService.export(filters, format));
+    }
+  );
+}
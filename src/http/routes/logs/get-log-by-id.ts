@@ -4,34 +4,23 @@ import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { db } from '../../../db/connection.ts';
 import { logs } from '../../../db/schema/logs.ts';
+import { logFields } from '../../../services/log-query.service.ts';
+import { logItemSchema } from './log-schemas.ts';
 
 export function getLogById(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/logs/:id',
     {
+      config: { permission: 'logs:read' },
       schema: {
         tags: ['logs'],
         summary: 'Buscar log por ID',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         response: {
           200: z.object({
-            log: z.object({
-              id: z.string(),
-              userId: z.string(),
-              fileId: z.string().nullable(),
-              folderId: z.string().nullable(),
-              actionType: z.enum([
-                'upload',
-                'download',
-                'view',
-                'delete',
-                'restore',
-                'create_folder',
-              ]),
-              timestamp: z.string().datetime(),
-            }),
+            log: logItemSchema,
           }),
           404: z.object({
             message: z.string(),
@@ -43,14 +32,7 @@ export function getLogById(app: FastifyInstance) {
       const { id } = request.params;
 
       const result = await db
-        .select({
-          id: logs.id,
-          userId: logs.userId,
-          fileId: logs.fileId,
-          folderId: logs.folderId,
-          actionType: logs.actionType,
-          timestamp: logs.timestamp,
-        })
+        .select(logFields)
         .from(logs)
         .where(eq(logs.id, id));
 
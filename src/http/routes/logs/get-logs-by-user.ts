@@ -1,80 +1,46 @@
-import { count, eq } from 'drizzle-orm';
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
-import { db } from '../../../db/connection.ts';
-import { logs } from '../../../db/schema/logs.ts';
+import { LogQueryService } from '../../../services/log-query.service.ts';
 import {
-  calculateOffset,
   calculatePaginationMeta,
   createApiPaginatedResponse,
   createPaginatedResponseSchema,
-  paginationQuerySchema,
 } from '../../../types/api-response.ts';
+import { logItemSchema, logListQuerySchema } from './log-schemas.ts';
+
+const logQueryService = new LogQueryService();
 
 export function getLogsByUser(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/users/:userId/logs',
     {
+      config: { permission: 'logs:read' },
       schema: {
         tags: ['logs'],
         summary: 'Listar logs de um usuário específico com paginação',
         params: z.object({
-          userId: z.string(),
+          userId: z.uuid(),
         }),
-        querystring: paginationQuerySchema,
+        querystring: logListQuerySchema.omit({ userId: true }),
         response: {
-          200: createPaginatedResponseSchema(
-            z.object({
-              id: z.string(),
-              userId: z.string(),
-              fileId: z.string().nullable(),
-              folderId: z.string().nullable(),
-              actionType: z.enum([
-                'upload',
-                'download',
-                'view',
-                'delete',
-                'restore',
-                'create_folder',
-              ]),
-              timestamp: z.string().datetime(),
-            })
-          ),
+          200: createPaginatedResponseSchema(logItemSchema),
         },
       },
     },
     async (request, reply) => {
       const { userId } = request.params;
-      const { page, limit } = request.query;
-
-      const whereClause = eq(logs.userId, userId);
-
-      // Contar total de registros
-      const [totalResult] = await db
-        .select({ count: count() })
-        .from(logs)
-        .where(whereClause);
-
-      const total = totalResult.count;
-      const offset = calculateOffset(page, limit);
+      const { page, limit, sort, expand, ...filters } = request.query;
 
-      // Buscar dados paginados
-      const result = await db
-        .select({
-          id: logs.id,
-          userId: logs.userId,
-          fileId: logs.fileId,
-          folderId: logs.folderId,
-          actionType: logs.actionType,
-          timestamp: logs.timestamp,
-        })
-        .from(logs)
-        .where(whereClause)
-        .limit(limit)
-        .offset(offset);
+      const { items, total } = await logQueryService.list({
+        filters: { ...filters, userId },
+        sort,
+        expand,
+        page,
+        limit,
+      });
 
-      const formattedLogs = result.map((log) => ({
+      const formattedLogs = items.map((log) => ({
         ...log,
         timestamp: log.timestamp.toISOString(),
       }));
@@ -1,107 +1,43 @@
-import { and, count, eq } from 'drizzle-orm';
 import type { FastifyInstance } from 'fastify';
 import type { ZodTypeProvider } from 'fastify-type-provider-zod';
-import { z } from 'zod';
-import { db } from '../../../db/connection.ts';
-import { logs } from '../../../db/schema/logs.ts';
+import { LogQueryService } from '../../../services/log-query.service.ts';
 import {
-  calculateOffset,
   calculatePaginationMeta,
   createApiPaginatedResponse,
   createPaginatedResponseSchema,
-  paginationQuerySchema,
 } from '../../../types/api-response.ts';
+import { logItemSchema, logListQuerySchema } from './log-schemas.ts';
+
+const logQueryService = new LogQueryService();
 
 export function getLogs(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/logs',
     {
+      config: { permission: 'logs:read' },
       schema: {
         tags: ['logs'],
         summary: 'Listar todos os logs com paginação',
-        querystring: paginationQuerySchema.extend({
-          userId: z.string().optional(),
-          fileId: z.string().optional(),
-          folderId: z.string().optional(),
-          actionType: z
-            .enum([
-              'upload',
-              'download',
-              'view',
-              'delete',
-              'restore',
-              'create_folder',
-            ])
-            .optional(),
-        }),
+        description:
+          'Ordenados por data (sort=desc por padrão). Com expand=true, inclui os nomes do usuário, do usuário afetado, do arquivo e da pasta',
+        querystring: logListQuerySchema,
         response: {
-          200: createPaginatedResponseSchema(
-            z.object({
-              id: z.string(),
-              userId: z.string(),
-              fileId: z.string().nullable(),
-              folderId: z.string().nullable(),
-              actionType: z.enum([
-                'upload',
-                'download',
-                'view',
-                'delete',
-                'restore',
-                'create_folder',
-              ]),
-              timestamp: z.string().datetime(),
-            })
-          ),
+          200: createPaginatedResponseSchema(logItemSchema),
         },
       },
     },
     async (request, reply) => {
-      const { page, limit, userId, fileId, folderId, actionType } =
-        request.query;
-
-      const conditions: Parameters<typeof and> = [];
-
-      if (userId) {
-        conditions.push(eq(logs.userId, userId));
-      }
-      if (fileId) {
-        conditions.push(eq(logs.fileId, fileId));
-      }
-      if (folderId) {
-        conditions.push(eq(logs.folderId, folderId));
-      }
-      if (actionType) {
-        conditions.push(eq(logs.actionType, actionType));
-      }
-
-      const whereClause =
-        conditions.length > 0 ? and(...conditions) : undefined;
-
-      // Contar total de registros
-      const [totalResult] = await db
-        .select({ count: count() })
-        .from(logs)
-        .where(whereClause);
-
-      const total = totalResult.count;
-      const offset = calculateOffset(page, limit);
+      const { page, limit, sort, expand, ...filters } = request.query;
 
-      // Buscar dados paginados
-      const result = await db
-        .select({
-          id: logs.id,
-          userId: logs.userId,
-          fileId: logs.fileId,
-          folderId: logs.folderId,
-          actionType: logs.actionType,
-          timestamp: logs.timestamp,
-        })
-        .from(logs)
-        .where(whereClause)
-        .limit(limit)
-        .offset(offset);
+      const { items, total } = await logQueryService.list({
+        filters,
+        sort,
+        expand,
+        page,
+        limit,
+      });
 
-      const formattedLogs = result.map((log) => ({
+      const formattedLogs = items.map((log) => ({
         ...log,
         timestamp: log.timestamp.toISOString(),
       }));
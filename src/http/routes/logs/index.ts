@@ -1,5 +1,7 @@
+export { applyLogRetention } from './apply-log-retention.ts';
 export { createLog } from './create-log.ts';
-export { deleteLog } from './delete-log.ts';
+export { exportLogs } from './export-logs.ts';
 export { getLogById } from './get-log-by-id.ts';
 export { getLogs } from './get-logs.ts';
 export { getLogsByUser } from './get-logs-by-user.ts';
+export { verifyLogs } from './verify-logs.ts';
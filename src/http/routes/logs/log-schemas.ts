@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { logActionTypeEnum } from '../../../db/schema/logs.ts';
+import { paginationQuerySchema } from '../../../types/api-response.ts';
+
+const actionTypeSchema = z.enum(logActionTypeEnum.enumValues);
+
+/**
+ * Filtros comuns à listagem e à exportação. `actionType` aceita vários
+ * valores, repetindo o parâmetro ou separando-os por vírgula.
+ */
+export const logFiltersQuerySchema = z.object({
+  userId: z.string().optional(),
+  fileId: z.string().optional(),
+  folderId: z.string().optional(),
+  targetUserId: z.string().optional(),
+  shareId: z.string().optional(),
+  actionType: z
+    .preprocess(
+      (value) => (typeof value === 'string' ? value.split(',') : value),
+      z.array(actionTypeSchema)
+    )
+    .optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const logListQuerySchema = paginationQuerySchema
+  .extend(logFiltersQuerySchema.shape)
+  .extend({
+    sort: z.enum(['asc', 'desc']).default('desc'),
+    expand: z.stringbool().default(false),
+  });
+
+export const logItemSchema = z.object({
+  id: z.string(),
+  userId: z.string().nullable(),
+  fileId: z.string().nullable(),
+  folderId: z.string().nullable(),
+  targetUserId: z.string().nullable(),
+  shareId: z.string().nullable(),
+  ip: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  requestId: z.string().nullable(),
+  details: z.record(z.string(), z.unknown()).nullable(),
+  actionType: actionTypeSchema,
+  timestamp: z.string().datetime(),
+  sequence: z.number().int().nullable(),
+  previousHash: z.string().nullable(),
+  hash: z.string().nullable(),
+  // Presentes apenas com expand=true
+  userName: z.string().nullable().optional(),
+  userEmail: z.string().nullable().optional(),
+  targetUserName: z.string().nullable().optional(),
+  fileName: z.string().nullable().optional(),
+  folderName: z.string().nullable().optional(),
+});
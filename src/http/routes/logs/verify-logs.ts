@@ -0,0 +1,56 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { LogIntegrityService } from '../../../services/log-integrity.service.ts';
+import {
+  createApiSuccessResponse,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+
+const logIntegrityService = new LogIntegrityService();
+
+export function verifyLogs(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/logs/verify',
+    {
+      config: { permission: 'logs:read' },
+      schema: {
+        tags: ['logs'],
+        summary: 'Verificar a integridade da cadeia de logs',
+        description:
+          'Recalcula o hash de cada entrada em ordem de sequência e aponta a primeira entrada alterada, removida ou inserida fora da cadeia',
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              valid: z.boolean(),
+              checkedEntries: z.number().int(),
+              legacyEntries: z.number().int(),
+              lastSequence: z.number().int().nullable(),
+              lastHash: z.string().nullable(),
+              firstBreak: z
+                .object({
+                  logId: z.string(),
+                  sequence: z.number().int().nullable(),
+                  reason: z.string(),
+                })
+                .nullable(),
+              verifiedAt: z.string().datetime(),
+            })
+          ),
+        },
+      },
+    },
+    async (_request, reply) => {
+      const report = await logIntegrityService.verify();
+
+      return reply.send(
+        createApiSuccessResponse(
+          { ...report, verifiedAt: report.verifiedAt.toISOString() },
+          report.valid
+            ? 'Cadeia de logs íntegra'
+            : 'Cadeia de logs com inconsistências'
+        )
+      );
+    }
+  );
+}
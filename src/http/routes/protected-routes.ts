@@ -0,0 +1,167 @@
+import type { FastifyInstance } from 'fastify';
+import {
+  deleteAclEntry,
+  deleteAclGroupEntry,
+  getAclEntries,
+  getEffectivePermissions,
+  setAclEntry,
+  setAclGroupEntry,
+} from './acl/index.ts';
+import {
+  createFile,
+  createFileVersion,
+  createMultipleFiles,
+  deleteFile,
+  downloadFile,
+  downloadFileVersion,
+  getFileById,
+  getFiles,
+  getFileUrl,
+  getFileVersions,
+  moveFileToTrash,
+  restoreFile,
+  restoreFileVersion,
+  updateFile,
+} from './files/index.ts';
+import {
+  createFolder,
+  deleteFolder,
+  getFolderById,
+  getFolderPath,
+  getFolders,
+  getFolderTree,
+  moveFolder,
+  restoreFolder,
+  setFolderQuota,
+  updateFolder,
+} from './folders/index.ts';
+import {
+  addGroupMember,
+  createGroup,
+  deleteGroup,
+  getGroupById,
+  getGroups,
+  removeGroupMember,
+  updateGroup,
+} from './groups/index.ts';
+import {
+  applyLogRetention,
+  createLog,
+  exportLogs,
+  getLogById,
+  getLogs,
+  getLogsByUser,
+  verifyLogs,
+} from './logs/index.ts';
+import {
+  createShare,
+  getShareAccesses,
+  getShares,
+  revokeShare,
+} from './shares/index.ts';
+import { getDeduplicationReport, reconcileStorage } from './storage/index.ts';
+import { emptyTrash, getTrash } from './trash/index.ts';
+import {
+  appendUploadChunk,
+  cancelUploadSession,
+  completeUploadSession,
+  createUploadSession,
+  getUploadSession,
+} from './uploads/index.ts';
+import {
+  createUser,
+  deleteUser,
+  getUserById,
+  getUsers,
+  getUserUsage,
+  updateUser,
+} from './users/index.ts';
+
+/**
+ * Rotas que exigem access token. Cada rota declara `config.permission`,
+ * verificada pelo `setupRoutePermissions` da instância.
+ */
+export function registerProtectedRoutes(app: FastifyInstance) {
+  // Register user routes
+  app.register(getUsers);
+  app.register(getUserById);
+  app.register(getUserUsage);
+  app.register(createUser);
+  app.register(updateUser);
+  app.register(deleteUser);
+
+  // Register group routes
+  app.register(getGroups);
+  app.register(getGroupById);
+  app.register(createGroup);
+  app.register(updateGroup);
+  app.register(deleteGroup);
+  app.register(addGroupMember);
+  app.register(removeGroupMember);
+
+  // Register folder routes
+  app.register(getFolders);
+  app.register(getFolderById);
+  app.register(getFolderTree);
+  app.register(getFolderPath);
+  app.register(createFolder);
+  app.register(updateFolder);
+  app.register(moveFolder);
+  app.register(restoreFolder);
+  app.register(setFolderQuota);
+  app.register(deleteFolder);
+
+  // Register file routes
+  app.register(getFiles);
+  app.register(getFileById);
+  app.register(getFileUrl);
+  app.register(createFile);
+  app.register(createMultipleFiles);
+  app.register(updateFile);
+  app.register(deleteFile);
+  app.register(downloadFile);
+  app.register(moveFileToTrash);
+  app.register(restoreFile);
+  app.register(getFileVersions);
+  app.register(createFileVersion);
+  app.register(downloadFileVersion);
+  app.register(restoreFileVersion);
+
+  // Register resumable upload routes
+  app.register(createUploadSession);
+  app.register(getUploadSession);
+  app.register(appendUploadChunk);
+  app.register(completeUploadSession);
+  app.register(cancelUploadSession);
+
+  // Register trash routes
+  app.register(getTrash);
+  app.register(emptyTrash);
+
+  // Register log routes
+  app.register(getLogs);
+  app.register(verifyLogs);
+  app.register(exportLogs);
+  app.register(getLogById);
+  app.register(createLog);
+  app.register(applyLogRetention);
+  app.register(getLogsByUser);
+
+  // Register storage routes
+  app.register(getDeduplicationReport);
+  app.register(reconcileStorage);
+
+  // Register share routes
+  app.register(createShare);
+  app.register(getShares);
+  app.register(revokeShare);
+  app.register(getShareAccesses);
+
+  // Register access control routes
+  app.register(getAclEntries);
+  app.register(setAclEntry);
+  app.register(deleteAclEntry);
+  app.register(setAclGroupEntry);
+  app.register(deleteAclGroupEntry);
+  app.register(getEffectivePermissions);
+}
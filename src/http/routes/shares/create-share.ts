@@ -0,0 +1,77 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { ShareError, ShareService } from '../../../services/share.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+import { formatShare, shareItemSchema } from './share-schemas.ts';
+
+const shareService = new ShareService();
+
+export function createShare(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/shares',
+    {
+      config: { permission: 'shares:manage' },
+      schema: {
+        tags: ['shares'],
+        summary: 'Criar link público de um arquivo ou pasta',
+        description:
+          'O link dispensa autenticação e pode exigir senha, expirar, limitar o número de downloads ou permitir apenas a visualização. O token só é exibido nesta resposta',
+        body: z
+          .object({
+            fileId: z.uuid().optional(),
+            folderId: z.uuid().optional(),
+            password: z.string().min(4).optional(),
+            expiresAt: z.coerce.date().optional(),
+            maxDownloads: z.number().int().positive().optional(),
+            viewOnly: z.boolean().default(false),
+          })
+          .refine(
+            (body) => Boolean(body.fileId) !== Boolean(body.folderId),
+            'Informe fileId ou folderId'
+          ),
+        response: {
+          201: createSuccessResponseSchema(
+            shareItemSchema.extend({
+              token: z.string(),
+              url: z.string(),
+            })
+          ),
+          400: createErrorResponseSchema(),
+          403: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const { share, token, url } = await shareService.create(
+          request.body,
+          request.user
+        );
+
+        return reply
+          .status(HTTP_STATUS.CREATED)
+          .send(
+            createApiSuccessResponse(
+              { ...formatShare(share), token, url },
+              'Link criado com sucesso'
+            )
+          );
+      } catch (error) {
+        if (error instanceof ShareError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
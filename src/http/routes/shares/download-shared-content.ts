@@ -0,0 +1,103 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { ShareError, ShareService } from '../../../services/share.service.ts';
+import { getStorageProvider } from '../../../services/storage/storage.factory.ts';
+import { createZipStream } from '../../../utils/zip-stream.ts';
+import {
+  isResumedFileDownload,
+  sendStoredFile,
+} from '../../helpers/file-download.helper.ts';
+import {
+  shareAccessSchema,
+  shareErrorResponseSchema,
+} from './share-schemas.ts';
+
+const shareService = new ShareService();
+
+/**
+ * Download pelo link público: o próprio arquivo ou, para pastas, um zip
+ * com toda a subárvore gerado em streaming
+ */
+export function downloadSharedContent(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/s/:token/download',
+    {
+      schema: {
+        tags: ['shares'],
+        summary: 'Download do conteúdo de um link público',
+        description:
+          'Pastas são baixadas como zip. Cada download conta para o limite do link, exceto requisições Range com If-Range que retomam o download de um arquivo',
+        ...shareAccessSchema,
+        response: {
+          200: z.any().describe('Arquivo ou zip da pasta'),
+          206: z.any().describe('Conteúdo parcial do arquivo'),
+          304: z.any().describe('Arquivo não modificado'),
+          401: shareErrorResponseSchema,
+          403: shareErrorResponseSchema,
+          404: shareErrorResponseSchema,
+          410: shareErrorResponseSchema,
+          416: shareErrorResponseSchema,
+          429: shareErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const content = await shareService.open(
+          {
+            token: request.params.token,
+            password:
+              request.headers['x-share-password'] ?? request.query.password,
+          },
+          {
+            action: 'download',
+            isResumedDownload: (file) =>
+              isResumedFileDownload(request, {
+                ...file,
+                lastModified: file.updatedAt,
+              }),
+          }
+        );
+
+        const storageProvider = getStorageProvider();
+
+        if (content.type === 'file') {
+          if (!(await storageProvider.exists(content.file.storagePath))) {
+            return reply
+              .status(404)
+              .send({ message: 'Arquivo não encontrado no storage' });
+          }
+
+          return sendStoredFile(request, reply, {
+            ...content.file,
+            lastModified: content.file.updatedAt,
+          });
+        }
+
+        reply.header('Content-Type', 'application/zip');
+        reply.header(
+          'Content-Disposition',
+          `attachment; filename="${encodeURIComponent(content.folder.name)}.zip"`
+        );
+
+        return reply.send(
+          createZipStream(
+            content.files.map((file) => ({
+              name: file.path,
+              lastModified: file.updatedAt,
+              open: () => storageProvider.createReadStream(file.storagePath),
+            }))
+          )
+        );
+      } catch (error) {
+        if (error instanceof ShareError) {
+          return reply
+            .status(error.statusCode)
+            .send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,88 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { ShareError, ShareService } from '../../../services/share.service.ts';
+import { getStorageProvider } from '../../../services/storage/storage.factory.ts';
+import {
+  isResumedFileDownload,
+  sendStoredFile,
+} from '../../helpers/file-download.helper.ts';
+import {
+  shareAccessSchema,
+  shareErrorResponseSchema,
+} from './share-schemas.ts';
+
+const shareService = new ShareService();
+
+export function downloadSharedFile(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/s/:token/files/:fileId',
+    {
+      schema: {
+        tags: ['shares'],
+        summary: 'Download de um arquivo de uma pasta compartilhada',
+        description:
+          'Suporta Range e conta para o limite de downloads do link, exceto requisições Range com If-Range que retomam um download',
+        ...shareAccessSchema,
+        params: shareAccessSchema.params.extend({
+          fileId: z.uuid(),
+        }),
+        response: {
+          200: z.any().describe('Arquivo para download'),
+          206: z.any().describe('Conteúdo parcial do arquivo'),
+          304: z.any().describe('Arquivo não modificado'),
+          401: shareErrorResponseSchema,
+          403: shareErrorResponseSchema,
+          404: shareErrorResponseSchema,
+          410: shareErrorResponseSchema,
+          416: shareErrorResponseSchema,
+          429: shareErrorResponseSchema,
+        },
+      },
+    },
+    async (request, reply) => {
+      const { token, fileId } = request.params;
+
+      try {
+        const content = await shareService.open(
+          {
+            token,
+            password:
+              request.headers['x-share-password'] ?? request.query.password,
+          },
+          {
+            action: 'download',
+            fileId,
+            isResumedDownload: (file) =>
+              isResumedFileDownload(request, {
+                ...file,
+                lastModified: file.updatedAt,
+              }),
+          }
+        );
+
+        if (content.type !== 'file') {
+          return reply.status(404).send({ message: 'Arquivo não encontrado' });
+        }
+
+        if (!(await getStorageProvider().exists(content.file.storagePath))) {
+          return reply
+            .status(404)
+            .send({ message: 'Arquivo não encontrado no storage' });
+        }
+
+        return sendStoredFile(request, reply, {
+          ...content.file,
+          lastModified: content.file.updatedAt,
+        });
+      } catch (error) {
+        if (error instanceof ShareError) {
+          return reply
+            .status(error.statusCode)
+            .send({ message: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,66 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { ShareError, ShareService } from '../../../services/share.service.ts';
+import {
+  calculatePaginationMeta,
+  createApiErrorResponse,
+  createApiPaginatedResponse,
+  createErrorResponseSchema,
+  createPaginatedResponseSchema,
+  paginationQuerySchema,
+} from '../../../types/api-response.ts';
+import { logItemSchema } from '../logs/log-schemas.ts';
+
+const shareService = new ShareService();
+
+export function getShareAccesses(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/shares/:id/accesses',
+    {
+      config: { permission: 'shares:manage' },
+      schema: {
+        tags: ['shares'],
+        summary: 'Listar acessos a um link público',
+        description:
+          'Inclui as tentativas negadas (senha inválida, link expirado etc.), com o motivo em details.reason',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        querystring: paginationQuerySchema,
+        response: {
+          200: createPaginatedResponseSchema(logItemSchema),
+          403: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { page, limit } = request.query;
+
+      try {
+        const { items, total } = await shareService.listAccesses(
+          request.params.id,
+          request.user,
+          page,
+          limit
+        );
+
+        const formattedLogs = items.map((log) => ({
+          ...log,
+          timestamp: log.timestamp.toISOString(),
+        }));
+
+        const meta = calculatePaginationMeta(page, limit, total);
+        return reply.send(createApiPaginatedResponse(formattedLogs, meta));
+      } catch (error) {
+        if (error instanceof ShareError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
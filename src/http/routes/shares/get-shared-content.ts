@@ -0,0 +1,124 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  type SharedContent,
+  ShareError,
+  ShareService,
+} from '../../../services/share.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import { shareAccessSchema } from './share-schemas.ts';
+
+const shareService = new ShareService();
+
+const sharedFileSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string(),
+  size: z.string(),
+  updatedAt: z.string().datetime(),
+});
+
+function formatSharedContent(content: SharedContent) {
+  const { share } = content;
+  const toSharedFile = (file: {
+    id: string;
+    name: string;
+    type: string;
+    size: bigint;
+    updatedAt: Date;
+  }) => ({
+    id: file.id,
+    name: file.name,
+    type: file.type,
+    size: file.size.toString(),
+    updatedAt: file.updatedAt.toISOString(),
+  });
+
+  return {
+    type: content.type,
+    name: content.type === 'file' ? content.file.name : content.folder.name,
+    expiresAt: share.expiresAt?.toISOString() ?? null,
+    viewOnly: share.viewOnly,
+    downloadsRemaining:
+      share.maxDownloads === null
+        ? null
+        : Math.max(share.maxDownloads - share.downloadCount, 0),
+    file: content.type === 'file' ? toSharedFile(content.file) : null,
+    files:
+      content.type === 'folder'
+        ? content.files.map((file) => ({
+            ...toSharedFile(file),
+            path: file.path,
+          }))
+        : null,
+  };
+}
+
+/**
+ * Página pública do link: dados do arquivo ou listagem da pasta
+ */
+export function getSharedContent(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/s/:token',
+    {
+      schema: {
+        tags: ['shares'],
+        summary: 'Consultar conteúdo de um link público',
+        description:
+          'Links protegidos exigem a senha no header X-Share-Password ou no parâmetro password',
+        ...shareAccessSchema,
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              type: z.enum(['file', 'folder']),
+              name: z.string(),
+              expiresAt: z.string().datetime().nullable(),
+              viewOnly: z.boolean(),
+              downloadsRemaining: z.number().int().nullable(),
+              file: sharedFileSchema.nullable(),
+              files: z
+                .array(sharedFileSchema.extend({ path: z.string() }))
+                .nullable(),
+            })
+          ),
+          401: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+          410: createErrorResponseSchema(),
+          429: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const content = await shareService.open(
+          {
+            token: request.params.token,
+            password:
+              request.headers['x-share-password'] ?? request.query.password,
+          },
+          { action: 'view' }
+        );
+
+        return reply.send(
+          createApiSuccessResponse(
+            formatSharedContent(content),
+            'Conteúdo compartilhado'
+          )
+        );
+      } catch (error) {
+        if (error instanceof ShareError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,39 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { ShareService } from '../../../services/share.service.ts';
+import {
+  createApiSuccessResponse,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import { formatShare, shareItemSchema } from './share-schemas.ts';
+
+const shareService = new ShareService();
+
+export function getShares(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/shares',
+    {
+      config: { permission: 'shares:manage' },
+      schema: {
+        tags: ['shares'],
+        summary: 'Listar links públicos',
+        description:
+          'Lista os links criados pelo usuário; administradores veem todos',
+        response: {
+          200: createSuccessResponseSchema(z.array(shareItemSchema)),
+        },
+      },
+    },
+    async (request, reply) => {
+      const items = await shareService.list(request.user);
+
+      return reply.send(
+        createApiSuccessResponse(
+          items.map(formatShare),
+          'Links listados com sucesso'
+        )
+      );
+    }
+  );
+}
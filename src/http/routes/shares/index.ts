@@ -0,0 +1,7 @@
+export { createShare } from './create-share.ts';
+export { downloadSharedContent } from './download-shared-content.ts';
+export { downloadSharedFile } from './download-shared-file.ts';
+export { getShareAccesses } from './get-share-accesses.ts';
+export { getSharedContent } from './get-shared-content.ts';
+export { getShares } from './get-shares.ts';
+export { revokeShare } from './revoke-share.ts';
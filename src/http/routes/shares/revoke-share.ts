@@ -0,0 +1,59 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { ShareError, ShareService } from '../../../services/share.service.ts';
+import {
+  createApiErrorResponse,
+  createApiSuccessResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+import { formatShare, shareItemSchema } from './share-schemas.ts';
+
+const shareService = new ShareService();
+
+export function revokeShare(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/shares/:id',
+    {
+      config: { permission: 'shares:manage' },
+      schema: {
+        tags: ['shares'],
+        summary: 'Revogar link público',
+        description:
+          'O link deixa de funcionar imediatamente; o histórico de acessos é mantido',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: createSuccessResponseSchema(shareItemSchema),
+          403: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+          409: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const share = await shareService.revoke(
+          request.params.id,
+          request.user
+        );
+
+        return reply.send(
+          createApiSuccessResponse(
+            formatShare(share),
+            'Link revogado com sucesso'
+          )
+        );
+      } catch (error) {
+        if (error instanceof ShareError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
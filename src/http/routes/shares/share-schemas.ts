@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import type { ShareRecord } from '../../../services/share.service.ts';
+
+export const shareItemSchema = z.object({
+  id: z.string(),
+  fileId: z.string().nullable(),
+  folderId: z.string().nullable(),
+  createdBy: z.string(),
+  passwordProtected: z.boolean(),
+  expiresAt: z.string().datetime().nullable(),
+  maxDownloads: z.number().int().nullable(),
+  downloadCount: z.number().int(),
+  viewOnly: z.boolean(),
+  revokedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+});
+
+export function formatShare(share: ShareRecord) {
+  return {
+    id: share.id,
+    fileId: share.fileId,
+    folderId: share.folderId,
+    createdBy: share.createdBy,
+    passwordProtected: share.passwordHash !== null,
+    expiresAt: share.expiresAt?.toISOString() ?? null,
+    maxDownloads: share.maxDownloads,
+    downloadCount: share.downloadCount,
+    viewOnly: share.viewOnly,
+    revokedAt: share.revokedAt?.toISOString() ?? null,
+    createdAt: share.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Senha dos links protegidos, enviada preferencialmente no header
+ * X-Share-Password ou no parâmetro `password`
+ */
+export const shareAccessSchema = {
+  params: z.object({
+    token: z.string(),
+  }),
+  headers: z.object({
+    'x-share-password': z.string().optional(),
+  }),
+  querystring: z.object({
+    password: z.string().optional(),
+  }),
+};
+
+export const shareErrorResponseSchema = z.object({
+  message: z.string(),
+});
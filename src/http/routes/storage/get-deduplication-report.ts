@@ -0,0 +1,40 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { BlobService } from '../../../services/blob.service.ts';
+import { createSuccessResponseSchema } from '../../../types/api-response.ts';
+import { createResponseHelper } from '../../helpers/response.helper.ts';
+
+const blobService = new BlobService();
+
+export function getDeduplicationReport(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/storage/deduplication',
+    {
+      config: { permission: 'storage:manage' },
+      schema: {
+        tags: ['storage'],
+        summary: 'Relatório de deduplicação de conteúdo armazenado',
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              blobCount: z.number().int(),
+              fileCount: z.number().int(),
+              storedBytes: z.string(),
+              logicalBytes: z.string(),
+              savedBytes: z.string(),
+            })
+          ),
+        },
+      },
+    },
+    async (_request, reply) => {
+      const report = await blobService.getDeduplicationReport();
+
+      return await createResponseHelper(reply).success(
+        report,
+        'Relatório de deduplicação gerado com sucesso'
+      );
+    }
+  );
+}
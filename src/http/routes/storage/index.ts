@@ -0,0 +1,3 @@
+export { getDeduplicationReport } from './get-deduplication-report.ts';
+export { reconcileStorage } from './reconcile-storage.ts';
+export { serveSignedObject } from './serve-signed-object.ts';
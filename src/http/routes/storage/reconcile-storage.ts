@@ -0,0 +1,80 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { StorageReconciliationService } from '../../../services/storage-reconciliation.service.ts';
+import { createSuccessResponseSchema } from '../../../types/api-response.ts';
+import { createResponseHelper } from '../../helpers/response.helper.ts';
+
+const reconciliationService = new StorageReconciliationService();
+
+const referencedBySchema = {
+  fileIds: z.array(z.string()),
+  versionIds: z.array(z.string()),
+};
+
+export function reconcileStorage(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/storage/reconcile',
+    {
+      config: { permission: 'storage:manage' },
+      schema: {
+        tags: ['storage'],
+        summary: 'Reconciliar storage e banco de dados',
+        description:
+          'Lista objetos órfãos, objetos referenciados que não existem mais e, opcionalmente, conteúdos com checksum divergente. Com fix=true, os órfãos vão para a quarentena e os arquivos afetados são marcados',
+        querystring: z.object({
+          fix: z.stringbool().default(false),
+          verifyChecksums: z.stringbool().default(false),
+        }),
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              startedAt: z.string().datetime(),
+              finishedAt: z.string().datetime(),
+              fixed: z.boolean(),
+              checksumsVerified: z.boolean(),
+              scannedObjects: z.number().int(),
+              referencedObjects: z.number().int(),
+              orphans: z.array(
+                z.object({
+                  storagePath: z.string(),
+                  size: z.number(),
+                  lastModified: z.string().datetime(),
+                  quarantinePath: z.string().nullable(),
+                })
+              ),
+              missing: z.array(
+                z.object({ storagePath: z.string(), ...referencedBySchema })
+              ),
+              checksumMismatches: z.array(
+                z.object({
+                  storagePath: z.string(),
+                  expected: z.string(),
+                  actual: z.string(),
+                  ...referencedBySchema,
+                })
+              ),
+              flaggedFiles: z.number().int(),
+            })
+          ),
+        },
+      },
+    },
+    async (request, reply) => {
+      const report = await reconciliationService.reconcile(request.query);
+
+      return await createResponseHelper(reply).success(
+        {
+          ...report,
+          startedAt: report.startedAt.toISOString(),
+          finishedAt: report.finishedAt.toISOString(),
+          orphans: report.orphans.map((orphan) => ({
+            ...orphan,
+            lastModified: orphan.lastModified.toISOString(),
+          })),
+        },
+        'Reconciliação do storage concluída'
+      );
+    }
+  );
+}
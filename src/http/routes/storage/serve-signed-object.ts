@@ -0,0 +1,98 @@
+import { eq } from 'drizzle-orm';
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { db } from '../../../db/connection.ts';
+import { fileVersions } from '../../../db/schema/file-versions.ts';
+import { files } from '../../../db/schema/files.ts';
+import { SignedUrlService } from '../../../services/signed-url.service.ts';
+import { SignedUrlError } from '../../../services/storage/signed-url.ts';
+import { getStorageProvider } from '../../../services/storage/storage.factory.ts';
+import {
+  type StoredFileContent,
+  sendStoredFile,
+} from '../../helpers/file-download.helper.ts';
+
+const signedUrlService = new SignedUrlService();
+
+async function findStoredContent(
+  storagePath: string
+): Promise<StoredFileContent | null> {
+  const [file] = await db
+    .select()
+    .from(files)
+    .where(eq(files.storagePath, storagePath))
+    .limit(1);
+  if (file) {
+    return { ...file, lastModified: file.updatedAt };
+  }
+
+  const [version] = await db
+    .select()
+    .from(fileVersions)
+    .where(eq(fileVersions.storagePath, storagePath))
+    .limit(1);
+
+  return version ? { ...version, lastModified: version.createdAt } : null;
+}
+
+/**
+ * Acesso direto ao conteúdo do storage local por URLs assinadas geradas
+ * por `LocalStorageProvider.getUrl`. Rota pública: a autorização está na
+ * própria assinatura.
+ */
+export function serveSignedObject(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/uploads/*',
+    {
+      schema: {
+        tags: ['storage'],
+        summary: 'Download por URL assinada',
+        querystring: z.object({
+          expires: z.coerce.number().int(),
+          nonce: z.string().optional(),
+          ipBound: z.stringbool().default(false),
+          signature: z.string(),
+        }),
+        response: {
+          200: z.any().describe('Arquivo para download'),
+          206: z.any().describe('Conteúdo parcial do arquivo'),
+          304: z.any().describe('Arquivo não modificado'),
+          403: z.object({
+            message: z.string(),
+          }),
+          404: z.object({
+            message: z.string(),
+          }),
+          416: z.object({
+            message: z.string(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const storagePath = (request.params as { '*': string })['*'];
+
+      try {
+        await signedUrlService.verify(
+          { storagePath, ...request.query },
+          request.ip
+        );
+      } catch (error) {
+        if (error instanceof SignedUrlError) {
+          return reply
+            .status(error.statusCode)
+            .send({ message: error.message });
+        }
+        throw error;
+      }
+
+      const content = await findStoredContent(storagePath);
+      if (!(content && (await getStorageProvider().exists(storagePath)))) {
+        return reply.status(404).send({ message: 'Arquivo não encontrado' });
+      }
+
+      return sendStoredFile(request, reply, content);
+    }
+  );
+}
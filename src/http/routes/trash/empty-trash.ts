@@ -0,0 +1,41 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { TrashService } from '../../../services/trash.service.ts';
+import {
+  createApiSuccessResponse,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+
+const trashService = new TrashService();
+
+export function emptyTrash(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/trash',
+    {
+      config: { permission: 'files:write' },
+      schema: {
+        tags: ['trash'],
+        summary: 'Esvaziar a lixeira do usuário',
+        description:
+          'Remove permanentemente os arquivos e pastas da lixeira do usuário autenticado em que ele ainda tem acesso de escrita, incluindo o conteúdo armazenado',
+        response: {
+          200: createSuccessResponseSchema(
+            z.object({
+              folders: z.number(),
+              files: z.number(),
+              storageObjects: z.number(),
+            })
+          ),
+        },
+      },
+    },
+    async (request, reply) => {
+      const summary = await trashService.empty(request.user);
+
+      return reply.send(
+        createApiSuccessResponse(summary, 'Lixeira esvaziada com sucesso')
+      );
+    }
+  );
+}
@@ -0,0 +1,55 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { env } from '../../../env.ts';
+import { TrashService } from '../../../services/trash.service.ts';
+import {
+  createApiSuccessResponse,
+  createSuccessResponseSchema,
+} from '../../../types/api-response.ts';
+
+const trashService = new TrashService();
+
+export function getTrash(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/trash',
+    {
+      config: { permission: 'files:read' },
+      schema: {
+        tags: ['trash'],
+        summary: 'Listar itens da lixeira do usuário',
+        description: `Itens são removidos permanentemente após ${env.TRASH_RETENTION_DAYS} dias na lixeira`,
+        response: {
+          200: createSuccessResponseSchema(
+            z.array(
+              z.object({
+                id: z.string(),
+                type: z.enum(['file', 'folder']),
+                name: z.string(),
+                size: z.string().nullable(),
+                trashedAt: z.string().datetime(),
+                expiresAt: z.string().datetime(),
+                daysRemaining: z.number(),
+              })
+            )
+          ),
+        },
+      },
+    },
+    async (request, reply) => {
+      const items = await trashService.list(request.user.id);
+
+      return reply.send(
+        createApiSuccessResponse(
+          items.map((item) => ({
+            ...item,
+            size: item.size?.toString() ?? null,
+            trashedAt: item.trashedAt.toISOString(),
+            expiresAt: item.expiresAt.toISOString(),
+          })),
+          'Itens da lixeira listados com sucesso'
+        )
+      );
+    }
+  );
+}
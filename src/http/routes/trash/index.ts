@@ -0,0 +1,2 @@
+export { emptyTrash } from './empty-trash.ts';
+export { getTrash } from './get-trash.ts';
@@ -0,0 +1,95 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { QuotaExceededError } from '../../../services/quota.service.ts';
+import {
+  UploadSessionError,
+  UploadSessionService,
+} from '../../../services/upload-session.service.ts';
+import {
+  createApiErrorResponse,
+  createErrorResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+
+const UPLOAD_CHUNK_CONTENT_TYPE = 'application/offset+octet-stream';
+
+const uploadSessionService = new UploadSessionService();
+
+export function appendUploadChunk(app: FastifyInstance) {
+  // O corpo da parte é repassado como stream, sem ser carregado em memória
+  app.addContentTypeParser(
+    UPLOAD_CHUNK_CONTENT_TYPE,
+    (_request, payload, done) => {
+      done(null, payload);
+    }
+  );
+
+  app.withTypeProvider<ZodTypeProvider>().patch(
+    '/uploads/:id',
+    {
+      config: { permission: 'files:write' },
+      schema: {
+        tags: ['uploads'],
+        summary: 'Enviar parte do upload retomável',
+        description: `Envia a próxima parte com Content-Type ${UPLOAD_CHUNK_CONTENT_TYPE} a partir do offset informado em Upload-Offset`,
+        consumes: [UPLOAD_CHUNK_CONTENT_TYPE],
+        params: z.object({
+          id: z.uuid(),
+        }),
+        headers: z.looseObject({
+          'upload-offset': z.coerce.number().int().min(0),
+          'content-length': z.coerce.number().int().positive(),
+        }),
+        response: {
+          204: z.object({}),
+          400: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+          409: createErrorResponseSchema(),
+          410: createErrorResponseSchema(),
+          413: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      if (request.headers['content-type'] !== UPLOAD_CHUNK_CONTENT_TYPE) {
+        return reply
+          .status(HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE)
+          .send(
+            createApiErrorResponse(
+              `Content-Type deve ser ${UPLOAD_CHUNK_CONTENT_TYPE}`,
+              HTTP_STATUS.UNSUPPORTED_MEDIA_TYPE
+            )
+          );
+      }
+
+      try {
+        const session = await uploadSessionService.appendChunk(
+          request.params.id,
+          request.user.id,
+          {
+            offset: request.headers['upload-offset'],
+            length: request.headers['content-length'],
+            chunk: request.body as NodeJS.ReadableStream,
+          }
+        );
+
+        reply.header('Upload-Offset', session.uploadedSize.toString());
+        reply.header('Upload-Expires', session.expiresAt.toUTCString());
+
+        return reply.status(HTTP_STATUS.NO_CONTENT).send();
+      } catch (error) {
+        if (
+          error instanceof UploadSessionError ||
+          error instanceof QuotaExceededError
+        ) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,51 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  UploadSessionError,
+  UploadSessionService,
+} from '../../../services/upload-session.service.ts';
+import {
+  createApiErrorResponse,
+  createErrorResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+
+const uploadSessionService = new UploadSessionService();
+
+export function cancelUploadSession(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().delete(
+    '/uploads/:id',
+    {
+      config: { permission: 'files:write' },
+      schema: {
+        tags: ['uploads'],
+        summary: 'Cancelar upload retomável',
+        description: 'Remove a sessão e as partes já enviadas',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          204: z.object({}),
+          404: createErrorResponseSchema(),
+          409: createErrorResponseSchema(),
+          410: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        await uploadSessionService.cancel(request.params.id, request.user.id);
+
+        return reply.status(HTTP_STATUS.NO_CONTENT).send();
+      } catch (error) {
+        if (error instanceof UploadSessionError) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
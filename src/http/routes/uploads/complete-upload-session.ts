@@ -0,0 +1,108 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { ChecksumMismatchError } from '../../../services/file-upload.service.ts';
+import { QuotaExceededError } from '../../../services/quota.service.ts';
+import {
+  UploadSessionError,
+  UploadSessionService,
+} from '../../../services/upload-session.service.ts';
+import {
+  createApiCreatedResponse,
+  createApiErrorResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  createUnprocessableEntityResponse,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+
+const uploadSessionService = new UploadSessionService();
+
+export function completeUploadSession(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/uploads/:id/complete',
+    {
+      config: {
+        permission: 'files:write',
+        audit: { action: 'upload', target: 'file' },
+      },
+      schema: {
+        tags: ['uploads'],
+        summary: 'Finalizar upload retomável',
+        description:
+          'Concatena as partes recebidas, verifica o checksum e cria o arquivo',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          201: createSuccessResponseSchema(
+            z.object({
+              id: z.string(),
+              name: z.string(),
+              type: z.string(),
+              size: z.string(),
+              checksum: z.string().nullable(),
+              storagePath: z.string(),
+              downloadUrl: z.string(),
+              folderId: z.string().nullable(),
+              ownerId: z.string(),
+              status: z.enum(['ativo', 'lixeira']),
+              createdAt: z.string(),
+              createdBy: z.string(),
+            })
+          ),
+          403: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+          409: createErrorResponseSchema(),
+          410: createErrorResponseSchema(),
+          422: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      try {
+        const file = await uploadSessionService.complete(
+          request.params.id,
+          request.user
+        );
+        request.auditTargetIds = [file.id];
+
+        return reply.status(HTTP_STATUS.CREATED).send(
+          createApiCreatedResponse(
+            {
+              id: file.id,
+              name: file.name,
+              type: file.type,
+              size: file.size.toString(),
+              checksum: file.checksum,
+              storagePath: file.storagePath,
+              downloadUrl: `/files/${file.id}/download`,
+              folderId: file.folderId,
+              ownerId: file.ownerId,
+              status: file.status,
+              createdAt: file.createdAt.toISOString(),
+              createdBy: file.createdBy,
+            },
+            'Arquivo criado com sucesso'
+          )
+        );
+      } catch (error) {
+        if (
+          error instanceof UploadSessionError ||
+          error instanceof QuotaExceededError
+        ) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        if (error instanceof ChecksumMismatchError) {
+          return reply
+            .status(HTTP_STATUS.UNPROCESSABLE_ENTITY)
+            .send(createUnprocessableEntityResponse(error.message));
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,124 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { ALLOWED_FILE_TYPES } from '../../../constants/files.ts';
+import { FileUploadService } from '../../../services/file-upload.service.ts';
+import { QuotaExceededError } from '../../../services/quota.service.ts';
+import { normalizeSha256 } from '../../../services/storage/checksum-stream.ts';
+import {
+  UploadSessionError,
+  UploadSessionService,
+} from '../../../services/upload-session.service.ts';
+import {
+  createApiCreatedResponse,
+  createApiErrorResponse,
+  createErrorResponseSchema,
+  createSuccessResponseSchema,
+  HTTP_STATUS,
+} from '../../../types/api-response.ts';
+import { createResponseHelper } from '../../helpers/response.helper.ts';
+
+const uploadSessionService = new UploadSessionService();
+const uploadService = new FileUploadService();
+
+export function createUploadSession(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().post(
+    '/uploads',
+    {
+      config: {
+        permission: 'files:write',
+        acl: { target: 'folder', param: 'folderId', from: 'body' },
+      },
+      schema: {
+        tags: ['uploads'],
+        summary: 'Iniciar upload retomável',
+        description:
+          'Cria uma sessão de upload. As partes são enviadas com PATCH /uploads/:id e o arquivo é criado com POST /uploads/:id/complete',
+        body: z.object({
+          fileName: z.string().min(1),
+          mimeType: z.string().min(1),
+          size: z.number().int().positive(),
+          folderId: z.uuid('folderId deve ser um UUID válido').optional(),
+          checksum: z
+            .string()
+            .refine(
+              (value) => normalizeSha256(value) !== null,
+              'checksum deve ser um SHA-256 em hexadecimal'
+            )
+            .optional(),
+        }),
+        response: {
+          201: createSuccessResponseSchema(
+            z.object({
+              id: z.string(),
+              fileName: z.string(),
+              mimeType: z.string(),
+              folderId: z.string().nullable(),
+              totalSize: z.string(),
+              uploadedSize: z.string(),
+              status: z.enum(['pendente', 'finalizando', 'concluido']),
+              expiresAt: z.string(),
+              createdAt: z.string(),
+            })
+          ),
+          400: createErrorResponseSchema(),
+          404: createErrorResponseSchema(),
+          413: createErrorResponseSchema(),
+          422: createErrorResponseSchema(),
+          507: createErrorResponseSchema(),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { fileName, mimeType, size, folderId, checksum } = request.body;
+
+      if (!uploadService.validateFileType(mimeType, ALLOWED_FILE_TYPES)) {
+        return await createResponseHelper(reply).badRequest(
+          `Tipo de arquivo não suportado: ${mimeType}`
+        );
+      }
+
+      try {
+        const session = await uploadSessionService.create({
+          ownerId: request.user.id,
+          fileName,
+          mimeType,
+          totalSize: size,
+          folderId,
+          checksum,
+        });
+
+        reply.header('Location', `${request.url}/${session.id}`);
+        reply.header('Upload-Offset', '0');
+        reply.header('Upload-Expires', session.expiresAt.toUTCString());
+
+        return reply.status(HTTP_STATUS.CREATED).send(
+          createApiCreatedResponse(
+            {
+              id: session.id,
+              fileName: session.fileName,
+              mimeType: session.mimeType,
+              folderId: session.folderId,
+              totalSize: session.totalSize.toString(),
+              uploadedSize: session.uploadedSize.toString(),
+              status: session.status,
+              expiresAt: session.expiresAt.toISOString(),
+              createdAt: session.createdAt.toISOString(),
+            },
+            'Sessão de upload criada com sucesso'
+          )
+        );
+      } catch (error) {
+        if (
+          error instanceof UploadSessionError ||
+          error instanceof QuotaExceededError
+        ) {
+          return reply
+            .status(error.statusCode)
+            .send(createApiErrorResponse(error.message, error.statusCode));
+        }
+        throw error;
+      }
+    }
+  );
+}
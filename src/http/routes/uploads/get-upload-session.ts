@@ -0,0 +1,52 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import {
+  UploadSessionError,
+  UploadSessionService,
+} from '../../../services/upload-session.service.ts';
+
+const uploadSessionService = new UploadSessionService();
+
+export function getUploadSession(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().head(
+    '/uploads/:id',
+    {
+      config: { permission: 'files:write' },
+      schema: {
+        tags: ['uploads'],
+        summary: 'Consultar progresso do upload retomável',
+        description:
+          'Retorna o offset atual nos headers Upload-Offset e Upload-Length',
+        params: z.object({
+          id: z.uuid(),
+        }),
+      },
+    },
+    async (request, reply) => {
+      reply.header('Cache-Control', 'no-store');
+
+      try {
+        const session = await uploadSessionService.get(
+          request.params.id,
+          request.user.id
+        );
+
+        reply.header('Upload-Offset', session.uploadedSize.toString());
+        reply.header('Upload-Length', session.totalSize.toString());
+        reply.header('Upload-Expires', session.expiresAt.toUTCString());
+        reply.header('Upload-Status', session.status);
+        if (session.fileId) {
+          reply.header('Location', `/files/${session.fileId}`);
+        }
+
+        return reply.status(200).send();
+      } catch (error) {
+        if (error instanceof UploadSessionError) {
+          return reply.status(error.statusCode).send();
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,5 @@
+export { appendUploadChunk } from './append-upload-chunk.ts';
+export { cancelUploadSession } from './cancel-upload-session.ts';
+export { completeUploadSession } from './complete-upload-session.ts';
+export { createUploadSession } from './create-upload-session.ts';
+export { getUploadSession } from './get-upload-session.ts';
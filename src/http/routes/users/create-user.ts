@@ -3,18 +3,23 @@ import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { db } from '../../../db/connection.ts';
 import { users } from '../../../db/schema/users.ts';
+import { hashPassword } from '../../../services/auth/password.ts';
 
 export function createUser(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().post(
     '/users',
     {
+      config: {
+        permission: 'users:manage',
+        audit: { action: 'create_user', target: 'user' },
+      },
       schema: {
         tags: ['users'],
         summary: 'Criar novo usuário',
         body: z.object({
           name: z.string().min(1),
           email: z.string().email(),
-          passwordHash: z.string().min(6),
+          password: z.string().min(8),
           role: z.enum(['admin', 'colaborador', 'visualizador']),
         }),
         response: {
@@ -35,7 +40,7 @@ export function createUser(app: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      const { name, email, passwordHash, role } = request.body;
+      const { name, email, password, role } = request.body;
 
       try {
         const result = await db
@@ -43,7 +48,7 @@ export function createUser(app: FastifyInstance) {
           .values({
             name,
             email,
-            passwordHash,
+            passwordHash: await hashPassword(password),
             role,
           })
           .returning({
@@ -60,6 +65,7 @@ export function createUser(app: FastifyInstance) {
           createdAt: result[0].createdAt.toISOString(),
           updatedAt: result[0].updatedAt.toISOString(),
         };
+        request.auditTargetIds = [user.id];
 
         return reply.status(201).send({ user });
       } catch {
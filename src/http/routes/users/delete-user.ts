@@ -9,11 +9,15 @@ export function deleteUser(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().delete(
     '/users/:id',
     {
+      config: {
+        permission: 'users:manage',
+        audit: { action: 'delete_user', target: 'user' },
+      },
       schema: {
         tags: ['users'],
         summary: 'Deletar usuário',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         response: {
           204: z.object({}),
@@ -4,16 +4,20 @@ import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { db } from '../../../db/connection.ts';
 import { users } from '../../../db/schema/users.ts';
+import { GroupService } from '../../../services/group.service.ts';
+
+const groupService = new GroupService();
 
 export function getUserById(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/users/:id',
     {
+      config: { permission: 'users:read' },
       schema: {
         tags: ['users'],
         summary: 'Buscar usuário por ID',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         response: {
           200: z.object({
@@ -24,6 +28,12 @@ export function getUserById(app: FastifyInstance) {
               role: z.enum(['admin', 'colaborador', 'visualizador']),
               createdAt: z.string().datetime(),
               updatedAt: z.string().datetime(),
+              groups: z.array(
+                z.object({
+                  id: z.string(),
+                  name: z.string(),
+                })
+              ),
             }),
           }),
           404: z.object({
@@ -55,6 +65,7 @@ export function getUserById(app: FastifyInstance) {
         ...result[0],
         createdAt: result[0].createdAt.toISOString(),
         updatedAt: result[0].updatedAt.toISOString(),
+        groups: await groupService.listUserGroups(id),
       };
 
       return reply.send({ user });
@@ -0,0 +1,80 @@
+import type { FastifyInstance } from 'fastify';
+import type { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { z } from 'zod';
+import { hasPermission } from '../../../constants/permissions.ts';
+import { QuotaService } from '../../../services/quota.service.ts';
+
+const quotaService = new QuotaService();
+
+export function getUserUsage(app: FastifyInstance) {
+  app.withTypeProvider<ZodTypeProvider>().get(
+    '/users/:id/usage',
+    {
+      // Todo usuário consulta o próprio uso; o de outros exige users:read
+      config: { permission: 'files:read' },
+      schema: {
+        tags: ['users'],
+        summary: 'Uso de armazenamento do usuário',
+        description:
+          'Bytes usados e permitidos pela cota, com o uso por tipo de arquivo. Arquivos na lixeira contam até serem removidos. quota e available são nulos quando a cota é ilimitada',
+        params: z.object({
+          id: z.uuid(),
+        }),
+        response: {
+          200: z.object({
+            usage: z.object({
+              userId: z.string(),
+              used: z.string(),
+              quota: z.string().nullable(),
+              available: z.string().nullable(),
+              byType: z.array(
+                z.object({
+                  type: z.string(),
+                  files: z.number().int(),
+                  bytes: z.string(),
+                })
+              ),
+            }),
+          }),
+          403: z.object({
+            message: z.string(),
+          }),
+          404: z.object({
+            message: z.string(),
+          }),
+        },
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      if (
+        id !== request.user.id &&
+        !hasPermission(request.user.role, 'users:read')
+      ) {
+        return reply
+          .status(403)
+          .send({ message: 'Você não tem permissão para esta operação' });
+      }
+
+      const usage = await quotaService.getUsage(id);
+
+      if (!usage) {
+        return reply.status(404).send({ message: 'Usuário não encontrado' });
+      }
+
+      return reply.send({
+        usage: {
+          userId: id,
+          used: usage.used.toString(),
+          quota: usage.quota?.toString() ?? null,
+          available: usage.available?.toString() ?? null,
+          byType: usage.byType.map((entry) => ({
+            ...entry,
+            bytes: entry.bytes.toString(),
+          })),
+        },
+      });
+    }
+  );
+}
@@ -16,6 +16,7 @@ export function getUsers(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().get(
     '/users',
     {
+      config: { permission: 'users:read' },
       schema: {
         tags: ['users'],
         summary: 'Listar todos os usuários com paginação',
@@ -1,5 +1,6 @@
 export { createUser } from './create-user.ts';
 export { deleteUser } from './delete-user.ts';
 export { getUserById } from './get-user-by-id.ts';
+export { getUserUsage } from './get-user-usage.ts';
 export { getUsers } from './get-users.ts';
 export { updateUser } from './update-user.ts';
@@ -4,22 +4,33 @@ import type { ZodTypeProvider } from 'fastify-type-provider-zod';
 import { z } from 'zod';
 import { db } from '../../../db/connection.ts';
 import { users } from '../../../db/schema/users.ts';
+import { AuthService } from '../../../services/auth/auth.service.ts';
+import { hashPassword } from '../../../services/auth/password.ts';
+import { diffChanges } from '../../../services/log.service.ts';
+
+const authService = new AuthService();
 
 export function updateUser(app: FastifyInstance) {
   app.withTypeProvider<ZodTypeProvider>().put(
     '/users/:id',
     {
+      config: {
+        permission: 'users:manage',
+        audit: { action: 'update', target: 'user' },
+      },
       schema: {
         tags: ['users'],
         summary: 'Atualizar usuário',
         params: z.object({
-          id: z.string(),
+          id: z.uuid(),
         }),
         body: z.object({
           name: z.string().min(1).optional(),
           email: z.string().email().optional(),
-          passwordHash: z.string().min(6).optional(),
+          password: z.string().min(8).optional(),
           role: z.enum(['admin', 'colaborador', 'visualizador']).optional(),
+          // Nula volta a usar a cota padrão do papel
+          quotaBytes: z.number().int().nonnegative().nullable().optional(),
         }),
         response: {
           200: z.object({
@@ -40,28 +51,69 @@ export function updateUser(app: FastifyInstance) {
     },
     async (request, reply) => {
       const { id } = request.params;
-      const updateData = request.body;
+      const { password, quotaBytes, ...fields } = request.body;
+      const updateData = {
+        ...fields,
+        ...(quotaBytes !== undefined && {
+          quotaBytes: quotaBytes === null ? null : BigInt(quotaBytes),
+        }),
+      };
 
-      const result = await db
-        .update(users)
-        .set({
-          ...updateData,
-          updatedAt: new Date(),
-        })
-        .where(eq(users.id, id))
-        .returning({
-          id: users.id,
+      const [current] = await db
+        .select({
           name: users.name,
           email: users.email,
           role: users.role,
-          createdAt: users.createdAt,
-          updatedAt: users.updatedAt,
-        });
+          quotaBytes: users.quotaBytes,
+        })
+        .from(users)
+        .where(eq(users.id, id));
+
+      if (!current) {
+        return reply.status(404).send({ message: 'Usuário não encontrado' });
+      }
+
+      const passwordHash = password ? await hashPassword(password) : undefined;
+
+      const result = await db.transaction(async (tx) => {
+        const updated = await tx
+          .update(users)
+          .set({
+            ...updateData,
+            ...(passwordHash && { passwordHash, legacyPassword: false }),
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, id))
+          .returning({
+            id: users.id,
+            name: users.name,
+            email: users.email,
+            role: users.role,
+            createdAt: users.createdAt,
+            updatedAt: users.updatedAt,
+          });
+
+        // Com a senha alterada, as sessões abertas com a anterior deixam de valer
+        if (updated.length > 0 && passwordHash) {
+          await authService.revokeAllSessions(id, tx);
+        }
+
+        return updated;
+      });
 
       if (result.length === 0) {
         return reply.status(404).send({ message: 'Usuário não encontrado' });
       }
 
+      // A senha nunca é registrada, apenas o fato de ter sido alterada
+      request.auditDetails = {
+        ...diffChanges(current, updateData),
+        ...(password && { passwordChanged: true }),
+      };
+      if (updateData.role && updateData.role !== current.role) {
+        request.auditAction = 'permission_change';
+      }
+
       const user = {
         ...result[0],
         createdAt: result[0].createdAt.toISOString(),
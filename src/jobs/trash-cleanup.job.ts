@@ -0,0 +1,30 @@
+import { env } from '../env.ts';
+import { TrashService } from '../services/trash.service.ts';
+import { logger } from '../utils/logger.ts';
+
+const trashService = new TrashService();
+
+async function runCleanup() {
+  try {
+    const summary = await trashService.purgeExpired();
+    if (summary.files > 0 || summary.folders > 0) {
+      logger.info(
+        `🗑️ Lixeira expirada removida: ${summary.files} arquivo(s), ${summary.folders} pasta(s), ${summary.storageObjects} objeto(s) no storage`
+      );
+    }
+  } catch (error) {
+    logger.error('Erro ao remover itens expirados da lixeira:', error);
+  }
+}
+
+/**
+ * Agenda a remoção periódica dos itens da lixeira cujo período de
+ * retenção expirou
+ */
+export function startTrashCleanupJob(): NodeJS.Timeout {
+  const timer = setInterval(runCleanup, env.TRASH_CLEANUP_INTERVAL * 1000);
+  // Não impede o encerramento do processo
+  timer.unref();
+
+  return timer;
+}
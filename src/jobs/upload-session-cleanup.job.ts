@@ -0,0 +1,32 @@
+import { env } from '../env.ts';
+import { UploadSessionService } from '../services/upload-session.service.ts';
+import { logger } from '../utils/logger.ts';
+
+const uploadSessionService = new UploadSessionService();
+
+async function runCleanup() {
+  try {
+    const removed = await uploadSessionService.cleanupExpired();
+    if (removed > 0) {
+      logger.info(
+        `🧹 ${removed} sessão(ões) de upload expirada(s) removida(s)`
+      );
+    }
+  } catch (error) {
+    logger.error('Erro ao limpar sessões de upload expiradas:', error);
+  }
+}
+
+/**
+ * Agenda a remoção periódica de sessões de upload abandonadas
+ */
+export function startUploadSessionCleanupJob(): NodeJS.Timeout {
+  const timer = setInterval(
+    runCleanup,
+    env.UPLOAD_SESSION_CLEANUP_INTERVAL * 1000
+  );
+  // Não impede o encerramento do processo
+  timer.unref();
+
+  return timer;
+}
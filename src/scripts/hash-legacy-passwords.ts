@@ -0,0 +1,28 @@
+import { eq } from 'drizzle-orm';
+import { db, sql } from '../db/connection.ts';
+import { users } from '../db/schema/users.ts';
+import { hashPassword } from '../services/auth/password.ts';
+import { logger } from '../utils/logger.ts';
+
+// Uso: pnpm auth:hash-legacy-passwords (gera o hash das senhas legadas sem
+// esperar pelo próximo login de cada conta)
+const legacyUsers = await db
+  .select({ id: users.id, passwordHash: users.passwordHash })
+  .from(users)
+  .where(eq(users.legacyPassword, true));
+
+for (const user of legacyUsers) {
+  // O scrypt consome bastante memória: uma conta por vez
+  // biome-ignore lint/nursery/noAwaitInLoop: true
+  await db
+    .update(users)
+    .set({
+      passwordHash: await hashPassword(user.passwordHash),
+      legacyPassword: false,
+    })
+    .where(eq(users.id, user.id));
+}
+
+logger.info(`✅ Senhas legadas convertidas: ${legacyUsers.length}`);
+
+await sql.end();
@@ -0,0 +1,40 @@
+import { sql } from '../db/connection.ts';
+import { StorageReconciliationService } from '../services/storage-reconciliation.service.ts';
+import { logger } from '../utils/logger.ts';
+
+// Uso: pnpm storage:reconcile [--fix] [--verify-checksums]
+const args = new Set(process.argv.slice(2));
+
+const report = await new StorageReconciliationService().reconcile({
+  fix: args.has('--fix'),
+  verifyChecksums: args.has('--verify-checksums'),
+});
+
+logger.info(
+  `Objetos no storage: ${report.scannedObjects} | referenciados: ${report.referencedObjects}`
+);
+logger.info(
+  `Órfãos: ${report.orphans.length} | ausentes: ${report.missing.length} | checksum divergente: ${report.checksumMismatches.length}`
+);
+
+for (const orphan of report.orphans) {
+  logger.warn(
+    `Órfão: ${orphan.storagePath}${orphan.quarantinePath ? ` -> ${orphan.quarantinePath}` : ''}`
+  );
+}
+for (const object of report.missing) {
+  logger.warn(
+    `Ausente: ${object.storagePath} (arquivos: ${object.fileIds.join(', ') || '-'})`
+  );
+}
+for (const mismatch of report.checksumMismatches) {
+  logger.warn(
+    `Checksum divergente: ${mismatch.storagePath} (esperado ${mismatch.expected}, obtido ${mismatch.actual})`
+  );
+}
+
+if (report.fixed) {
+  logger.info(`Arquivos marcados com problema: ${report.flaggedFiles}`);
+}
+
+await sql.end();
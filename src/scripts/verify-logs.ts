@@ -0,0 +1,24 @@
+import { sql } from '../db/connection.ts';
+import { LogIntegrityService } from '../services/log-integrity.service.ts';
+import { logger } from '../utils/logger.ts';
+
+// Uso: pnpm logs:verify (sai com código 1 se a cadeia estiver quebrada)
+const report = await new LogIntegrityService().verify();
+
+logger.info(
+  `Entradas verificadas: ${report.checkedEntries} | anteriores ao encadeamento: ${report.legacyEntries}`
+);
+logger.info(
+  `Última entrada: ${report.lastSequence ?? '-'} (hash ${report.lastHash ?? '-'})`
+);
+
+if (report.firstBreak) {
+  logger.error(
+    `Cadeia quebrada na entrada ${report.firstBreak.logId} (sequência ${report.firstBreak.sequence ?? '-'}): ${report.firstBreak.reason}`
+  );
+  process.exitCode = 1;
+} else {
+  logger.info('✅ Cadeia de logs íntegra');
+}
+
+await sql.end();
@@ -1,49 +1,32 @@
 import { fastifyCors } from '@fastify/cors';
 import multipart from '@fastify/multipart';
-import fastifyStatic from '@fastify/static';
 import { fastify } from 'fastify';
 import {
   serializerCompiler,
   validatorCompiler,
   type ZodTypeProvider,
 } from 'fastify-type-provider-zod';
-import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
 import { env } from './env.ts';
-import { setupDatabaseErrorHandling } from './http/middleware/database-error.ts';
-
-import {
-  createFile,
-  createMultipleFiles,
-  deleteFile,
-  downloadFile,
-  getFileById,
-  getFiles,
-  moveFileToTrash,
-  restoreFile,
-  updateFile,
-} from './http/routes/files/index.ts';
-import {
-  createFolder,
-  deleteFolder,
-  getFolderById,
-  getFolders,
-  updateFolder,
-} from './http/routes/folders/index.ts';
 import {
-  createLog,
-  deleteLog,
-  getLogById,
-  getLogs,
-  getLogsByUser,
-} from './http/routes/logs/index.ts';
-// Import routes
+  redactSensitiveFields,
+  redactUrl,
+} from './http/helpers/log-redaction.helper.ts';
+import { setupRouteAudit } from './http/middleware/audit.ts';
+import { authenticate } from './http/middleware/authenticate.ts';
+import { setupRoutePermissions } from './http/middleware/authorize.ts';
+import { setupDatabaseErrorHandling } from './http/middleware/database-error.ts';
+import { setupRequestContext } from './http/middleware/request-context.ts';
+import { login, logout, refreshToken } from './http/routes/auth/index.ts';
+import { registerProtectedRoutes } from './http/routes/protected-routes.ts';
 import {
-  createUser,
-  deleteUser,
-  getUserById,
-  getUsers,
-  updateUser,
-} from './http/routes/users/index.ts';
+  downloadSharedContent,
+  downloadSharedFile,
+  getSharedContent,
+} from './http/routes/shares/index.ts';
+import { serveSignedObject } from './http/routes/storage/index.ts';
+import { startTrashCleanupJob } from './jobs/trash-cleanup.job.ts';
+import { startUploadSessionCleanupJob } from './jobs/upload-session-cleanup.job.ts';
 import { logger } from './utils/logger.ts';
 
 const app = fastify({
@@ -51,18 +34,22 @@ const app = fastify({
   bodyLimit: 50 * 1024 * 1024, // 50MB body limit
   keepAliveTimeout: 60 * 1000, // 60 segundos
   requestTimeout: 60 * 1000, // 60 segundos timeout
+  // Reaproveita o id enviado por proxies para correlacionar logs
+  requestIdHeader: 'x-request-id',
+  genReqId: () => randomUUID(),
 }).withTypeProvider<ZodTypeProvider>();
 
 // Error handler global
 app.setErrorHandler((error, request, reply) => {
-  logger.error(`Erro na rota ${request.method} ${request.url}:`, {
+  // Senhas, tokens e assinaturas nunca chegam aos logs
+  logger.error(`Erro na rota ${request.method} ${redactUrl(request.url)}:`, {
     message: error.message,
     stack: error.stack,
     statusCode: error.statusCode,
     validation: error.validation,
-    body: request.body,
-    query: request.query,
-    params: request.params,
+    body: redactSensitiveFields(request.body),
+    query: redactSensitiveFields(request.query),
+    params: redactSensitiveFields(request.params),
   });
 
   // Se for erro de validação do Zod
@@ -92,14 +79,16 @@ app.setErrorHandler((error, request, reply) => {
 
 // Log de todas as requisições
 app.addHook('onRequest', (request, _, done) => {
-  logger.info(`📥 ${request.method} ${request.url} - IP: ${request.ip}`);
+  logger.info(
+    `📥 ${request.method} ${redactUrl(request.url)} - IP: ${request.ip}`
+  );
   done();
 });
 
 // Log de todas as respostas
 app.addHook('onSend', (request, reply, __, done) => {
   logger.info(
-    `📤 ${request.method} ${request.url} - Status: ${reply.statusCode}`
+    `📤 ${request.method} ${redactUrl(request.url)} - Status: ${reply.statusCode}`
   );
   done();
 });
@@ -127,11 +116,18 @@ app.register(multipart, {
   attachFieldsToBody: false, // Não anexar campos ao body automaticamente
 });
 
-// Registrar plugin para servir arquivos estáticos
-app.register(fastifyStatic, {
-  root: join(process.cwd(), 'uploads'),
-  prefix: '/uploads/',
-});
+// Conteúdo do storage local, acessível apenas por URLs assinadas
+app.register(serveSignedObject);
+
+// Links públicos de compartilhamento, protegidos apenas pelo token
+app.register(getSharedContent);
+app.register(downloadSharedContent);
+app.register(downloadSharedFile);
+
+setupRequestContext(app);
+
+// Usuário autenticado é populado pelo preHandler de autenticação
+app.decorateRequest('user');
 
 app.setSerializerCompiler(serializerCompiler);
 app.setValidatorCompiler(validatorCompiler);
@@ -159,37 +155,19 @@ app.get('/health', async () => {
 // Register API v1 routes with prefix
 app.register(
   (instance) => {
-    // Register user routes
-    instance.register(getUsers);
-    instance.register(getUserById);
-    instance.register(createUser);
-    instance.register(updateUser);
-    instance.register(deleteUser);
-
-    // Register folder routes
-    instance.register(getFolders);
-    instance.register(getFolderById);
-    instance.register(createFolder);
-    instance.register(updateFolder);
-    instance.register(deleteFolder);
-
-    // Register file routes
-    instance.register(getFiles);
-    instance.register(getFileById);
-    instance.register(createFile);
-    instance.register(createMultipleFiles);
-    instance.register(updateFile);
-    instance.register(deleteFile);
-    instance.register(downloadFile);
-    instance.register(moveFileToTrash);
-    instance.register(restoreFile);
-
-    // Register log routes
-    instance.register(getLogs);
-    instance.register(getLogById);
-    instance.register(createLog);
-    instance.register(deleteLog);
-    instance.register(getLogsByUser);
+    // Register public auth routes
+    instance.register(login);
+    instance.register(refreshToken);
+    instance.register(logout);
+
+    // Rotas abaixo exigem access token válido
+    instance.register((protectedInstance) => {
+      protectedInstance.addHook('preHandler', authenticate);
+      setupRoutePermissions(protectedInstance);
+      setupRouteAudit(protectedInstance);
+
+      registerProtectedRoutes(protectedInstance);
+    });
   },
   { prefix: '/api/v1' }
 );
@@ -209,5 +187,8 @@ app.listen({ port: env.PORT }, async (err, address) => {
     logger.error('❌ Falha no teste de conectividade com banco:', dbError);
   }
 
+  startUploadSessionCleanupJob();
+  startTrashCleanupJob();
+
   logger.info(`🚀 Server listening at ${address}`);
 });
@@ -0,0 +1,484 @@
+import {
+  and,
+  desc,
+  eq,
+  inArray,
+  or,
+  type SQL,
+  type SQLWrapper,
+  sql,
+} from 'drizzle-orm';
+import {
+  type AccessLevel,
+  getAccessLevelPermissions,
+  hasAccessLevel,
+  type Permission,
+  ROLE_ACCESS_LEVELS,
+} from '../constants/permissions.ts';
+import { db } from '../db/connection.ts';
+import { aclEntries } from '../db/schema/acl-entries.ts';
+import { files } from '../db/schema/files.ts';
+import { folders } from '../db/schema/folders.ts';
+import { groupMembers, groups } from '../db/schema/groups.ts';
+import { users } from '../db/schema/users.ts';
+import { HTTP_STATUS, type HttpStatusCode } from '../types/api-response.ts';
+import type { AuthenticatedUser } from '../types/auth.ts';
+import { LogService } from './log.service.ts';
+
+export type AclTarget = 'file' | 'folder';
+
+/** Arquivo ou pasta; sem nenhum dos dois, a raiz */
+export interface AclNode {
+  fileId?: string | null;
+  folderId?: string | null;
+}
+
+export type AclPrincipal = Pick<AuthenticatedUser, 'id' | 'role'>;
+
+/** Usuário ou grupo a quem uma entrada da ACL se aplica */
+export type AclSubject = { userId: string } | { groupId: string };
+
+export type AclEntryRecord = typeof aclEntries.$inferSelect;
+
+export interface EffectiveAccess {
+  level: AccessLevel;
+  /** Papel do usuário, ou a entrada da ACL que define o nível */
+  source: 'admin' | 'role' | 'entry';
+  entry: AclEntryRecord | null;
+  /** Se a entrada pertence a uma pasta acima do nó consultado */
+  inherited: boolean;
+  permissions: Permission[];
+}
+
+export class AclError extends Error {
+  readonly statusCode: HttpStatusCode;
+
+  constructor(message: string, statusCode: HttpStatusCode) {
+    super(message);
+    this.name = 'AclError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function toAclNode(target: AclTarget, id: string | null): AclNode {
+  return target === 'file' ? { fileId: id } : { folderId: id };
+}
+
+// Entradas do próprio usuário ou de grupos dos quais ele é membro
+function applicableTo(userId: string): SQL {
+  return sql`(
+    e.user_id = ${userId}
+    or e.group_id in (select group_id from group_members where user_id = ${userId})
+  )`;
+}
+
+/**
+ * Nível do usuário em cada nó com entradas aplicáveis: a entrada do
+ * próprio usuário prevalece sobre as dos grupos no mesmo nó e, entre
+ * grupos, vale o maior nível
+ */
+function resolvedLevels(userId: string, column: 'file_id' | 'folder_id'): SQL {
+  const nodeColumn = sql.raw(`e.${column}`);
+
+  return sql`
+    select
+      ${nodeColumn} as id,
+      coalesce(
+        max(e.level) filter (where e.user_id = ${userId}),
+        max(e.level)
+      ) as level
+    from acl_entries e
+    where ${nodeColumn} is not null and ${applicableTo(userId)}
+    group by ${nodeColumn}
+  `;
+}
+
+/**
+ * Pastas cobertas por entradas aplicáveis ao usuário, com o nível herdado
+ * do nó mais próximo. Pastas fora do resultado usam o nível do papel.
+ */
+function scopedFolderIds(
+  userId: string,
+  comparison: 'below' | 'atLeast',
+  level: AccessLevel
+): SQL {
+  const operator = comparison === 'below' ? sql.raw('<') : sql.raw('>=');
+
+  return sql`
+    with recursive applicable as (
+      ${resolvedLevels(userId, 'folder_id')}
+    ),
+    scoped as (
+      select id, level, array[id] as path
+      from applicable
+      union all
+      select f.id, s.level, s.path || f.id
+      from folders f
+      join scoped s on f.parent_id = s.id
+      where not f.id = any(s.path)
+        and not exists (select 1 from applicable a where a.id = f.id)
+    )
+    select id from scoped where level ${operator} ${level}::access_level
+  `;
+}
+
+/**
+ * Permissões por arquivo e pasta. O nível de um usuário sobre um nó vem do
+ * nó mais próximo no caminho até a raiz (o próprio arquivo, sua pasta e os
+ * ancestrais dela) com entradas para ele ou para seus grupos ou, sem
+ * entradas, do seu papel. Administradores têm sempre acesso total.
+ */
+export class AclService {
+  private readonly logService = new LogService();
+
+  async getEffectiveAccess(
+    user: AclPrincipal,
+    node: AclNode
+  ): Promise<EffectiveAccess> {
+    if (user.role === 'admin') {
+      return this.toEffectiveAccess('manage', 'admin', null, false);
+    }
+
+    let folderId = node.folderId ?? null;
+
+    if (node.fileId) {
+      const [fileEntry] = await db
+        .select()
+        .from(aclEntries)
+        .where(
+          and(
+            eq(aclEntries.fileId, node.fileId),
+            this.applicableEntries(user.id)
+          )
+        )
+        .orderBy(sql`${aclEntries.userId} is null`, desc(aclEntries.level))
+        .limit(1);
+
+      if (fileEntry) {
+        return this.toEffectiveAccess(
+          fileEntry.level,
+          'entry',
+          fileEntry,
+          false
+        );
+      }
+
+      const [file] = await db
+        .select({ folderId: files.folderId })
+        .from(files)
+        .where(eq(files.id, node.fileId));
+      folderId = file?.folderId ?? null;
+    }
+
+    const folderEntry = folderId
+      ? await this.findClosestFolderEntry(user.id, folderId)
+      : null;
+
+    if (folderEntry) {
+      return this.toEffectiveAccess(
+        folderEntry.level,
+        'entry',
+        folderEntry,
+        Boolean(node.fileId) || folderEntry.folderId !== node.folderId
+      );
+    }
+
+    return this.toEffectiveAccess(
+      ROLE_ACCESS_LEVELS[user.role],
+      'role',
+      null,
+      false
+    );
+  }
+
+  async hasAccess(
+    user: AclPrincipal,
+    node: AclNode,
+    required: AccessLevel
+  ): Promise<boolean> {
+    const { level } = await this.getEffectiveAccess(user, node);
+    return hasAccessLevel(level, required);
+  }
+
+  async assertAccess(
+    user: AclPrincipal,
+    node: AclNode,
+    required: AccessLevel
+  ): Promise<void> {
+    if (!(await this.hasAccess(user, node, required))) {
+      throw new AclError(
+        'Você não tem permissão para acessar este item',
+        HTTP_STATUS.FORBIDDEN
+      );
+    }
+  }
+
+  /**
+   * Condição que restringe uma consulta às pastas em que o usuário tem o
+   * nível informado. Retorna undefined quando não há restrição.
+   */
+  readableFolders(
+    user: AclPrincipal,
+    column: SQLWrapper = folders.id,
+    required: AccessLevel = 'read'
+  ): SQL | undefined {
+    if (user.role === 'admin') {
+      return;
+    }
+
+    return hasAccessLevel(ROLE_ACCESS_LEVELS[user.role], required)
+      ? sql`${column} not in (${scopedFolderIds(user.id, 'below', required)})`
+      : sql`${column} in (${scopedFolderIds(user.id, 'atLeast', required)})`;
+  }
+
+  /**
+   * Condição equivalente para arquivos: a entrada do próprio arquivo tem
+   * precedência sobre o nível da pasta em que ele está
+   */
+  readableFiles(
+    user: AclPrincipal,
+    required: AccessLevel = 'read'
+  ): SQL | undefined {
+    if (user.role === 'admin') {
+      return;
+    }
+
+    const fileEntryIds = (condition: SQL) => sql`
+      select id from (${resolvedLevels(user.id, 'file_id')}) r
+      where ${condition}
+    `;
+
+    const folderCondition = hasAccessLevel(
+      ROLE_ACCESS_LEVELS[user.role],
+      required
+    )
+      ? sql`(${files.folderId} is null or ${files.folderId} not in (${scopedFolderIds(user.id, 'below', required)}))`
+      : sql`${files.folderId} in (${scopedFolderIds(user.id, 'atLeast', required)})`;
+
+    return sql`(
+      ${files.id} in (${fileEntryIds(sql`level >= ${required}::access_level`)})
+      or (
+        ${files.id} not in (${fileEntryIds(sql`true`)})
+        and ${folderCondition}
+      )
+    )`;
+  }
+
+  listEntries(node: AclNode): Promise<AclEntryRecord[]> {
+    return db
+      .select()
+      .from(aclEntries)
+      .where(this.nodeCondition(node))
+      .orderBy(aclEntries.createdAt);
+  }
+
+  /**
+   * Cria ou substitui a entrada do usuário ou grupo no nó e registra a
+   * alteração como `permission_change`
+   */
+  async setEntry(
+    node: AclNode,
+    subject: AclSubject,
+    level: AccessLevel,
+    actor: AuthenticatedUser
+  ): Promise<AclEntryRecord> {
+    await this.assertNodeExists(node);
+    await this.assertSubjectExists(subject);
+
+    return db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(aclEntries)
+        .where(and(this.nodeCondition(node), this.subjectCondition(subject)));
+
+      const [entry] = current
+        ? await tx
+            .update(aclEntries)
+            .set({ level, updatedAt: new Date() })
+            .where(eq(aclEntries.id, current.id))
+            .returning()
+        : await tx
+            .insert(aclEntries)
+            .values({
+              fileId: node.fileId ?? null,
+              folderId: node.folderId ?? null,
+              userId: 'userId' in subject ? subject.userId : null,
+              groupId: 'groupId' in subject ? subject.groupId : null,
+              level,
+              createdBy: actor.id,
+            })
+            .returning();
+
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: 'permission_change',
+          fileId: entry.fileId,
+          folderId: entry.folderId,
+          targetUserId: entry.userId,
+          details: {
+            ...(entry.groupId && { groupId: entry.groupId }),
+            before: { level: current?.level ?? null },
+            after: { level },
+          },
+        },
+        tx
+      );
+
+      return entry;
+    });
+  }
+
+  /**
+   * Remove a entrada do usuário ou grupo no nó, que volta a herdar o nível
+   * da pasta acima. Retorna false se não houver entrada.
+   */
+  removeEntry(
+    node: AclNode,
+    subject: AclSubject,
+    actor: AuthenticatedUser
+  ): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [removed] = await tx
+        .delete(aclEntries)
+        .where(and(this.nodeCondition(node), this.subjectCondition(subject)))
+        .returning();
+
+      if (!removed) {
+        return false;
+      }
+
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: 'permission_change',
+          fileId: removed.fileId,
+          folderId: removed.folderId,
+          targetUserId: removed.userId,
+          details: {
+            ...(removed.groupId && { groupId: removed.groupId }),
+            before: { level: removed.level },
+            after: { level: null },
+          },
+        },
+        tx
+      );
+
+      return true;
+    });
+  }
+
+  private async findClosestFolderEntry(
+    userId: string,
+    folderId: string
+  ): Promise<AclEntryRecord | null> {
+    const [closest] = await db.execute<{ id: string }>(sql`
+      with recursive ancestors as (
+        select id, parent_id, 0 as distance, array[id] as path
+        from folders
+        where id = ${folderId}
+        union all
+        select f.id, f.parent_id, a.distance + 1, a.path || f.id
+        from folders f
+        join ancestors a on f.id = a.parent_id
+        where not f.id = any(a.path)
+      )
+      select e.id
+      from acl_entries e
+      join ancestors a on e.folder_id = a.id
+      where ${applicableTo(userId)}
+      order by a.distance, e.user_id is null, e.level desc
+      limit 1
+    `);
+
+    if (!closest) {
+      return null;
+    }
+
+    const [entry] = await db
+      .select()
+      .from(aclEntries)
+      .where(eq(aclEntries.id, closest.id));
+
+    return entry ?? null;
+  }
+
+  private applicableEntries(userId: string): SQL | undefined {
+    return or(
+      eq(aclEntries.userId, userId),
+      inArray(
+        aclEntries.groupId,
+        db
+          .select({ groupId: groupMembers.groupId })
+          .from(groupMembers)
+          .where(eq(groupMembers.userId, userId))
+      )
+    );
+  }
+
+  private subjectCondition(subject: AclSubject): SQL {
+    return 'userId' in subject
+      ? eq(aclEntries.userId, subject.userId)
+      : eq(aclEntries.groupId, subject.groupId);
+  }
+
+  private nodeCondition(node: AclNode): SQL {
+    return node.fileId
+      ? eq(aclEntries.fileId, node.fileId)
+      : eq(aclEntries.folderId, node.folderId as string);
+  }
+
+  private async assertNodeExists(node: AclNode) {
+    const [found] = node.fileId
+      ? await db
+          .select({ id: files.id })
+          .from(files)
+          .where(eq(files.id, node.fileId))
+      : await db
+          .select({ id: folders.id })
+          .from(folders)
+          .where(eq(folders.id, node.folderId as string));
+
+    if (!found) {
+      throw new AclError(
+        node.fileId ? 'Arquivo não encontrado' : 'Pasta não encontrada',
+        HTTP_STATUS.NOT_FOUND
+      );
+    }
+  }
+
+  private async assertSubjectExists(subject: AclSubject) {
+    const [found] =
+      'userId' in subject
+        ? await db
+            .select({ id: users.id })
+            .from(users)
+            .where(eq(users.id, subject.userId))
+        : await db
+            .select({ id: groups.id })
+            .from(groups)
+            .where(eq(groups.id, subject.groupId));
+
+    if (!found) {
+      throw new AclError(
+        'userId' in subject ? 'Usuário não encontrado' : 'Grupo não encontrado',
+        HTTP_STATUS.NOT_FOUND
+      );
+    }
+  }
+
+  private toEffectiveAccess(
+    level: AccessLevel,
+    source: EffectiveAccess['source'],
+    entry: AclEntryRecord | null,
+    inherited: boolean
+  ): EffectiveAccess {
+    return {
+      level,
+      source,
+      entry,
+      inherited,
+      permissions: getAccessLevelPermissions(level),
+    };
+  }
+}
@@ -0,0 +1,258 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import { and, eq, isNull } from 'drizzle-orm';
+import { type DbExecutor, db } from '../../db/connection.ts';
+import { refreshTokens } from '../../db/schema/refresh-tokens.ts';
+import { users } from '../../db/schema/users.ts';
+import { env } from '../../env.ts';
+import type { AuthenticatedUser, AuthTokens } from '../../types/auth.ts';
+import { logger } from '../../utils/logger.ts';
+import { LogService } from '../log.service.ts';
+import { signJwt, verifyJwt } from './jwt.ts';
+import {
+  hashPassword,
+  needsRehash,
+  verifyLegacyPassword,
+  verifyPassword,
+} from './password.ts';
+
+export class AuthenticationError extends Error {
+  constructor(message = 'Credenciais inválidas') {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export interface LoginResult extends AuthTokens {
+  user: AuthenticatedUser & { name: string };
+}
+
+let dummyPasswordHash: Promise<string> | undefined;
+
+/**
+ * Hash usado quando o e-mail não existe, para que o login leve o mesmo
+ * tempo e não revele quais e-mails estão cadastrados
+ */
+function getDummyPasswordHash(): Promise<string> {
+  dummyPasswordHash ??= hashPassword(randomBytes(32).toString('base64url'));
+  return dummyPasswordHash;
+}
+
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export class AuthService {
+  private readonly logService = new LogService();
+
+  async login(email: string, password: string): Promise<LoginResult> {
+    const [user] = await db
+      .select({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        role: users.role,
+        passwordHash: users.passwordHash,
+        legacyPassword: users.legacyPassword,
+      })
+      .from(users)
+      .where(eq(users.email, email));
+
+    if (!user) {
+      await verifyPassword(password, await getDummyPasswordHash());
+      logger.warn(`Tentativa de login inválida para ${email}`);
+      throw new AuthenticationError();
+    }
+
+    const validPassword = user.legacyPassword
+      ? verifyLegacyPassword(password, user.passwordHash)
+      : await verifyPassword(password, user.passwordHash);
+
+    if (!validPassword) {
+      logger.warn(`Tentativa de login inválida para ${email}`);
+      throw new AuthenticationError();
+    }
+
+    if (user.legacyPassword || needsRehash(user.passwordHash)) {
+      await db
+        .update(users)
+        .set({
+          passwordHash: await hashPassword(password),
+          legacyPassword: false,
+        })
+        .where(eq(users.id, user.id));
+      logger.info(`Hash de senha atualizado para o usuário ${user.id}`);
+    }
+
+    const authenticatedUser = {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+    };
+    const { tokens } = await this.issueTokens(authenticatedUser, randomUUID());
+
+    await this.logService.record({ userId: user.id, actionType: 'login' });
+
+    return { ...tokens, user: { ...authenticatedUser, name: user.name } };
+  }
+
+  /**
+   * Troca um refresh token válido por um novo par de tokens.
+   * O token apresentado é revogado; reutilizar um token já revogado
+   * invalida toda a família de tokens daquela sessão.
+   */
+  async refresh(refreshToken: string): Promise<AuthTokens> {
+    const [stored] = await db
+      .select()
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, hashRefreshToken(refreshToken)));
+
+    if (!stored) {
+      throw new AuthenticationError('Refresh token inválido');
+    }
+
+    if (stored.revokedAt) {
+      logger.warn(
+        `Reuso de refresh token detectado - revogando família ${stored.familyId}`
+      );
+      await this.revokeFamily(stored.familyId);
+      throw new AuthenticationError('Refresh token inválido');
+    }
+
+    if (stored.expiresAt <= new Date()) {
+      throw new AuthenticationError('Refresh token expirado');
+    }
+
+    const [user] = await db
+      .select({ id: users.id, email: users.email, role: users.role })
+      .from(users)
+      .where(eq(users.id, stored.userId));
+
+    if (!user) {
+      await this.revokeFamily(stored.familyId);
+      throw new AuthenticationError('Usuário não encontrado');
+    }
+
+    return await db.transaction(async (tx) => {
+      // Revogação condicional evita que duas renovações concorrentes
+      // usem o mesmo token
+      const revoked = await tx
+        .update(refreshTokens)
+        .set({ revokedAt: new Date() })
+        .where(
+          and(eq(refreshTokens.id, stored.id), isNull(refreshTokens.revokedAt))
+        )
+        .returning({ id: refreshTokens.id });
+
+      if (revoked.length === 0) {
+        throw new AuthenticationError('Refresh token inválido');
+      }
+
+      const { tokens, refreshTokenId } = await this.issueTokens(
+        user,
+        stored.familyId,
+        tx
+      );
+
+      await tx
+        .update(refreshTokens)
+        .set({ replacedById: refreshTokenId })
+        .where(eq(refreshTokens.id, stored.id));
+
+      return tokens;
+    });
+  }
+
+  /**
+   * Encerra a sessão revogando todos os refresh tokens da família
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const [stored] = await db
+      .select({
+        familyId: refreshTokens.familyId,
+        userId: refreshTokens.userId,
+      })
+      .from(refreshTokens)
+      .where(eq(refreshTokens.tokenHash, hashRefreshToken(refreshToken)));
+
+    if (stored) {
+      await this.revokeFamily(stored.familyId);
+      await this.logService.record({
+        userId: stored.userId,
+        actionType: 'logout',
+      });
+    }
+  }
+
+  /**
+   * Encerra todas as sessões do usuário, por exemplo após a troca de senha
+   */
+  async revokeAllSessions(
+    userId: string,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    await executor
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt))
+      );
+  }
+
+  verifyAccessToken(token: string): AuthenticatedUser | null {
+    const payload = verifyJwt(token, env.JWT_SECRET);
+    if (!payload || typeof payload.email !== 'string') {
+      return null;
+    }
+
+    return {
+      id: payload.sub,
+      email: payload.email,
+      role: payload.role as AuthenticatedUser['role'],
+    };
+  }
+
+  private async issueTokens(
+    user: AuthenticatedUser,
+    familyId: string,
+    executor: Pick<typeof db, 'insert'> = db
+  ): Promise<{ tokens: AuthTokens; refreshTokenId: string }> {
+    const accessToken = signJwt(
+      { sub: user.id, email: user.email, role: user.role },
+      env.JWT_SECRET,
+      env.JWT_ACCESS_TOKEN_TTL
+    );
+    const refreshToken = randomBytes(48).toString('base64url');
+
+    const [stored] = await executor
+      .insert(refreshTokens)
+      .values({
+        userId: user.id,
+        tokenHash: hashRefreshToken(refreshToken),
+        familyId,
+        expiresAt: new Date(Date.now() + env.JWT_REFRESH_TOKEN_TTL * 1000),
+      })
+      .returning({ id: refreshTokens.id });
+
+    return {
+      tokens: {
+        accessToken,
+        refreshToken,
+        tokenType: 'Bearer',
+        expiresIn: env.JWT_ACCESS_TOKEN_TTL,
+      },
+      refreshTokenId: stored.id,
+    };
+  }
+
+  private async revokeFamily(familyId: string): Promise<void> {
+    await db
+      .update(refreshTokens)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(refreshTokens.familyId, familyId),
+          isNull(refreshTokens.revokedAt)
+        )
+      );
+  }
+}
@@ -0,0 +1,82 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export interface JwtPayload {
+  sub: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+const JWT_HEADER = { alg: 'HS256', typ: 'JWT' } as const;
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function sign(content: string, secret: string): string {
+  return createHmac('sha256', secret).update(content).digest('base64url');
+}
+
+/**
+ * Assina um JWT HS256 com expiração em segundos a partir de agora
+ */
+export function signJwt(
+  claims: Record<string, unknown> & { sub: string },
+  secret: string,
+  expiresInSeconds: number
+): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const payload: JwtPayload = { ...claims, iat, exp: iat + expiresInSeconds };
+  const content = `${encodeSegment(JWT_HEADER)}.${encodeSegment(payload)}`;
+
+  return `${content}.${sign(content, secret)}`;
+}
+
+/**
+ * Valida assinatura e expiração de um JWT HS256.
+ * Retorna null para qualquer token inválido, malformado ou expirado.
+ */
+export function verifyJwt(token: string, secret: string): JwtPayload | null {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return null;
+  }
+
+  const [encodedHeader, encodedPayload, signature] = segments;
+  const expected = Buffer.from(
+    sign(`${encodedHeader}.${encodedPayload}`, secret)
+  );
+  const received = Buffer.from(signature);
+
+  if (
+    expected.length !== received.length ||
+    !timingSafeEqual(expected, received)
+  ) {
+    return null;
+  }
+
+  try {
+    const header = JSON.parse(
+      Buffer.from(encodedHeader, 'base64url').toString()
+    );
+    if (header.alg !== JWT_HEADER.alg) {
+      return null;
+    }
+
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString()
+    ) as JwtPayload;
+
+    if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+      return null;
+    }
+
+    if (payload.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,69 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  hashPassword,
+  needsRehash,
+  verifyLegacyPassword,
+  verifyPassword,
+} from './password.ts';
+
+const HASH_FORMAT_REGEX = /^scrypt\$32768\$8\$1\$[^$]+\$[^$]+$/;
+
+describe('senhas', () => {
+  it('gera hashes no formato do scrypt com salt aleatório', async () => {
+    const first = await hashPassword('senha-secreta');
+    const second = await hashPassword('senha-secreta');
+
+    assert.match(first, HASH_FORMAT_REGEX);
+    assert.notEqual(first, second);
+  });
+
+  it('confere apenas a senha correta', async () => {
+    const hash = await hashPassword('senha-secreta');
+
+    assert.equal(await verifyPassword('senha-secreta', hash), true);
+    assert.equal(await verifyPassword('senha-errada', hash), false);
+  });
+
+  it('recusa valores fora do formato do scrypt', async () => {
+    assert.equal(await verifyPassword('senha', 'senha'), false);
+    assert.equal(await verifyPassword('x', 'scrypt$0$8$1$a$b'), false);
+  });
+
+  it('compara valores legados apenas por igualdade exata', () => {
+    assert.equal(verifyLegacyPassword('senha', 'senha'), true);
+    assert.equal(verifyLegacyPassword('senha', 'senhas'), false);
+    assert.equal(verifyLegacyPassword('Senha', 'senha'), false);
+  });
+
+  it('confere hashes gerados com outros parâmetros e pede para regerá-los', async () => {
+    const hash = await hashPassword('senha-secreta');
+    const salt = hash.split('$')[4];
+    const weaker = await hashWithCost('senha-secreta', 2 ** 14, salt);
+
+    assert.equal(needsRehash(hash), false);
+    assert.equal(await verifyPassword('senha-secreta', weaker), true);
+    assert.equal(needsRehash(weaker), true);
+    assert.equal(needsRehash('senha-legada'), true);
+  });
+});
+
+// Reproduz o formato do hash com um custo diferente do atual
+async function hashWithCost(
+  password: string,
+  N: number,
+  salt: string
+): Promise<string> {
+  const { scrypt } = await import('node:crypto');
+  const key = await new Promise<Buffer>((resolve, reject) => {
+    scrypt(
+      password,
+      Buffer.from(salt, 'base64'),
+      64,
+      { N },
+      (error, derived) => (error ? reject(error) : resolve(derived))
+    );
+  });
+
+  return ['scrypt', N, 8, 1, salt, key.toString('base64')].join('$');
+}
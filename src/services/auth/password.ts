@@ -0,0 +1,142 @@
+import {
+  randomBytes,
+  type ScryptOptions,
+  scrypt,
+  timingSafeEqual,
+} from 'node:crypto';
+
+const HASH_PREFIX = 'scrypt';
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Parâmetros atuais do scrypt. Alterá-los faz com que hashes antigos
+ * sejam regerados de forma transparente no próximo login.
+ */
+const SCRYPT_PARAMS = {
+  N: 2 ** 15,
+  r: 8,
+  p: 1,
+} as const;
+
+interface ParsedHash {
+  N: number;
+  r: number;
+  p: number;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+function deriveKey(
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+  options: ScryptOptions
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      password,
+      salt,
+      keyLength,
+      // maxmem precisa acomodar 128 * N * r bytes
+      { ...options, maxmem: 256 * (options.N ?? 0) * (options.r ?? 0) },
+      (error, derivedKey) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve(derivedKey);
+      }
+    );
+  });
+}
+
+// Formato: scrypt$N$r$p$salt$hash (salt e hash em base64)
+function parseHash(storedHash: string): ParsedHash | null {
+  const parts = storedHash.split('$');
+  if (parts.length !== 6 || parts[0] !== HASH_PREFIX) {
+    return null;
+  }
+
+  const [N, r, p] = parts.slice(1, 4).map(Number);
+  if (![N, r, p].every((value) => Number.isInteger(value) && value > 0)) {
+    return null;
+  }
+
+  return {
+    N,
+    r,
+    p,
+    salt: Buffer.from(parts[4], 'base64'),
+    hash: Buffer.from(parts[5], 'base64'),
+  };
+}
+
+/**
+ * Gera o hash da senha com scrypt e salt aleatório por usuário
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await deriveKey(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+
+  return [
+    HASH_PREFIX,
+    SCRYPT_PARAMS.N,
+    SCRYPT_PARAMS.r,
+    SCRYPT_PARAMS.p,
+    salt.toString('base64'),
+    hash.toString('base64'),
+  ].join('$');
+}
+
+/**
+ * Compara a senha informada com o hash armazenado em tempo constante.
+ * Valores fora do formato do scrypt nunca conferem.
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const parsed = parseHash(storedHash);
+
+  if (!parsed) {
+    return false;
+  }
+
+  const candidate = await deriveKey(password, parsed.salt, parsed.hash.length, {
+    N: parsed.N,
+    r: parsed.r,
+    p: parsed.p,
+  });
+
+  return timingSafeEqual(candidate, parsed.hash);
+}
+
+/**
+ * Compara a senha com um valor legado gravado sem hash. Só deve ser usada
+ * para contas marcadas como legadas, até que o hash seja gerado.
+ */
+export function verifyLegacyPassword(
+  password: string,
+  storedValue: string
+): boolean {
+  const provided = Buffer.from(password);
+  const stored = Buffer.from(storedValue);
+
+  return provided.length === stored.length && timingSafeEqual(provided, stored);
+}
+
+/**
+ * Indica se o hash foi gerado com parâmetros diferentes dos atuais
+ */
+export function needsRehash(storedHash: string): boolean {
+  const parsed = parseHash(storedHash);
+
+  return (
+    !parsed ||
+    parsed.N !== SCRYPT_PARAMS.N ||
+    parsed.r !== SCRYPT_PARAMS.r ||
+    parsed.p !== SCRYPT_PARAMS.p ||
+    parsed.hash.length !== KEY_LENGTH
+  );
+}
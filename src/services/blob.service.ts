@@ -0,0 +1,151 @@
+import { and, count, eq, lte, sql } from 'drizzle-orm';
+import { type DbExecutor, db } from '../db/connection.ts';
+import { blobs } from '../db/schema/blobs.ts';
+import { files } from '../db/schema/files.ts';
+import { logger } from '../utils/logger.ts';
+import { getStorageProvider } from './storage/storage.factory.ts';
+import type { UploadResult } from './storage/storage-provider.interface.ts';
+
+export interface RegisteredBlob {
+  blobId: string;
+  storagePath: string;
+  deduplicated: boolean;
+}
+
+export interface BlobReference {
+  blobId: string | null;
+  storagePath: string;
+}
+
+export interface DeduplicationReport {
+  blobCount: number;
+  fileCount: number;
+  storedBytes: string;
+  logicalBytes: string;
+  savedBytes: string;
+}
+
+/**
+ * Gerencia blobs endereçados por conteúdo (SHA-256) com contagem de
+ * referências, permitindo que vários arquivos apontem para o mesmo objeto.
+ */
+export class BlobService {
+  private readonly storageProvider = getStorageProvider();
+
+  /**
+   * Registra o conteúdo recém-enviado como uma referência ao blob do seu
+   * checksum. Se o conteúdo já existia, o objeto duplicado é removido do
+   * storage e a referência aponta para o blob existente.
+   */
+  async register(
+    upload: UploadResult,
+    executor: DbExecutor = db
+  ): Promise<RegisteredBlob> {
+    const [blob] = await executor
+      .insert(blobs)
+      .values({
+        checksum: upload.checksum,
+        storagePath: upload.storagePath,
+        size: BigInt(upload.size),
+        referenceCount: 1,
+      })
+      .onConflictDoUpdate({
+        target: blobs.checksum,
+        set: { referenceCount: sql`${blobs.referenceCount} + 1` },
+      })
+      .returning({ id: blobs.id, storagePath: blobs.storagePath });
+
+    const deduplicated = blob.storagePath !== upload.storagePath;
+
+    if (deduplicated) {
+      logger.info(
+        `Conteúdo duplicado (${upload.checksum}) - reutilizando ${blob.storagePath}`
+      );
+      await this.storageProvider.delete(upload.storagePath);
+    }
+
+    return { blobId: blob.id, storagePath: blob.storagePath, deduplicated };
+  }
+
+  /**
+   * Adiciona uma referência a um blob existente
+   */
+  async acquire(blobId: string, executor: DbExecutor = db): Promise<void> {
+    await executor
+      .update(blobs)
+      .set({ referenceCount: sql`${blobs.referenceCount} + 1` })
+      .where(eq(blobs.id, blobId));
+  }
+
+  /**
+   * Remove uma referência. Retorna o caminho no storage quando era a última
+   * referência, para que o objeto seja apagado após o commit da transação.
+   * Arquivos legados sem blob são sempre donos exclusivos do seu caminho.
+   */
+  async release(
+    reference: BlobReference,
+    executor: DbExecutor = db
+  ): Promise<string | null> {
+    if (!reference.blobId) {
+      return reference.storagePath;
+    }
+
+    await executor
+      .update(blobs)
+      .set({ referenceCount: sql`${blobs.referenceCount} - 1` })
+      .where(eq(blobs.id, reference.blobId));
+
+    const [removed] = await executor
+      .delete(blobs)
+      .where(and(eq(blobs.id, reference.blobId), lte(blobs.referenceCount, 0)))
+      .returning({ storagePath: blobs.storagePath });
+
+    return removed?.storagePath ?? null;
+  }
+
+  /**
+   * Apaga objetos do storage de forma idempotente, registrando falhas
+   * sem interromper as demais remoções
+   */
+  async deleteStoredObjects(storagePaths: string[]): Promise<void> {
+    const results = await Promise.allSettled(
+      storagePaths.map((storagePath) =>
+        this.storageProvider.delete(storagePath)
+      )
+    );
+
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'rejected') {
+        logger.error(
+          `Falha ao remover objeto do storage: ${storagePaths[index]}`,
+          result.reason
+        );
+      }
+    }
+  }
+
+  async getDeduplicationReport(): Promise<DeduplicationReport> {
+    const [blobTotals] = await db
+      .select({
+        blobCount: count(),
+        storedBytes: sql<string>`coalesce(sum(${blobs.size}), 0)::text`,
+        logicalBytes: sql<string>`coalesce(sum(${blobs.size} * ${blobs.referenceCount}), 0)::text`,
+      })
+      .from(blobs);
+
+    const [fileTotals] = await db
+      .select({ fileCount: count() })
+      .from(files)
+      .innerJoin(blobs, eq(files.blobId, blobs.id));
+
+    return {
+      blobCount: blobTotals.blobCount,
+      fileCount: fileTotals.fileCount,
+      storedBytes: blobTotals.storedBytes,
+      logicalBytes: blobTotals.logicalBytes,
+      savedBytes: (
+        BigInt(blobTotals.logicalBytes) - BigInt(blobTotals.storedBytes)
+      ).toString(),
+    };
+  }
+}
@@ -1,7 +1,16 @@
 import type { MultipartFile } from '@fastify/multipart';
-import { createHash } from 'node:crypto';
 import { logger } from '../utils/logger.ts';
-import type { UploadResult } from './storage/storage-provider.interface.ts';
+import { BlobService } from './blob.service.ts';
+import { QuotaExceededError } from './quota.service.ts';
+import {
+  type ByteBudget,
+  ByteLimitStream,
+} from './storage/byte-limit-stream.ts';
+import { normalizeSha256 } from './storage/checksum-stream.ts';
+import type {
+  SignedUrlOptions,
+  UploadResult,
+} from './storage/storage-provider.interface.ts';
 import { getStorageProvider } from './storage/storage.factory.ts';
 
 export interface FileMetadata {
@@ -12,13 +21,39 @@ export interface FileMetadata {
 }
 
 export interface UploadFileResult extends UploadResult {
-  checksum: string;
+  blobId: string;
+  deduplicated: boolean;
+}
+
+export interface UploadFileOptions {
+  /** SHA-256 esperado pelo cliente (hex ou `sha-256=<base64>`) */
+  expectedChecksum?: string;
+  /** Espaço livre na cota; o upload é interrompido ao ultrapassá-lo */
+  budget?: ByteBudget;
+}
+
+export class ChecksumMismatchError extends Error {
+  readonly expected: string;
+  readonly actual: string;
+
+  constructor(expected: string, actual: string) {
+    super(
+      `Checksum do arquivo não confere: esperado ${expected}, recebido ${actual}`
+    );
+    this.name = 'ChecksumMismatchError';
+    this.expected = expected;
+    this.actual = actual;
+  }
 }
 
 export class FileUploadService {
   private readonly storageProvider = getStorageProvider();
+  private readonly blobService = new BlobService();
 
-  async uploadFile(file: MultipartFile): Promise<UploadFileResult> {
+  uploadFile(
+    file: MultipartFile,
+    options: UploadFileOptions = {}
+  ): Promise<UploadFileResult> {
     logger.info(`Iniciando upload do arquivo: ${file.filename}`);
 
     // Validações básicas
@@ -34,13 +69,35 @@ export class FileUploadService {
 
     logger.info(`Arquivo: ${file.filename}, tipo: ${file.mimetype}`);
 
+    return this.uploadStream(file.file, file.filename, file.mimetype, options);
+  }
+
+  /**
+   * Envia um stream ao storage verificando o checksum esperado e
+   * registrando o conteúdo como blob deduplicado
+   */
+  async uploadStream(
+    stream: NodeJS.ReadableStream,
+    fileName: string,
+    mimeType: string,
+    options: UploadFileOptions = {}
+  ): Promise<UploadFileResult> {
+    const expectedChecksum = options.expectedChecksum
+      ? normalizeSha256(options.expectedChecksum)
+      : null;
+    if (options.expectedChecksum && !expectedChecksum) {
+      throw new Error(
+        'Checksum informado inválido: use SHA-256 em hexadecimal'
+      );
+    }
+
     try {
       // Fazer upload direto sem carregar tudo na memória
       logger.info('Fazendo upload usando storage provider');
       const uploadResult = await this.storageProvider.upload(
-        file.file,
-        file.filename,
-        file.mimetype,
+        options.budget ? this.limitStream(stream, options.budget) : stream,
+        fileName,
+        mimeType,
         0 // Tamanho será calculado durante o upload
       );
 
@@ -48,14 +105,22 @@ export class FileUploadService {
         `Upload concluído - caminho: ${uploadResult.storagePath}, tamanho: ${uploadResult.size} bytes`
       );
 
-      // Gerar checksum baseado no arquivo e timestamp para performance
-      const checksum = createHash('sha256')
-        .update(`${file.filename}_${uploadResult.size}_${Date.now()}`)
-        .digest('hex');
+      if (expectedChecksum && expectedChecksum !== uploadResult.checksum) {
+        await this.storageProvider.delete(uploadResult.storagePath);
+        throw new ChecksumMismatchError(
+          expectedChecksum,
+          uploadResult.checksum
+        );
+      }
+
+      // Conteúdo idêntico já armazenado é reaproveitado
+      const blob = await this.blobService.register(uploadResult);
 
       return {
         ...uploadResult,
-        checksum,
+        storagePath: blob.storagePath,
+        blobId: blob.blobId,
+        deduplicated: blob.deduplicated,
       };
     } catch (error) {
       logger.error('Erro durante o upload do arquivo:', error);
@@ -67,8 +132,19 @@ export class FileUploadService {
     return this.storageProvider.delete(storagePath);
   }
 
-  getFileUrl(storagePath: string): Promise<string> {
-    return this.storageProvider.getUrl(storagePath);
+  /**
+   * Desfaz um upload que não chegou a ser persistido, liberando a
+   * referência ao blob (o objeto só é apagado se não houver outras)
+   */
+  async discardUpload(uploadResult: UploadFileResult): Promise<void> {
+    const storagePath = await this.blobService.release(uploadResult);
+    if (storagePath) {
+      await this.blobService.deleteStoredObjects([storagePath]);
+    }
+  }
+
+  getFileUrl(storagePath: string, options?: SignedUrlOptions): Promise<string> {
+    return this.storageProvider.getUrl(storagePath, options);
   }
 
   fileExists(storagePath: string): Promise<boolean> {
@@ -102,4 +178,20 @@ export class FileUploadService {
       .replace(/_{2,}/g, '_')
       .replace(/^_+|_+$/g, '');
   }
+
+  private limitStream(
+    stream: NodeJS.ReadableStream,
+    budget: ByteBudget
+  ): NodeJS.ReadableStream {
+    const limited = new ByteLimitStream(budget, () => new QuotaExceededError());
+
+    stream.on('error', (error) => limited.destroy(error));
+    // Descarta o restante do conteúdo para que a requisição possa terminar
+    limited.on('error', () => {
+      stream.unpipe(limited);
+      stream.resume();
+    });
+
+    return stream.pipe(limited);
+  }
 }
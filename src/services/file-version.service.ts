@@ -0,0 +1,413 @@
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { type DbExecutor, db } from '../db/connection.ts';
+import { fileVersions } from '../db/schema/file-versions.ts';
+import { files } from '../db/schema/files.ts';
+import { users } from '../db/schema/users.ts';
+import type { AuthenticatedUser } from '../types/auth.ts';
+import { BlobService } from './blob.service.ts';
+import {
+  FileUploadService,
+  type UploadFileResult,
+} from './file-upload.service.ts';
+import { LogService } from './log.service.ts';
+import { QuotaService } from './quota.service.ts';
+import { getStorageProvider } from './storage/storage.factory.ts';
+
+export type FileRecord = typeof files.$inferSelect;
+export type FileVersion = typeof fileVersions.$inferSelect;
+
+export interface FileVersionWithAuthor extends FileVersion {
+  authorName: string | null;
+  isCurrent: boolean;
+}
+
+type InitialVersionSource = Pick<
+  FileRecord,
+  | 'id'
+  | 'name'
+  | 'type'
+  | 'size'
+  | 'storagePath'
+  | 'checksum'
+  | 'blobId'
+  | 'createdAt'
+  | 'createdBy'
+>;
+
+type VersionContent = Pick<
+  FileVersion,
+  'name' | 'type' | 'size' | 'storagePath' | 'checksum' | 'blobId'
+>;
+
+/**
+ * Histórico de versões dos arquivos. Cada versão detém uma referência ao
+ * blob do seu conteúdo; o registro em `files` aponta para o conteúdo da
+ * versão atual.
+ */
+export class FileVersionService {
+  private readonly storageProvider = getStorageProvider();
+  private readonly blobService = new BlobService();
+  private readonly uploadService = new FileUploadService();
+  private readonly logService = new LogService();
+  private readonly quotaService = new QuotaService();
+
+  /**
+   * Registra a versão 1 de um arquivo recém-criado, assumindo a referência
+   * ao blob obtida no upload
+   */
+  async createInitialVersion(
+    file: InitialVersionSource,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    await executor.insert(fileVersions).values({
+      fileId: file.id,
+      versionNumber: 1,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      storagePath: file.storagePath,
+      checksum: file.checksum,
+      blobId: file.blobId,
+      createdAt: file.createdAt,
+      createdBy: file.createdBy,
+    });
+  }
+
+  async listVersions(fileId: string): Promise<FileVersionWithAuthor[] | null> {
+    const [file] = await db
+      .select({ currentVersion: files.currentVersion })
+      .from(files)
+      .where(eq(files.id, fileId));
+
+    if (!file) {
+      return null;
+    }
+
+    const versions = await db
+      .select({ version: fileVersions, authorName: users.name })
+      .from(fileVersions)
+      .leftJoin(users, eq(fileVersions.createdBy, users.id))
+      .where(eq(fileVersions.fileId, fileId))
+      .orderBy(desc(fileVersions.versionNumber));
+
+    return versions.map(({ version, authorName }) => ({
+      ...version,
+      authorName,
+      isCurrent: version.versionNumber === file.currentVersion,
+    }));
+  }
+
+  async getVersion(
+    fileId: string,
+    versionNumber: number
+  ): Promise<FileVersion | null> {
+    const [version] = await db
+      .select()
+      .from(fileVersions)
+      .where(
+        and(
+          eq(fileVersions.fileId, fileId),
+          eq(fileVersions.versionNumber, versionNumber)
+        )
+      );
+
+    return version ?? null;
+  }
+
+  /**
+   * Adiciona o conteúdo enviado como nova versão atual do arquivo.
+   * Retorna null se o arquivo não existir (o upload é descartado).
+   */
+  async addVersion(
+    fileId: string,
+    uploadResult: UploadFileResult,
+    actor: AuthenticatedUser
+  ): Promise<FileVersion | null> {
+    try {
+      const version = await db.transaction(async (tx) => {
+        const created = await this.appendVersion(
+          tx,
+          fileId,
+          {
+            name: uploadResult.originalName,
+            type: uploadResult.mimeType,
+            size: BigInt(uploadResult.size),
+            storagePath: uploadResult.storagePath,
+            checksum: uploadResult.checksum,
+            blobId: uploadResult.blobId,
+          },
+          actor
+        );
+
+        if (created) {
+          await this.logService.record(
+            {
+              userId: actor.id,
+              actionType: 'upload',
+              fileId,
+              details: { versionNumber: created.versionNumber },
+            },
+            tx
+          );
+        }
+
+        return created;
+      });
+
+      if (!version) {
+        await this.uploadService.discardUpload(uploadResult);
+      }
+
+      return version;
+    } catch (error) {
+      await this.uploadService.discardUpload(uploadResult);
+      throw error;
+    }
+  }
+
+  /**
+   * Promove uma versão anterior a atual criando uma nova versão com o
+   * mesmo conteúdo, preservando o histórico. O conteúdo já conta no uso;
+   * só versões legadas, regravadas em um novo blob, ocupam espaço novo e
+   * lançam `QuotaExceededError` se não couberem nas cotas.
+   */
+  async restoreVersion(
+    fileId: string,
+    versionNumber: number,
+    actor: AuthenticatedUser
+  ): Promise<FileVersion | null> {
+    const source = await this.getVersion(fileId, versionNumber);
+    if (!source) {
+      return null;
+    }
+
+    const [file] = await db
+      .select({
+        ownerId: files.ownerId,
+        folderId: files.folderId,
+      })
+      .from(files)
+      .where(eq(files.id, fileId));
+
+    if (!file) {
+      return null;
+    }
+
+    if (!source.blobId) {
+      await this.quotaService.assertAvailable(
+        file.ownerId,
+        file.folderId,
+        source.size
+      );
+    }
+
+    // Versões legadas sem blob são regravadas para que o conteúdo
+    // passe a ter contagem de referências
+    const legacyUpload = source.blobId
+      ? null
+      : await this.uploadService.uploadStream(
+          this.storageProvider.createReadStream(source.storagePath),
+          source.name,
+          source.type
+        );
+    const content: VersionContent = legacyUpload
+      ? {
+          name: source.name,
+          type: source.type,
+          size: BigInt(legacyUpload.size),
+          storagePath: legacyUpload.storagePath,
+          checksum: legacyUpload.checksum,
+          blobId: legacyUpload.blobId,
+        }
+      : source;
+
+    try {
+      return await db.transaction(async (tx) => {
+        if (source.blobId) {
+          await this.blobService.acquire(source.blobId, tx);
+        }
+
+        const restored = await this.appendVersion(
+          tx,
+          fileId,
+          content,
+          actor,
+          source.versionNumber
+        );
+
+        if (!restored) {
+          // A transação é desfeita, liberando a referência adquirida
+          throw new Error('Arquivo removido durante a restauração');
+        }
+
+        await this.logService.record(
+          {
+            userId: actor.id,
+            actionType: 'restore',
+            fileId,
+            details: {
+              restoredFrom: source.versionNumber,
+              versionNumber: restored.versionNumber,
+            },
+          },
+          tx
+        );
+
+        return restored;
+      });
+    } catch (error) {
+      if (legacyUpload) {
+        await this.uploadService.discardUpload(legacyUpload);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove arquivos e todas as suas versões, liberando as referências aos
+   * blobs. Retorna os caminhos no storage que ficaram sem referências, a
+   * serem apagados após o commit da transação.
+   */
+  async purgeFiles(fileIds: string[], executor: DbExecutor): Promise<string[]> {
+    if (fileIds.length === 0) {
+      return [];
+    }
+
+    const versions = await executor
+      .delete(fileVersions)
+      .where(inArray(fileVersions.fileId, fileIds))
+      .returning({
+        fileId: fileVersions.fileId,
+        blobId: fileVersions.blobId,
+        storagePath: fileVersions.storagePath,
+      });
+
+    const removedFiles = await executor
+      .delete(files)
+      .where(inArray(files.id, fileIds))
+      .returning({
+        id: files.id,
+        blobId: files.blobId,
+        storagePath: files.storagePath,
+      });
+
+    // Arquivos sem histórico ainda detêm a referência ao próprio conteúdo
+    const versionedFileIds = new Set(versions.map((version) => version.fileId));
+    const references = [
+      ...versions,
+      ...removedFiles.filter((file) => !versionedFileIds.has(file.id)),
+    ];
+
+    const storagePaths = new Set<string>();
+    for (const reference of references) {
+      // As liberações precisam ser sequenciais dentro da mesma transação
+      // biome-ignore lint/nursery/noAwaitInLoop: true
+      const storagePath = await this.blobService.release(reference, executor);
+      if (storagePath) {
+        storagePaths.add(storagePath);
+      }
+    }
+
+    return [...storagePaths];
+  }
+
+  /**
+   * Exclui o arquivo permanentemente com todo o seu histórico. Os objetos
+   * do storage sem outras referências são apagados após o commit; objetos
+   * já ausentes não geram erro. Retorna false se o arquivo não existir.
+   */
+  async deleteFile(fileId: string, actor: AuthenticatedUser): Promise<boolean> {
+    const storagePaths = await db.transaction(async (tx) => {
+      const [file] = await tx
+        .select({ id: files.id, name: files.name })
+        .from(files)
+        .where(eq(files.id, fileId))
+        .for('update');
+
+      if (!file) {
+        return null;
+      }
+
+      const removedPaths = await this.purgeFiles([fileId], tx);
+
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: 'purge',
+          fileId,
+          details: { name: file.name, storageObjects: removedPaths.length },
+        },
+        tx
+      );
+
+      return removedPaths;
+    });
+
+    if (!storagePaths) {
+      return false;
+    }
+
+    await this.blobService.deleteStoredObjects(storagePaths);
+
+    return true;
+  }
+
+  private async appendVersion(
+    executor: DbExecutor,
+    fileId: string,
+    content: VersionContent,
+    actor: AuthenticatedUser,
+    restoredFrom?: number
+  ): Promise<FileVersion | null> {
+    // Bloqueia o arquivo para serializar a numeração das versões
+    const [file] = await executor
+      .select({ currentVersion: files.currentVersion })
+      .from(files)
+      .where(eq(files.id, fileId))
+      .for('update');
+
+    if (!file) {
+      return null;
+    }
+
+    const [latest] = await executor
+      .select({ versionNumber: fileVersions.versionNumber })
+      .from(fileVersions)
+      .where(eq(fileVersions.fileId, fileId))
+      .orderBy(desc(fileVersions.versionNumber))
+      .limit(1);
+
+    const versionNumber = (latest?.versionNumber ?? file.currentVersion) + 1;
+
+    const [version] = await executor
+      .insert(fileVersions)
+      .values({
+        fileId,
+        versionNumber,
+        name: content.name,
+        type: content.type,
+        size: content.size,
+        storagePath: content.storagePath,
+        checksum: content.checksum,
+        blobId: content.blobId,
+        restoredFrom: restoredFrom ?? null,
+        createdBy: actor.id,
+      })
+      .returning();
+
+    await executor
+      .update(files)
+      .set({
+        type: content.type,
+        size: content.size,
+        storagePath: content.storagePath,
+        checksum: content.checksum,
+        blobId: content.blobId,
+        currentVersion: versionNumber,
+        updatedAt: version.createdAt,
+      })
+      .where(eq(files.id, fileId));
+
+    return version;
+  }
+}
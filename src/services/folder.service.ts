@@ -0,0 +1,844 @@
+import { and, count, eq, inArray, isNull, ne, not, or, sql } from 'drizzle-orm';
+import { type DbExecutor, db } from '../db/connection.ts';
+import { files } from '../db/schema/files.ts';
+import { folders } from '../db/schema/folders.ts';
+import { HTTP_STATUS, type HttpStatusCode } from '../types/api-response.ts';
+import type { AuthenticatedUser } from '../types/auth.ts';
+import { type AclPrincipal, AclService } from './acl.service.ts';
+import { BlobService } from './blob.service.ts';
+import { type FileRecord, FileVersionService } from './file-version.service.ts';
+import { diffChanges, LogService } from './log.service.ts';
+import { QuotaExceededError, QuotaService } from './quota.service.ts';
+
+// Limite de profundidade para evitar recursões muito longas
+export const MAX_FOLDER_TREE_DEPTH = 64;
+
+export interface FolderSummary {
+  id: string;
+  name: string;
+  parentId: string | null;
+  /** Arquivos ativos diretamente na pasta */
+  fileCount: number;
+  /** Soma em bytes dos arquivos ativos diretamente na pasta */
+  totalSize: string;
+}
+
+export interface FolderTreeNode extends FolderSummary {
+  depth: number;
+  children: FolderTreeNode[];
+}
+
+export interface SubtreeFile extends FileRecord {
+  /** Caminho relativo à pasta consultada, incluindo o nome do arquivo */
+  path: string;
+}
+
+export interface FolderTreeOptions {
+  rootId?: string;
+  maxDepth?: number;
+  /** Omite as pastas que o usuário não pode ler, junto com seus ramos */
+  readableBy?: AclPrincipal;
+}
+
+export interface SubtreeFilesOptions {
+  /** Omite as subpastas e os arquivos que o usuário não pode ler */
+  readableBy?: AclPrincipal;
+}
+
+export type FolderRecord = typeof folders.$inferSelect;
+
+export interface FolderUpdateInput {
+  name?: string;
+  /** `null` move a pasta para o nível raiz */
+  parentId?: string | null;
+}
+
+export interface FolderMoveOptions {
+  /** Renomeia para "Nome (2)", "Nome (3)"... em vez de falhar se o nome já existir no destino */
+  autoRename?: boolean;
+}
+
+export interface FolderMoveResult {
+  folder: FolderRecord;
+  renamed: boolean;
+}
+
+/**
+ * - `restrict`: só remove pastas vazias
+ * - `trash`: envia a subárvore (pastas e arquivos) para a lixeira
+ * - `purge`: remove definitivamente a subárvore e o conteúdo armazenado
+ */
+export type FolderDeletionMode = 'restrict' | 'trash' | 'purge';
+
+export interface FolderDeletionSummary {
+  mode: FolderDeletionMode;
+  folders: number;
+  files: number;
+  storageObjects: number;
+}
+
+export interface FolderRestoreSummary {
+  folders: number;
+  files: number;
+}
+
+export class FolderOperationError extends Error {
+  readonly statusCode: HttpStatusCode;
+
+  constructor(message: string, statusCode: HttpStatusCode) {
+    super(message);
+    this.name = 'FolderOperationError';
+    this.statusCode = statusCode;
+  }
+}
+
+const NUMBERED_NAME_SUFFIX_REGEX = / \((\d+)\)$/;
+
+type FolderSummaryRow = {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  file_count: number;
+  total_size: string;
+};
+
+function toFolderSummary(row: FolderSummaryRow): FolderSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    parentId: row.parent_id,
+    fileCount: row.file_count,
+    totalSize: row.total_size,
+  };
+}
+
+/**
+ * Consultas hierárquicas sobre `folders.parentId` usando CTEs recursivas.
+ * O caminho percorrido é acumulado em cada linha para interromper ciclos.
+ */
+export class FolderService {
+  private readonly logService = new LogService();
+  private readonly aclService = new AclService();
+  private readonly blobService = new BlobService();
+  private readonly fileVersionService = new FileVersionService();
+  private readonly quotaService = new QuotaService();
+
+  /**
+   * Retorna a árvore de pastas ativas a partir de `rootId` ou, sem ele, a
+   * partir das pastas de nível raiz (incluindo as que apontam para pais
+   * inexistentes). Retorna null se a raiz informada não existir.
+   */
+  async getTree(
+    options: FolderTreeOptions = {}
+  ): Promise<FolderTreeNode[] | null> {
+    const maxDepth = Math.min(
+      options.maxDepth ?? MAX_FOLDER_TREE_DEPTH,
+      MAX_FOLDER_TREE_DEPTH
+    );
+    const rootCondition = options.rootId
+      ? sql`id = ${options.rootId}`
+      : sql`parent_id is null or parent_id not in (select id from folders)`;
+    const readableRoot = options.readableBy
+      ? this.aclService.readableFolders(options.readableBy, sql`id`)
+      : undefined;
+    const readableChild = options.readableBy
+      ? this.aclService.readableFolders(options.readableBy, sql`f.id`)
+      : undefined;
+
+    const rows = await db.execute<FolderSummaryRow & { depth: number }>(sql`
+      with recursive tree as (
+        select id, name, parent_id, 0 as depth, array[id] as path
+        from folders
+        where status = 'ativo'
+          and (${rootCondition})
+          and ${readableRoot ?? sql`true`}
+        union all
+        select f.id, f.name, f.parent_id, t.depth + 1, t.path || f.id
+        from folders f
+        join tree t on f.parent_id = t.id
+        where f.status = 'ativo'
+          and t.depth < ${maxDepth}
+          and not f.id = any(t.path)
+          and ${readableChild ?? sql`true`}
+      )
+      select
+        t.id,
+        t.name,
+        t.parent_id,
+        t.depth,
+        count(fi.id)::int as file_count,
+        coalesce(sum(fi.size), 0)::text as total_size
+      from tree t
+      left join files fi on fi.folder_id = t.id and fi.status = 'ativo'
+      group by t.id, t.name, t.parent_id, t.depth
+      order by t.depth, t.name
+    `);
+
+    if (options.rootId && rows.length === 0) {
+      return null;
+    }
+
+    const nodes = new Map<string, FolderTreeNode>();
+    const roots: FolderTreeNode[] = [];
+
+    // As linhas chegam ordenadas por profundidade: o pai sempre vem antes
+    for (const row of rows) {
+      const node: FolderTreeNode = {
+        ...toFolderSummary(row),
+        depth: row.depth,
+        children: [],
+      };
+      nodes.set(node.id, node);
+
+      const parent =
+        row.depth > 0 && row.parent_id ? nodes.get(row.parent_id) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Retorna a cadeia de ancestrais da raiz até a pasta informada
+   * (breadcrumb), ou null se a pasta não existir
+   */
+  async getPath(folderId: string): Promise<FolderSummary[] | null> {
+    const rows = await db.execute<FolderSummaryRow>(sql`
+      with recursive ancestors as (
+        select id, name, parent_id, 0 as distance, array[id] as path
+        from folders
+        where id = ${folderId}
+        union all
+        select f.id, f.name, f.parent_id, a.distance + 1, a.path || f.id
+        from folders f
+        join ancestors a on f.id = a.parent_id
+        where not f.id = any(a.path)
+      )
+      select
+        a.id,
+        a.name,
+        a.parent_id,
+        count(fi.id)::int as file_count,
+        coalesce(sum(fi.size), 0)::text as total_size
+      from ancestors a
+      left join files fi on fi.folder_id = a.id and fi.status = 'ativo'
+      group by a.id, a.name, a.parent_id, a.distance
+      order by a.distance desc
+    `);
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    return rows.map(toFolderSummary);
+  }
+
+  /**
+   * Lista os arquivos ativos da pasta e de suas subpastas ativas, com o
+   * caminho de cada um relativo à pasta informada
+   */
+  async listSubtreeFiles(
+    folderId: string,
+    options: SubtreeFilesOptions = {}
+  ): Promise<SubtreeFile[]> {
+    const readableChild = options.readableBy
+      ? this.aclService.readableFolders(options.readableBy, sql`f.id`)
+      : undefined;
+
+    const rows = await db.execute<{ id: string; path: string }>(sql`
+      with recursive tree as (
+        select id, '' as path, array[id] as ids
+        from folders
+        where id = ${folderId} and status = 'ativo'
+        union all
+        select f.id, t.path || f.name || '/', t.ids || f.id
+        from folders f
+        join tree t on f.parent_id = t.id
+        where f.status = 'ativo'
+          and not f.id = any(t.ids)
+          and ${readableChild ?? sql`true`}
+      )
+      select id, path from tree
+    `);
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const folderPaths = new Map(rows.map((row) => [row.id, row.path]));
+    const subtreeFiles = await db
+      .select()
+      .from(files)
+      .where(
+        and(
+          inArray(files.folderId, [...folderPaths.keys()]),
+          eq(files.status, 'ativo'),
+          options.readableBy
+            ? this.aclService.readableFiles(options.readableBy)
+            : undefined
+        )
+      );
+
+    return subtreeFiles
+      .map((file) => ({
+        ...file,
+        path: `${folderPaths.get(file.folderId as string)}${file.name}`,
+      }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Move a pasta para outro pai validando destino, ciclos e nomes entre
+   * as pastas irmãs. Registra o evento `move` nos logs.
+   */
+  move(
+    folderId: string,
+    parentId: string | null,
+    actor: AuthenticatedUser,
+    options: FolderMoveOptions = {}
+  ): Promise<FolderMoveResult> {
+    return this.applyUpdate(folderId, { parentId }, actor, options);
+  }
+
+  /**
+   * Atualiza nome e/ou pai aplicando as mesmas validações do `move`
+   */
+  async update(
+    folderId: string,
+    input: FolderUpdateInput,
+    actor: AuthenticatedUser
+  ): Promise<FolderRecord> {
+    const { folder } = await this.applyUpdate(folderId, input, actor);
+    return folder;
+  }
+
+  private applyUpdate(
+    folderId: string,
+    input: FolderUpdateInput,
+    actor: AuthenticatedUser,
+    options: FolderMoveOptions = {}
+  ): Promise<FolderMoveResult> {
+    return db.transaction(async (tx) => {
+      // Serializa alterações de hierarquia: dois movimentos simultâneos
+      // poderiam, cada um isoladamente válido, formar um ciclo
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(hashtext('folders:hierarchy'))`
+      );
+
+      const [folder] = await tx
+        .select()
+        .from(folders)
+        .where(eq(folders.id, folderId));
+
+      if (!folder) {
+        throw new FolderOperationError(
+          'Pasta não encontrada',
+          HTTP_STATUS.NOT_FOUND
+        );
+      }
+
+      const parentId =
+        input.parentId === undefined ? folder.parentId : input.parentId;
+      const moved = parentId !== folder.parentId;
+
+      if (moved) {
+        await this.assertMoveAllowed(tx, actor, folder, parentId);
+      }
+
+      const requestedName = input.name ?? folder.name;
+      const name =
+        moved || requestedName !== folder.name
+          ? await this.resolveSiblingName(
+              tx,
+              folderId,
+              parentId,
+              requestedName,
+              options.autoRename ?? false
+            )
+          : folder.name;
+
+      const [updated] = await tx
+        .update(folders)
+        .set({ name, parentId })
+        .where(eq(folders.id, folderId))
+        .returning();
+
+      await this.recordChanges(tx, actor, folder, updated);
+
+      return { folder: updated, renamed: name !== requestedName };
+    });
+  }
+
+  private async recordChanges(
+    executor: DbExecutor,
+    actor: AuthenticatedUser,
+    before: FolderRecord,
+    after: FolderRecord
+  ): Promise<void> {
+    if (after.name !== before.name) {
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: 'rename',
+          folderId: after.id,
+          details: diffChanges({ name: before.name }, { name: after.name }),
+        },
+        executor
+      );
+    }
+
+    if (after.parentId !== before.parentId) {
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: 'move',
+          folderId: after.id,
+          details: diffChanges(
+            { parentId: before.parentId },
+            { parentId: after.parentId }
+          ),
+        },
+        executor
+      );
+    }
+  }
+
+  /**
+   * Valida o destino, exige escrita nele e verifica as cotas das pastas do
+   * destino, nas quais o conteúdo da pasta passa a contar
+   */
+  private async assertMoveAllowed(
+    executor: DbExecutor,
+    actor: AuthenticatedUser,
+    folder: FolderRecord,
+    parentId: string | null
+  ): Promise<void> {
+    if (parentId) {
+      await this.assertValidTarget(executor, folder.id, parentId);
+    }
+
+    if (
+      !(await this.aclService.hasAccess(actor, { folderId: parentId }, 'write'))
+    ) {
+      throw new FolderOperationError(
+        'Você não tem permissão para mover a pasta para o destino',
+        HTTP_STATUS.FORBIDDEN
+      );
+    }
+
+    try {
+      await this.quotaService.assertMoveAvailable(
+        await this.quotaService.getFolderUsage(folder.id),
+        folder.parentId,
+        parentId
+      );
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        throw new FolderOperationError(error.message, error.statusCode);
+      }
+      throw error;
+    }
+  }
+
+  private async assertValidTarget(
+    executor: DbExecutor,
+    folderId: string,
+    parentId: string
+  ): Promise<void> {
+    // O destino não pode ser a própria pasta nem um de seus descendentes,
+    // ou seja, a pasta não pode estar entre os ancestrais do destino
+    const rows = await executor.execute<{ id: string; status: string }>(sql`
+      with recursive ancestors as (
+        select id, parent_id, status, array[id] as path
+        from folders
+        where id = ${parentId}
+        union all
+        select f.id, f.parent_id, f.status, a.path || f.id
+        from folders f
+        join ancestors a on f.id = a.parent_id
+        where not f.id = any(a.path)
+      )
+      select id, status from ancestors
+    `);
+
+    if (rows.length === 0) {
+      throw new FolderOperationError(
+        'Pasta de destino não encontrada',
+        HTTP_STATUS.NOT_FOUND
+      );
+    }
+
+    if (rows.some((row) => row.id === parentId && row.status !== 'ativo')) {
+      throw new FolderOperationError(
+        'A pasta de destino está na lixeira',
+        HTTP_STATUS.UNPROCESSABLE_ENTITY
+      );
+    }
+
+    if (rows.some((row) => row.id === folderId)) {
+      throw new FolderOperationError(
+        'Não é possível mover uma pasta para dentro dela mesma ou de uma subpasta',
+        HTTP_STATUS.UNPROCESSABLE_ENTITY
+      );
+    }
+  }
+
+  /**
+   * Garante nome único (sem diferenciar maiúsculas) entre as pastas irmãs ativas,
+   * gerando "Nome (n)" quando `autoRename` estiver ativo
+   */
+  private async resolveSiblingName(
+    executor: DbExecutor,
+    folderId: string,
+    parentId: string | null,
+    name: string,
+    autoRename: boolean
+  ): Promise<string> {
+    const siblings = await executor
+      .select({ name: folders.name })
+      .from(folders)
+      .where(
+        and(
+          parentId ? eq(folders.parentId, parentId) : isNull(folders.parentId),
+          ne(folders.id, folderId),
+          // Pastas na lixeira não ocupam o nome
+          eq(folders.status, 'ativo')
+        )
+      );
+
+    const takenNames = new Set(
+      siblings.map((sibling) => sibling.name.toLocaleLowerCase())
+    );
+
+    if (!takenNames.has(name.toLocaleLowerCase())) {
+      return name;
+    }
+
+    if (!autoRename) {
+      throw new FolderOperationError(
+        `Já existe uma pasta chamada "${name}" no destino`,
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    const baseName = name.replace(NUMBERED_NAME_SUFFIX_REGEX, '');
+    let counter = 2;
+    while (takenNames.has(`${baseName} (${counter})`.toLocaleLowerCase())) {
+      counter++;
+    }
+
+    return `${baseName} (${counter})`;
+  }
+
+  /**
+   * Remove a pasta conforme o modo escolhido. Todas as alterações no banco
+   * ocorrem em uma única transação; os objetos do storage que ficaram sem
+   * referências são apagados somente após o commit.
+   */
+  async delete(
+    folderId: string,
+    mode: FolderDeletionMode,
+    actor: AuthenticatedUser
+  ): Promise<FolderDeletionSummary> {
+    const { summary, storagePaths } = await db.transaction(async (tx) => {
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(hashtext('folders:hierarchy'))`
+      );
+
+      const folderIds = await this.collectSubtreeIds(tx, folderId);
+      if (folderIds.length === 0) {
+        throw new FolderOperationError(
+          'Pasta não encontrada',
+          HTTP_STATUS.NOT_FOUND
+        );
+      }
+
+      if (mode !== 'restrict') {
+        await this.assertSubtreeManageable(tx, actor, folderIds);
+      }
+
+      let result: { summary: FolderDeletionSummary; storagePaths: string[] };
+      if (mode === 'restrict') {
+        result = await this.deleteEmptyFolder(tx, folderId, folderIds);
+      } else if (mode === 'trash') {
+        result = await this.trashSubtree(tx, folderId, folderIds);
+      } else {
+        result = await this.purgeSubtree(tx, folderIds);
+      }
+
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: mode === 'purge' ? 'purge' : 'delete',
+          folderId,
+          details: { ...result.summary },
+        },
+        tx
+      );
+
+      return result;
+    });
+
+    await this.blobService.deleteStoredObjects(storagePaths);
+
+    return summary;
+  }
+
+  /**
+   * Restaura uma pasta da lixeira junto com tudo o que foi enviado para a
+   * lixeira pela exclusão dela. Itens descartados individualmente antes
+   * permanecem na lixeira.
+   */
+  restore(
+    folderId: string,
+    actor: AuthenticatedUser
+  ): Promise<FolderRestoreSummary> {
+    return db.transaction(async (tx) => {
+      const [folder] = await tx
+        .select({
+          status: folders.status,
+          parentId: folders.parentId,
+          trashRootId: folders.trashRootId,
+        })
+        .from(folders)
+        .where(eq(folders.id, folderId));
+
+      if (!folder) {
+        throw new FolderOperationError(
+          'Pasta não encontrada',
+          HTTP_STATUS.NOT_FOUND
+        );
+      }
+
+      if (folder.status !== 'lixeira') {
+        throw new FolderOperationError(
+          'A pasta não está na lixeira',
+          HTTP_STATUS.CONFLICT
+        );
+      }
+
+      if (folder.trashRootId !== folderId) {
+        throw new FolderOperationError(
+          'A pasta foi excluída junto com uma pasta pai; restaure a pasta pai',
+          HTTP_STATUS.CONFLICT
+        );
+      }
+
+      if (folder.parentId) {
+        const [parent] = await tx
+          .select({ status: folders.status })
+          .from(folders)
+          .where(eq(folders.id, folder.parentId));
+
+        if (parent?.status === 'lixeira') {
+          throw new FolderOperationError(
+            'A pasta pai está na lixeira',
+            HTTP_STATUS.CONFLICT
+          );
+        }
+      }
+
+      const restoredFolders = await tx
+        .update(folders)
+        .set({ status: 'ativo', trashRootId: null, trashedAt: null })
+        .where(eq(folders.trashRootId, folderId))
+        .returning({ id: folders.id });
+
+      const restoredFiles = await tx
+        .update(files)
+        .set({ status: 'ativo', trashRootId: null, trashedAt: null })
+        .where(eq(files.trashRootId, folderId))
+        .returning({ id: files.id });
+
+      const summary = {
+        folders: restoredFolders.length,
+        files: restoredFiles.length,
+      };
+
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: 'restore',
+          folderId,
+          details: { ...summary },
+        },
+        tx
+      );
+
+      return summary;
+    });
+  }
+
+  /**
+   * Remove definitivamente a pasta e sua subárvore dentro da transação
+   * informada. Os caminhos retornados devem ser apagados após o commit.
+   */
+  async purgeTree(folderId: string, executor: DbExecutor) {
+    const folderIds = await this.collectSubtreeIds(executor, folderId);
+    return this.purgeSubtree(executor, folderIds);
+  }
+
+  private async collectSubtreeIds(
+    executor: DbExecutor,
+    folderId: string
+  ): Promise<string[]> {
+    const rows = await executor.execute<{ id: string }>(sql`
+      with recursive subtree as (
+        select id, array[id] as path
+        from folders
+        where id = ${folderId}
+        union all
+        select f.id, s.path || f.id
+        from folders f
+        join subtree s on f.parent_id = s.id
+        where not f.id = any(s.path)
+      )
+      select id from subtree
+    `);
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * A permissão na pasta excluída não basta: a operação afeta toda a
+   * subárvore, então o usuário precisa gerenciar cada subpasta e arquivo
+   */
+  private async assertSubtreeManageable(
+    executor: DbExecutor,
+    actor: AuthenticatedUser,
+    folderIds: string[]
+  ): Promise<void> {
+    const manageableFolders = this.aclService.readableFolders(
+      actor,
+      folders.id,
+      'manage'
+    );
+    const manageableFiles = this.aclService.readableFiles(actor, 'manage');
+
+    if (!(manageableFolders && manageableFiles)) {
+      return;
+    }
+
+    const [folder] = await executor
+      .select({ id: folders.id })
+      .from(folders)
+      .where(and(inArray(folders.id, folderIds), not(manageableFolders)))
+      .limit(1);
+
+    const [file] = await executor
+      .select({ id: files.id })
+      .from(files)
+      .where(
+        and(
+          or(
+            inArray(files.folderId, folderIds),
+            inArray(files.trashRootId, folderIds)
+          ),
+          not(manageableFiles)
+        )
+      )
+      .limit(1);
+
+    if (folder || file) {
+      throw new FolderOperationError(
+        'Você não tem permissão para excluir todo o conteúdo da pasta',
+        HTTP_STATUS.FORBIDDEN
+      );
+    }
+  }
+
+  private async deleteEmptyFolder(
+    executor: DbExecutor,
+    folderId: string,
+    folderIds: string[]
+  ) {
+    // Arquivos na lixeira também contam: apagá-los exige o modo `purge`
+    const [{ fileCount }] = await executor
+      .select({ fileCount: count() })
+      .from(files)
+      .where(eq(files.folderId, folderId));
+
+    if (folderIds.length > 1 || fileCount > 0) {
+      throw new FolderOperationError(
+        'A pasta não está vazia',
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    await executor.delete(folders).where(eq(folders.id, folderId));
+
+    return {
+      summary: {
+        mode: 'restrict' as const,
+        folders: 1,
+        files: 0,
+        storageObjects: 0,
+      },
+      storagePaths: [],
+    };
+  }
+
+  private async trashSubtree(
+    executor: DbExecutor,
+    folderId: string,
+    folderIds: string[]
+  ) {
+    const trashedAt = new Date();
+
+    const trashedFolders = await executor
+      .update(folders)
+      .set({ status: 'lixeira', trashRootId: folderId, trashedAt })
+      .where(and(inArray(folders.id, folderIds), eq(folders.status, 'ativo')))
+      .returning({ id: folders.id });
+
+    const trashedFiles = await executor
+      .update(files)
+      .set({ status: 'lixeira', trashRootId: folderId, trashedAt })
+      .where(and(inArray(files.folderId, folderIds), eq(files.status, 'ativo')))
+      .returning({ id: files.id });
+
+    return {
+      summary: {
+        mode: 'trash' as const,
+        folders: trashedFolders.length,
+        files: trashedFiles.length,
+        storageObjects: 0,
+      },
+      storagePaths: [],
+    };
+  }
+
+  private async purgeSubtree(executor: DbExecutor, folderIds: string[]) {
+    // Inclui arquivos que estavam na lixeira para não deixar órfãos
+    const subtreeFiles = await executor
+      .select({ id: files.id })
+      .from(files)
+      .where(
+        or(
+          inArray(files.folderId, folderIds),
+          inArray(files.trashRootId, folderIds)
+        )
+      );
+
+    const storagePaths = await this.fileVersionService.purgeFiles(
+      subtreeFiles.map((file) => file.id),
+      executor
+    );
+
+    await executor.delete(folders).where(inArray(folders.id, folderIds));
+
+    return {
+      summary: {
+        mode: 'purge' as const,
+        folders: folderIds.length,
+        files: subtreeFiles.length,
+        storageObjects: storagePaths.length,
+      },
+      storagePaths,
+    };
+  }
+}
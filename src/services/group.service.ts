@@ -0,0 +1,221 @@
+import { and, asc, count, eq, ne } from 'drizzle-orm';
+import { db } from '../db/connection.ts';
+import { aclEntries } from '../db/schema/acl-entries.ts';
+import { groupMembers, groups } from '../db/schema/groups.ts';
+import { users } from '../db/schema/users.ts';
+import { HTTP_STATUS, type HttpStatusCode } from '../types/api-response.ts';
+import type { AuthenticatedUser } from '../types/auth.ts';
+
+export type GroupRecord = typeof groups.$inferSelect;
+
+export interface GroupSummary extends GroupRecord {
+  memberCount: number;
+}
+
+export interface GroupMember {
+  id: string;
+  name: string;
+  email: string;
+  role: AuthenticatedUser['role'];
+  addedAt: Date;
+}
+
+export interface GroupWithMembers extends GroupRecord {
+  members: GroupMember[];
+}
+
+export interface GroupInput {
+  name: string;
+  description?: string | null;
+}
+
+export class GroupError extends Error {
+  readonly statusCode: HttpStatusCode;
+
+  constructor(message: string, statusCode: HttpStatusCode) {
+    super(message);
+    this.name = 'GroupError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * Grupos de usuários. Entradas da ACL de um grupo valem para todos os seus
+ * membros.
+ */
+export class GroupService {
+  async list(
+    page: number,
+    limit: number
+  ): Promise<{ items: GroupSummary[]; total: number }> {
+    const [{ total }] = await db.select({ total: count() }).from(groups);
+
+    const items = await db
+      .select({
+        id: groups.id,
+        name: groups.name,
+        description: groups.description,
+        createdBy: groups.createdBy,
+        createdAt: groups.createdAt,
+        updatedAt: groups.updatedAt,
+        memberCount: count(groupMembers.userId),
+      })
+      .from(groups)
+      .leftJoin(groupMembers, eq(groupMembers.groupId, groups.id))
+      .groupBy(groups.id)
+      .orderBy(asc(groups.name))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    return { items, total };
+  }
+
+  async getById(id: string): Promise<GroupWithMembers> {
+    const group = await this.getGroup(id);
+
+    const members = await db
+      .select({
+        id: users.id,
+        name: users.name,
+        email: users.email,
+        role: users.role,
+        addedAt: groupMembers.createdAt,
+      })
+      .from(groupMembers)
+      .innerJoin(users, eq(users.id, groupMembers.userId))
+      .where(eq(groupMembers.groupId, id))
+      .orderBy(asc(users.name));
+
+    return { ...group, members };
+  }
+
+  /**
+   * Grupos dos quais o usuário é membro
+   */
+  listUserGroups(userId: string): Promise<Pick<GroupRecord, 'id' | 'name'>[]> {
+    return db
+      .select({ id: groups.id, name: groups.name })
+      .from(groupMembers)
+      .innerJoin(groups, eq(groups.id, groupMembers.groupId))
+      .where(eq(groupMembers.userId, userId))
+      .orderBy(asc(groups.name));
+  }
+
+  async create(
+    input: GroupInput,
+    actor: AuthenticatedUser
+  ): Promise<GroupRecord> {
+    const [created] = await db
+      .insert(groups)
+      .values({
+        name: input.name,
+        description: input.description ?? null,
+        createdBy: actor.id,
+      })
+      .onConflictDoNothing({ target: groups.name })
+      .returning();
+
+    if (!created) {
+      throw this.duplicateNameError();
+    }
+
+    return created;
+  }
+
+  async update(id: string, input: Partial<GroupInput>): Promise<GroupRecord> {
+    await this.getGroup(id);
+
+    if (input.name) {
+      const [duplicate] = await db
+        .select({ id: groups.id })
+        .from(groups)
+        .where(and(eq(groups.name, input.name), ne(groups.id, id)));
+
+      if (duplicate) {
+        throw this.duplicateNameError();
+      }
+    }
+
+    const [updated] = await db
+      .update(groups)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(groups.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Remove o grupo com seus membros e as entradas da ACL do grupo
+   */
+  async delete(id: string): Promise<void> {
+    await this.getGroup(id);
+
+    await db.transaction(async (tx) => {
+      await tx.delete(aclEntries).where(eq(aclEntries.groupId, id));
+      await tx.delete(groupMembers).where(eq(groupMembers.groupId, id));
+      await tx.delete(groups).where(eq(groups.id, id));
+    });
+  }
+
+  /**
+   * Retorna false se o usuário já era membro do grupo
+   */
+  async addMember(
+    groupId: string,
+    userId: string,
+    actor: AuthenticatedUser
+  ): Promise<boolean> {
+    await this.getGroup(groupId);
+
+    const [user] = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.id, userId));
+
+    if (!user) {
+      throw new GroupError('Usuário não encontrado', HTTP_STATUS.NOT_FOUND);
+    }
+
+    const added = await db
+      .insert(groupMembers)
+      .values({ groupId, userId, addedBy: actor.id })
+      .onConflictDoNothing()
+      .returning({ userId: groupMembers.userId });
+
+    return added.length > 0;
+  }
+
+  /**
+   * Retorna false se o usuário não era membro do grupo
+   */
+  async removeMember(groupId: string, userId: string): Promise<boolean> {
+    await this.getGroup(groupId);
+
+    const removed = await db
+      .delete(groupMembers)
+      .where(
+        and(eq(groupMembers.groupId, groupId), eq(groupMembers.userId, userId))
+      )
+      .returning({ userId: groupMembers.userId });
+
+    return removed.length > 0;
+  }
+
+  private async getGroup(id: string): Promise<GroupRecord> {
+    const [group] = await db.select().from(groups).where(eq(groups.id, id));
+
+    if (!group) {
+      throw new GroupError('Grupo não encontrado', HTTP_STATUS.NOT_FOUND);
+    }
+
+    return group;
+  }
+
+  private duplicateNameError() {
+    return new GroupError(
+      'Já existe um grupo com este nome',
+      HTTP_STATUS.CONFLICT
+    );
+  }
+}
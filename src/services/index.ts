@@ -1,5 +1,22 @@
+export * from './acl.service.ts';
+export * from './auth/auth.service.ts';
+export * from './blob.service.ts';
 export * from './file-upload.service.ts';
+export * from './file-version.service.ts';
+export * from './folder.service.ts';
+export * from './group.service.ts';
+export * from './log.service.ts';
+export * from './log-export.service.ts';
+export * from './log-integrity.service.ts';
+export * from './log-query.service.ts';
+export * from './quota.service.ts';
+export * from './share.service.ts';
+export * from './signed-url.service.ts';
 export * from './storage/local-storage.provider.ts';
 export * from './storage/s3-storage.provider.ts';
+export * from './storage/signed-url.ts';
 export * from './storage/storage.factory.ts';
 export * from './storage/storage-provider.interface.ts';
+export * from './storage-reconciliation.service.ts';
+export * from './trash.service.ts';
+export * from './upload-session.service.ts';
@@ -0,0 +1,135 @@
+import { Readable } from 'node:stream';
+import { Column } from 'drizzle-orm';
+import { db, sql } from '../db/connection.ts';
+import { logs } from '../db/schema/logs.ts';
+import {
+  buildLogConditions,
+  joinLogNames,
+  type LogFilters,
+  logNameFields,
+  orderLogs,
+} from './log-query.service.ts';
+
+export type LogExportFormat = 'csv' | 'ndjson';
+
+// Linhas lidas do cursor por vez: limita a memória usada pela exportação
+const EXPORT_BATCH_SIZE = 500;
+// Planilhas interpretam células iniciadas por estes caracteres como fórmulas
+const CSV_FORMULA_PREFIX_REGEX = /^[=+\-@\t\r]/;
+const CSV_QUOTE_REGEX = /[",\r\n]/;
+
+const exportFields = {
+  id: logs.id,
+  sequence: logs.sequence,
+  timestamp: logs.timestamp,
+  actionType: logs.actionType,
+  userId: logs.userId,
+  userName: logNameFields.userName,
+  userEmail: logNameFields.userEmail,
+  targetUserId: logs.targetUserId,
+  targetUserName: logNameFields.targetUserName,
+  shareId: logs.shareId,
+  fileId: logs.fileId,
+  fileName: logNameFields.fileName,
+  folderId: logs.folderId,
+  folderName: logNameFields.folderName,
+  ip: logs.ip,
+  userAgent: logs.userAgent,
+  requestId: logs.requestId,
+  details: logs.details,
+};
+
+type ExportField = keyof typeof exportFields;
+type ExportRow = Record<ExportField, unknown>;
+
+const exportColumns = Object.keys(exportFields) as ExportField[];
+
+function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  if (CSV_FORMULA_PREFIX_REGEX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return CSV_QUOTE_REGEX.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function formatCsvLine(values: unknown[]): string {
+  return `${values.map(formatCsvValue).join(',')}\r\n`;
+}
+
+/**
+ * Exportação dos logs com os nomes de usuários, arquivos e pastas,
+ * lida do Postgres por um cursor para não carregar o resultado em memória
+ */
+export class LogExportService {
+  export(filters: LogFilters, format: LogExportFormat): Readable {
+    const rows = this.readRows(filters);
+
+    return Readable.from(
+      format === 'csv' ? this.toCsv(rows) : this.toNdjson(rows)
+    );
+  }
+
+  private async *readRows(filters: LogFilters): AsyncGenerator<ExportRow> {
+    const query = joinLogNames(
+      db
+        .select(exportFields)
+        .from(logs)
+        .where(buildLogConditions(filters))
+        .orderBy(...orderLogs('asc'))
+        .$dynamic()
+    ).toSQL();
+
+    // O drizzle não expõe cursores: a consulta gerada é executada direto no
+    // cliente e os valores são convertidos pelas próprias colunas
+    const cursor = sql
+      .unsafe(query.sql, query.params as never[])
+      .values()
+      .cursor(EXPORT_BATCH_SIZE);
+
+    for await (const batch of cursor) {
+      for (const values of batch) {
+        yield Object.fromEntries(
+          exportColumns.map((column, index) => {
+            const field = exportFields[column];
+            const value = values[index];
+            return [
+              column,
+              field instanceof Column && value !== null
+                ? field.mapFromDriverValue(value)
+                : value,
+            ];
+          })
+        ) as ExportRow;
+      }
+    }
+  }
+
+  private async *toCsv(rows: AsyncIterable<ExportRow>): AsyncGenerator<string> {
+    yield formatCsvLine(exportColumns);
+
+    for await (const row of rows) {
+      yield formatCsvLine(exportColumns.map((column) => row[column]));
+    }
+  }
+
+  private async *toNdjson(
+    rows: AsyncIterable<ExportRow>
+  ): AsyncGenerator<string> {
+    for await (const row of rows) {
+      yield `${JSON.stringify(row)}\n`;
+    }
+  }
+}
@@ -0,0 +1,247 @@
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { after, afterEach, describe, it, mock } from 'node:test';
+import type { LogRecord } from './log.service.ts';
+
+// A conexão com o banco importa o env, que exige o segredo do JWT
+process.env.JWT_SECRET ??= 'x'.repeat(32);
+
+const { db, sql } = await import('../db/connection.ts');
+const { computeLogHash } = await import('./log.service.ts');
+const { LogIntegrityService } = await import('./log-integrity.service.ts');
+
+type UnhashedLog = Omit<LogRecord, 'hash' | 'previousHash' | 'sequence'>;
+
+function logEntry(overrides: Partial<UnhashedLog> = {}): UnhashedLog {
+  return {
+    id: randomUUID(),
+    userId: randomUUID(),
+    fileId: null,
+    folderId: null,
+    targetUserId: null,
+    shareId: null,
+    actionType: 'upload',
+    ip: '127.0.0.1',
+    userAgent: null,
+    requestId: null,
+    details: { name: 'a.txt', size: '3' },
+    timestamp: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+/**
+ * Encadeia as entradas a partir da sequência e do hash informados, como o
+ * LogService faz ao gravá-las
+ */
+function chain(
+  entries: UnhashedLog[],
+  start: { sequence: number; hash: string | null } = {
+    sequence: 0,
+    hash: null,
+  }
+): LogRecord[] {
+  let previousHash = start.hash;
+
+  return entries.map((entry, index) => {
+    const chained = {
+      ...entry,
+      sequence: start.sequence + index + 1,
+      previousHash,
+    };
+    const hash = computeLogHash(chained);
+    previousHash = hash;
+    return { ...chained, hash };
+  });
+}
+
+/**
+ * Simula as consultas da verificação, na ordem em que são feitas: entradas
+ * fora da cadeia, primeira sequência, retenções e os lotes da cadeia
+ */
+function mockQueries(chainEntries: LogRecord[], unchained: LogRecord[] = []) {
+  const firstSequence = chainEntries[0]?.sequence ?? null;
+  const retentions = chainEntries
+    .filter((entry) => entry.actionType === 'log_retention')
+    .reverse();
+  const results: unknown[][] = [
+    unchained,
+    [{ firstSequence }],
+    retentions,
+    chainEntries,
+  ];
+
+  mock.method(db, 'select', () => {
+    const rows = results.shift() ?? [];
+    const query = {
+      from: () => query,
+      where: () => query,
+      orderBy: () => query,
+      limit: () => query,
+      // biome-ignore lint/suspicious/noThenProperty: imita o query builder
+      then: (resolve: (value: unknown[]) => unknown) => resolve(rows),
+    };
+    return query;
+  });
+}
+
+describe('cadeia de hashes dos logs', () => {
+  const service = new LogIntegrityService();
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  after(async () => {
+    await sql.end();
+  });
+
+  it('calcula o mesmo hash independentemente da ordem das chaves', () => {
+    const entry = { ...logEntry(), sequence: 1, previousHash: null };
+
+    assert.equal(
+      computeLogHash(entry),
+      computeLogHash({ ...entry, details: { size: '3', name: 'a.txt' } })
+    );
+    assert.notEqual(
+      computeLogHash(entry),
+      computeLogHash({ ...entry, details: { name: 'b.txt', size: '3' } })
+    );
+    assert.notEqual(
+      computeLogHash(entry),
+      computeLogHash({ ...entry, previousHash: 'a'.repeat(64) })
+    );
+  });
+
+  it('aceita uma cadeia íntegra', async () => {
+    const entries = chain([logEntry(), logEntry(), logEntry()]);
+    mockQueries(entries);
+
+    const report = await service.verify();
+
+    assert.equal(report.valid, true);
+    assert.equal(report.checkedEntries, 3);
+    assert.equal(report.lastSequence, 3);
+    assert.equal(report.lastHash, entries[2].hash);
+    assert.equal(report.firstBreak, null);
+  });
+
+  it('aponta a entrada com o conteúdo alterado', async () => {
+    const entries = chain([logEntry(), logEntry(), logEntry()]);
+    entries[1] = { ...entries[1], details: { name: 'outro.txt' } };
+    mockQueries(entries);
+
+    const report = await service.verify();
+
+    assert.equal(report.valid, false);
+    assert.deepEqual(report.firstBreak, {
+      logId: entries[1].id,
+      sequence: 2,
+      reason: 'Conteúdo da entrada foi alterado',
+    });
+  });
+
+  it('aponta a entrada removida do meio da cadeia', async () => {
+    const entries = chain([logEntry(), logEntry(), logEntry()]);
+    mockQueries([entries[0], entries[2]]);
+
+    const report = await service.verify();
+
+    assert.deepEqual(report.firstBreak, {
+      logId: entries[2].id,
+      sequence: 3,
+      reason: 'Sequência interrompida: esperada 2',
+    });
+  });
+
+  it('aponta a entrada que não aponta para o hash da anterior', async () => {
+    const [first] = chain([logEntry()]);
+    const [forged] = chain([logEntry()], { sequence: 1, hash: 'f'.repeat(64) });
+    mockQueries([first, forged]);
+
+    const report = await service.verify();
+
+    assert.equal(
+      report.firstBreak?.reason,
+      'Hash anterior não corresponde à entrada anterior'
+    );
+  });
+
+  it('aponta entradas gravadas fora da cadeia', async () => {
+    const entries = chain([logEntry()]);
+    const unchained = { ...entries[0], id: randomUUID(), sequence: null };
+    mockQueries(entries, [unchained]);
+
+    const report = await service.verify();
+
+    assert.deepEqual(report.firstBreak, {
+      logId: unchained.id,
+      sequence: null,
+      reason: 'Entrada inserida fora da cadeia de logs',
+    });
+  });
+
+  it('aceita entradas sem hash apenas antes do encadeamento', async () => {
+    const legacy = chain([logEntry(), logEntry()]).map((entry) => ({
+      ...entry,
+      previousHash: null,
+      hash: null,
+    }));
+    const entries = [
+      ...legacy,
+      ...chain([logEntry()], { sequence: 2, hash: null }),
+    ];
+    mockQueries(entries);
+
+    const report = await service.verify();
+
+    assert.equal(report.valid, true);
+    assert.equal(report.legacyEntries, 2);
+  });
+
+  it('retoma a cadeia a partir de uma retenção íntegra', async () => {
+    const removed = chain([logEntry(), logEntry()]);
+    const remaining = chain(
+      [
+        logEntry({
+          actionType: 'log_retention',
+          details: { lastSequence: 2, lastHash: removed[1].hash },
+        }),
+        logEntry(),
+      ],
+      { sequence: 2, hash: removed[1].hash }
+    );
+    mockQueries(remaining);
+
+    const report = await service.verify();
+
+    assert.equal(report.valid, true);
+    assert.equal(report.checkedEntries, 2);
+  });
+
+  it('ignora retenções forjadas como ponto de partida', async () => {
+    const removed = chain([logEntry(), logEntry()]);
+    const remaining = chain(
+      [
+        logEntry({
+          actionType: 'log_retention',
+          details: { lastSequence: 2, lastHash: removed[1].hash },
+        }),
+      ],
+      { sequence: 2, hash: removed[1].hash }
+    );
+    remaining[0] = {
+      ...remaining[0],
+      details: { lastSequence: 2, lastHash: null },
+    };
+    mockQueries(remaining);
+
+    const report = await service.verify();
+
+    assert.equal(report.valid, false);
+    assert.equal(
+      report.firstBreak?.reason,
+      'Sequência interrompida: esperada 1'
+    );
+  });
+});
@@ -0,0 +1,271 @@
+import { asc, desc, eq, gt, isNull, lt, lte, max, min } from 'drizzle-orm';
+import { db } from '../db/connection.ts';
+import { logs } from '../db/schema/logs.ts';
+import type { AuthenticatedUser } from '../types/auth.ts';
+import {
+  computeLogHash,
+  type LogRecord,
+  LogService,
+  lockLogChain,
+} from './log.service.ts';
+
+const VERIFY_BATCH_SIZE = 1000;
+
+export interface LogChainBreak {
+  logId: string;
+  sequence: number | null;
+  reason: string;
+}
+
+export interface LogChainReport {
+  valid: boolean;
+  checkedEntries: number;
+  /** Entradas gravadas antes do encadeamento, sem hash */
+  legacyEntries: number;
+  /**
+   * Última posição e hash da cadeia. Guardá-los fora do banco permite
+   * detectar a remoção das entradas mais recentes.
+   */
+  lastSequence: number | null;
+  lastHash: string | null;
+  firstBreak: LogChainBreak | null;
+  verifiedAt: Date;
+}
+
+export interface LogRetentionSummary {
+  before: Date;
+  deletedEntries: number;
+  lastSequence: number | null;
+  lastHash: string | null;
+}
+
+interface ChainPosition {
+  sequence: number;
+  hash: string | null;
+}
+
+/**
+ * Ponto de continuação gravado pelo processo de retenção: a primeira
+ * entrada restante deve apontar para a última entrada removida
+ */
+interface RetentionCheckpoint {
+  lastSequence: number;
+  lastHash: string | null;
+}
+
+function isRetentionCheckpoint(value: unknown): value is RetentionCheckpoint {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as RetentionCheckpoint).lastSequence === 'number'
+  );
+}
+
+/**
+ * Só vale como ponto de partida a entrada íntegra gravada por
+ * `applyRetention`: ela vem depois do ponto registrado e todas as entradas
+ * até esse ponto foram de fato removidas
+ */
+function isTrustedCheckpoint(
+  entry: LogRecord,
+  firstSequence: number | null
+): entry is LogRecord & { details: RetentionCheckpoint } {
+  return (
+    isRetentionCheckpoint(entry.details) &&
+    entry.hash !== null &&
+    computeLogHash(entry) === entry.hash &&
+    entry.details.lastSequence < (entry.sequence ?? 0) &&
+    (firstSequence === null || entry.details.lastSequence < firstSequence)
+  );
+}
+
+/**
+ * Verificação da cadeia de hashes dos logs e remoção controlada de
+ * entradas antigas
+ */
+export class LogIntegrityService {
+  private readonly logService = new LogService();
+
+  /**
+   * Percorre a cadeia em ordem de sequência e aponta a primeira entrada
+   * alterada, removida ou inserida fora do encadeamento
+   */
+  async verify(): Promise<LogChainReport> {
+    const verifiedAt = new Date();
+    const report: LogChainReport = {
+      valid: true,
+      checkedEntries: 0,
+      legacyEntries: 0,
+      lastSequence: null,
+      lastHash: null,
+      firstBreak: null,
+      verifiedAt,
+    };
+
+    const [unchained] = await db
+      .select({ id: logs.id })
+      .from(logs)
+      .where(isNull(logs.sequence))
+      .limit(1);
+
+    let previous = await this.loadChainStart();
+
+    while (!report.firstBreak) {
+      // biome-ignore lint/nursery/noAwaitInLoop: true
+      const batch = await db
+        .select()
+        .from(logs)
+        .where(gt(logs.sequence, previous.sequence))
+        .orderBy(asc(logs.sequence))
+        .limit(VERIFY_BATCH_SIZE);
+
+      for (const entry of batch) {
+        report.firstBreak = this.checkEntry(entry, previous, report);
+        if (report.firstBreak) {
+          break;
+        }
+
+        report.checkedEntries++;
+        previous = { sequence: entry.sequence as number, hash: entry.hash };
+      }
+
+      if (batch.length < VERIFY_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    report.firstBreak ??= unchained
+      ? {
+          logId: unchained.id,
+          sequence: null,
+          reason: 'Entrada inserida fora da cadeia de logs',
+        }
+      : null;
+    report.valid = report.firstBreak === null;
+    report.lastSequence = previous.sequence > 0 ? previous.sequence : null;
+    report.lastHash = previous.hash;
+
+    return report;
+  }
+
+  /**
+   * Remove as entradas anteriores a `before`, sempre a partir do início
+   * da cadeia, e registra a retenção como uma nova entrada. A última entrada
+   * removida fica registrada para que a verificação aceite o novo início.
+   */
+  applyRetention(
+    before: Date,
+    actor: AuthenticatedUser
+  ): Promise<LogRetentionSummary> {
+    return db.transaction(async (tx) => {
+      await lockLogChain(tx);
+
+      const [boundary] = await tx
+        .select({ sequence: max(logs.sequence) })
+        .from(logs)
+        .where(lt(logs.timestamp, before));
+
+      if (!boundary?.sequence) {
+        return {
+          before,
+          deletedEntries: 0,
+          lastSequence: null,
+          lastHash: null,
+        };
+      }
+
+      const [last] = await tx
+        .select({ hash: logs.hash })
+        .from(logs)
+        .where(eq(logs.sequence, boundary.sequence));
+
+      const deleted = await tx
+        .delete(logs)
+        .where(lte(logs.sequence, boundary.sequence));
+
+      const summary: LogRetentionSummary = {
+        before,
+        deletedEntries: deleted.count,
+        lastSequence: boundary.sequence,
+        lastHash: last?.hash ?? null,
+      };
+
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: 'log_retention',
+          details: { ...summary, before: before.toISOString() },
+        },
+        tx
+      );
+
+      return summary;
+    });
+  }
+
+  /**
+   * Posição a partir da qual a cadeia começa: o início da tabela ou o
+   * ponto registrado pela retenção confiável mais recente
+   */
+  private async loadChainStart(): Promise<ChainPosition> {
+    const [{ firstSequence }] = await db
+      .select({ firstSequence: min(logs.sequence) })
+      .from(logs);
+
+    const retentions = await db
+      .select()
+      .from(logs)
+      .where(eq(logs.actionType, 'log_retention'))
+      .orderBy(desc(logs.sequence));
+
+    const checkpoint = retentions.find((entry) =>
+      isTrustedCheckpoint(entry, firstSequence)
+    );
+
+    if (checkpoint) {
+      return {
+        sequence: checkpoint.details.lastSequence,
+        hash: checkpoint.details.lastHash,
+      };
+    }
+
+    return { sequence: 0, hash: null };
+  }
+
+  private checkEntry(
+    entry: LogRecord,
+    previous: ChainPosition,
+    report: LogChainReport
+  ): LogChainBreak | null {
+    const position = { logId: entry.id, sequence: entry.sequence };
+
+    if (entry.sequence !== previous.sequence + 1) {
+      return {
+        ...position,
+        reason: `Sequência interrompida: esperada ${previous.sequence + 1}`,
+      };
+    }
+
+    if (!entry.hash) {
+      // Entradas sem hash só são aceitas antes do início do encadeamento
+      if (report.checkedEntries > report.legacyEntries) {
+        return { ...position, reason: 'Entrada sem hash no meio da cadeia' };
+      }
+      report.legacyEntries++;
+      return null;
+    }
+
+    if (entry.previousHash !== previous.hash) {
+      return {
+        ...position,
+        reason: 'Hash anterior não corresponde à entrada anterior',
+      };
+    }
+
+    if (computeLogHash(entry) !== entry.hash) {
+      return { ...position, reason: 'Conteúdo da entrada foi alterado' };
+    }
+
+    return null;
+  }
+}
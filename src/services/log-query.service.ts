@@ -0,0 +1,130 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  lte,
+  type SQL,
+} from 'drizzle-orm';
+import { alias, type PgSelect } from 'drizzle-orm/pg-core';
+import { db } from '../db/connection.ts';
+import { files } from '../db/schema/files.ts';
+import { folders } from '../db/schema/folders.ts';
+import { logs } from '../db/schema/logs.ts';
+import { users } from '../db/schema/users.ts';
+import { calculateOffset } from '../types/api-response.ts';
+import type { LogActionType } from './log.service.ts';
+
+export type LogSortOrder = 'asc' | 'desc';
+
+export interface LogFilters {
+  userId?: string;
+  fileId?: string;
+  folderId?: string;
+  targetUserId?: string;
+  shareId?: string;
+  actionType?: LogActionType[];
+  from?: Date;
+  to?: Date;
+}
+
+export interface LogListOptions {
+  filters: LogFilters;
+  sort: LogSortOrder;
+  /** Inclui os nomes dos usuários, do arquivo e da pasta de cada entrada */
+  expand: boolean;
+  page: number;
+  limit: number;
+}
+
+const targetUsers = alias(users, 'target_users');
+
+export const logFields = {
+  id: logs.id,
+  userId: logs.userId,
+  fileId: logs.fileId,
+  folderId: logs.folderId,
+  targetUserId: logs.targetUserId,
+  shareId: logs.shareId,
+  ip: logs.ip,
+  userAgent: logs.userAgent,
+  requestId: logs.requestId,
+  details: logs.details,
+  actionType: logs.actionType,
+  timestamp: logs.timestamp,
+  sequence: logs.sequence,
+  previousHash: logs.previousHash,
+  hash: logs.hash,
+};
+
+export const logNameFields = {
+  userName: users.name,
+  userEmail: users.email,
+  targetUserName: targetUsers.name,
+  fileName: files.name,
+  folderName: folders.name,
+};
+
+export function buildLogConditions(filters: LogFilters): SQL | undefined {
+  return and(
+    filters.userId ? eq(logs.userId, filters.userId) : undefined,
+    filters.fileId ? eq(logs.fileId, filters.fileId) : undefined,
+    filters.folderId ? eq(logs.folderId, filters.folderId) : undefined,
+    filters.targetUserId
+      ? eq(logs.targetUserId, filters.targetUserId)
+      : undefined,
+    filters.shareId ? eq(logs.shareId, filters.shareId) : undefined,
+    filters.actionType?.length
+      ? inArray(logs.actionType, filters.actionType)
+      : undefined,
+    filters.from ? gte(logs.timestamp, filters.from) : undefined,
+    filters.to ? lte(logs.timestamp, filters.to) : undefined
+  );
+}
+
+/**
+ * Junta à consulta de logs as tabelas usadas por `logNameFields`. Entradas
+ * cujo usuário, arquivo ou pasta não existem mais mantêm os nomes nulos.
+ */
+export function joinLogNames<T extends PgSelect>(query: T) {
+  return query
+    .leftJoin(users, eq(logs.userId, users.id))
+    .leftJoin(targetUsers, eq(logs.targetUserId, targetUsers.id))
+    .leftJoin(files, eq(logs.fileId, files.id))
+    .leftJoin(folders, eq(logs.folderId, folders.id));
+}
+
+export function orderLogs(sort: LogSortOrder) {
+  const direction = sort === 'asc' ? asc : desc;
+  return [direction(logs.timestamp), direction(logs.sequence)];
+}
+
+/**
+ * Consultas paginadas aos logs
+ */
+export class LogQueryService {
+  async list(options: LogListOptions) {
+    const whereClause = buildLogConditions(options.filters);
+
+    const [totalResult] = await db
+      .select({ count: count() })
+      .from(logs)
+      .where(whereClause);
+
+    const query = db
+      .select(options.expand ? { ...logFields, ...logNameFields } : logFields)
+      .from(logs)
+      .where(whereClause)
+      .orderBy(...orderLogs(options.sort))
+      .limit(options.limit)
+      .offset(calculateOffset(options.page, options.limit))
+      .$dynamic();
+
+    const items = await (options.expand ? joinLogNames(query) : query);
+
+    return { items, total: totalResult.count };
+  }
+}
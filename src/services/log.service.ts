@@ -0,0 +1,163 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { desc, isNotNull, sql } from 'drizzle-orm';
+import { type DbExecutor, db } from '../db/connection.ts';
+import { type logActionTypeEnum, logs } from '../db/schema/logs.ts';
+import {
+  getRequestContext,
+  type RequestContext,
+} from '../utils/request-context.ts';
+
+export type LogActionType = (typeof logActionTypeEnum.enumValues)[number];
+
+export type LogDetails = Record<string, unknown>;
+
+export type LogRecord = typeof logs.$inferSelect;
+
+type HashedLogFields = Omit<LogRecord, 'hash'>;
+
+export interface LogEntry {
+  /** Nulo em acessos anônimos */
+  userId: string | null;
+  actionType: LogActionType;
+  fileId?: string | null;
+  folderId?: string | null;
+  targetUserId?: string | null;
+  shareId?: string | null;
+  details?: LogDetails | null;
+  /** Usa o contexto da requisição em andamento quando omitido */
+  context?: RequestContext;
+}
+
+export interface ChangeDetails extends LogDetails {
+  before: LogDetails;
+  after: LogDetails;
+}
+
+// bigint não é serializável em JSON
+function toJsonValue(value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Monta os valores antes/depois apenas dos campos que mudaram. Retorna
+ * null quando nada mudou.
+ */
+export function diffChanges<T extends LogDetails>(
+  before: T,
+  after: Partial<T>
+): ChangeDetails | null {
+  const changes: ChangeDetails = { before: {}, after: {} };
+
+  for (const [key, value] of Object.entries(after)) {
+    if (value === undefined || value === before[key]) {
+      continue;
+    }
+    changes.before[key] = toJsonValue(before[key]);
+    changes.after[key] = toJsonValue(value);
+  }
+
+  return Object.keys(changes.after).length > 0 ? changes : null;
+}
+
+// O jsonb não preserva a ordem das chaves: o hash usa chaves ordenadas
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .sort(([a], [b]) => (a < b ? -1 : Number(a > b)))
+        .map(([key, item]) => [key, sortKeys(item)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Calcula o SHA-256 do conteúdo de uma entrada, incluindo sua posição na
+ * cadeia e o hash da entrada anterior
+ */
+export function computeLogHash(entry: HashedLogFields): string {
+  const fields: unknown[] = [
+    entry.id,
+    entry.sequence,
+    entry.previousHash,
+    entry.userId,
+    entry.actionType,
+    entry.fileId,
+    entry.folderId,
+    entry.targetUserId,
+    entry.ip,
+    entry.userAgent,
+    entry.requestId,
+    sortKeys(entry.details),
+    entry.timestamp.toISOString(),
+  ];
+
+  // Colunas criadas depois do encadeamento só entram no hash quando
+  // preenchidas, mantendo válidos os hashes já gravados
+  if (entry.shareId) {
+    fields.push(entry.shareId);
+  }
+
+  return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+}
+
+/**
+ * Trava que serializa a escrita na cadeia de logs até o fim da transação
+ */
+export function lockLogChain(executor: DbExecutor) {
+  return executor.execute(
+    sql`select pg_advisory_xact_lock(hashtext('logs:chain'))`
+  );
+}
+
+/**
+ * Registro de ações dos usuários na tabela de logs
+ */
+export class LogService {
+  /**
+   * Anexa a entrada ao fim da cadeia. Dentro de uma transação, a trava da
+   * cadeia é mantida até o commit, então o registro deve ser feito ao final
+   * do trabalho da transação.
+   */
+  record(entry: LogEntry, executor: DbExecutor = db): Promise<LogRecord> {
+    const context = entry.context ?? getRequestContext();
+
+    return executor.transaction(async (tx) => {
+      await lockLogChain(tx);
+
+      const [last] = await tx
+        .select({ sequence: logs.sequence, hash: logs.hash })
+        .from(logs)
+        .where(isNotNull(logs.sequence))
+        .orderBy(desc(logs.sequence))
+        .limit(1);
+
+      const values: HashedLogFields = {
+        id: randomUUID(),
+        userId: entry.userId,
+        actionType: entry.actionType,
+        fileId: entry.fileId ?? null,
+        folderId: entry.folderId ?? null,
+        targetUserId: entry.targetUserId ?? null,
+        shareId: entry.shareId ?? null,
+        details: entry.details ?? null,
+        ip: context?.ip ?? null,
+        userAgent: context?.userAgent ?? null,
+        requestId: context?.requestId ?? null,
+        timestamp: new Date(),
+        sequence: (last?.sequence ?? 0) + 1,
+        previousHash: last?.hash ?? null,
+      };
+
+      const [created] = await tx
+        .insert(logs)
+        .values({ ...values, hash: computeLogHash(values) })
+        .returning();
+
+      return created;
+    });
+  }
+}
@@ -0,0 +1,366 @@
+import { count, desc, eq, type SQL, type SQLWrapper, sql } from 'drizzle-orm';
+import { db } from '../db/connection.ts';
+import { files } from '../db/schema/files.ts';
+import { folders } from '../db/schema/folders.ts';
+import { users } from '../db/schema/users.ts';
+import { env } from '../env.ts';
+import { HTTP_STATUS, type HttpStatusCode } from '../types/api-response.ts';
+import type { UserRole } from '../types/auth.ts';
+import type { ByteBudget } from './storage/byte-limit-stream.ts';
+
+const ROLE_QUOTAS: Record<UserRole, number | undefined> = {
+  admin: env.STORAGE_QUOTA_ADMIN,
+  colaborador: env.STORAGE_QUOTA_COLABORADOR,
+  visualizador: env.STORAGE_QUOTA_VISUALIZADOR,
+};
+
+export interface StorageUsageByType {
+  type: string;
+  files: number;
+  bytes: bigint;
+}
+
+export interface StorageUsage {
+  used: bigint;
+  /** Nula quando a cota é ilimitada */
+  quota: bigint | null;
+  available: bigint | null;
+  byType: StorageUsageByType[];
+}
+
+export interface FolderQuota {
+  folderId: string;
+  quota: bigint | null;
+  used: bigint;
+}
+
+export interface FolderQuotaChange extends FolderQuota {
+  previousQuota: bigint | null;
+}
+
+interface QuotaLimit {
+  /** Pasta da cota; ausente na cota do usuário */
+  folderId?: string;
+  /** Dono da cota, usado na mensagem de erro */
+  label: string;
+  quota: bigint;
+  used: bigint;
+}
+
+/**
+ * Bytes armazenados de um arquivo: cada conteúdo distinto no histórico de
+ * versões conta uma vez, então restaurar uma versão não cobra de novo
+ */
+function storedFileBytes(fileId: SQLWrapper): SQL<string> {
+  return sql<string>`(
+    select coalesce(sum(v.size), 0)
+    from (
+      select distinct on (coalesce(fv.blob_id::text, fv.storage_path)) fv.size
+      from file_versions fv
+      where fv.file_id = ${fileId}
+    ) v
+  )`;
+}
+
+export class QuotaExceededError extends Error {
+  readonly statusCode: HttpStatusCode;
+
+  constructor(message = 'Cota de armazenamento excedida') {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.statusCode = HTTP_STATUS.INSUFFICIENT_STORAGE;
+  }
+}
+
+/**
+ * Cotas de armazenamento por usuário (padrão do papel, substituível por
+ * usuário) e, opcionalmente, por pasta. O uso soma o conteúdo de todas as
+ * versões mantidas dos arquivos, incluindo os que estão na lixeira; a cota
+ * de uma pasta vale para toda a sua subárvore.
+ */
+export class QuotaService {
+  async getUsage(userId: string): Promise<StorageUsage | null> {
+    const limit = await this.getUserLimit(userId);
+
+    if (limit === undefined) {
+      return null;
+    }
+
+    const storedBytes = sql`coalesce(sum(${storedFileBytes(files.id)}), 0)`;
+    const byType = await db
+      .select({
+        type: files.type,
+        files: count(),
+        bytes: storedBytes.mapWith(BigInt),
+      })
+      .from(files)
+      .where(eq(files.ownerId, userId))
+      .groupBy(files.type)
+      .orderBy(desc(storedBytes));
+
+    const used = byType.reduce((total, entry) => total + entry.bytes, 0n);
+    const quota = limit?.quota ?? null;
+
+    return {
+      used,
+      quota,
+      available: quota === null ? null : maxBigInt(quota - used, 0n),
+      byType,
+    };
+  }
+
+  /**
+   * Menor espaço livre entre a cota do usuário e as cotas das pastas no
+   * caminho até a raiz. Nulo quando nenhuma cota se aplica.
+   */
+  async getRemaining(
+    userId: string,
+    folderId: string | null
+  ): Promise<bigint | null> {
+    const limits = await this.getLimits(userId, folderId);
+
+    if (limits.length === 0) {
+      return null;
+    }
+
+    return limits.reduce(
+      (remaining, limit) => minBigInt(remaining, limit.quota - limit.used),
+      limits[0].quota - limits[0].used
+    );
+  }
+
+  async assertAvailable(
+    userId: string,
+    folderId: string | null,
+    bytes: bigint
+  ): Promise<void> {
+    if (bytes <= 0n) {
+      return;
+    }
+
+    assertWithinLimits(await this.getLimits(userId, folderId), bytes);
+  }
+
+  /**
+   * Verifica as cotas das pastas ao mover `bytes` de uma pasta para outra.
+   * As cotas de pastas que já contêm a origem não mudam com o movimento, e
+   * a do usuário também não, pois o dono dos arquivos é o mesmo.
+   */
+  async assertMoveAvailable(
+    bytes: bigint,
+    fromFolderId: string | null,
+    toFolderId: string | null
+  ): Promise<void> {
+    if (bytes <= 0n || !toFolderId) {
+      return;
+    }
+
+    const sourceLimits = fromFolderId
+      ? await this.getFolderLimits(fromFolderId)
+      : [];
+    const unchanged = new Set(sourceLimits.map((limit) => limit.folderId));
+    const limits = await this.getFolderLimits(toFolderId);
+
+    assertWithinLimits(
+      limits.filter((limit) => !unchanged.has(limit.folderId)),
+      bytes
+    );
+  }
+
+  /**
+   * Orçamento para uploads cujo tamanho só é conhecido durante o streaming.
+   * Lança `QuotaExceededError` se não houver espaço algum.
+   */
+  async createBudget(
+    userId: string,
+    folderId: string | null
+  ): Promise<ByteBudget | undefined> {
+    const remaining = await this.getRemaining(userId, folderId);
+
+    if (remaining === null) {
+      return;
+    }
+
+    if (remaining <= 0n) {
+      throw new QuotaExceededError();
+    }
+
+    return { remaining: Number(remaining) };
+  }
+
+  /**
+   * Define ou remove (null) a cota da pasta. Retorna null se a pasta não
+   * existir.
+   */
+  async setFolderQuota(
+    folderId: string,
+    quota: bigint | null
+  ): Promise<FolderQuotaChange | null> {
+    const [current] = await db
+      .select({ quotaBytes: folders.quotaBytes })
+      .from(folders)
+      .where(eq(folders.id, folderId));
+
+    if (!current) {
+      return null;
+    }
+
+    await db
+      .update(folders)
+      .set({ quotaBytes: quota })
+      .where(eq(folders.id, folderId));
+
+    return {
+      folderId,
+      quota,
+      previousQuota: current.quotaBytes,
+      used: await this.getFolderUsage(folderId),
+    };
+  }
+
+  /**
+   * Bytes armazenados do arquivo, somando as versões mantidas
+   */
+  async getFileUsage(fileId: string): Promise<bigint> {
+    const [row] = await db.execute<{ used: string }>(
+      sql`select ${storedFileBytes(sql`${fileId}::uuid`)}::text as used`
+    );
+
+    return BigInt(row.used);
+  }
+
+  /**
+   * Soma em bytes dos arquivos da pasta e de todas as subpastas
+   */
+  async getFolderUsage(folderId: string): Promise<bigint> {
+    const [row] = await db.execute<{ used: string }>(sql`
+      with recursive subtree as (
+        select id, array[id] as path from folders where id = ${folderId}
+        union all
+        select f.id, s.path || f.id
+        from folders f
+        join subtree s on f.parent_id = s.id
+        where not f.id = any(s.path)
+      )
+      select coalesce(sum(${storedFileBytes(sql`fi.id`)}), 0)::text as used
+      from files fi
+      join subtree s on fi.folder_id = s.id
+    `);
+
+    return BigInt(row.used);
+  }
+
+  private async getLimits(
+    userId: string,
+    folderId: string | null
+  ): Promise<QuotaLimit[]> {
+    const userLimit = await this.getUserLimit(userId);
+    const folderLimits = folderId ? await this.getFolderLimits(folderId) : [];
+
+    return userLimit ? [userLimit, ...folderLimits] : folderLimits;
+  }
+
+  /**
+   * Retorna undefined para usuários inexistentes e null para cotas
+   * ilimitadas
+   */
+  private async getUserLimit(
+    userId: string
+  ): Promise<QuotaLimit | null | undefined> {
+    const [user] = await db
+      .select({ role: users.role, quotaBytes: users.quotaBytes })
+      .from(users)
+      .where(eq(users.id, userId));
+
+    if (!user) {
+      return;
+    }
+
+    const roleQuota = ROLE_QUOTAS[user.role];
+    const quota =
+      user.quotaBytes ?? (roleQuota === undefined ? null : BigInt(roleQuota));
+
+    if (quota === null) {
+      return null;
+    }
+
+    const [{ used }] = await db
+      .select({
+        used: sql`coalesce(sum(${storedFileBytes(files.id)}), 0)`.mapWith(
+          BigInt
+        ),
+      })
+      .from(files)
+      .where(eq(files.ownerId, userId));
+
+    return { label: 'do usuário', quota, used };
+  }
+
+  private async getFolderLimits(folderId: string): Promise<QuotaLimit[]> {
+    const rows = await db.execute<{
+      id: string;
+      name: string;
+      quota: string;
+      used: string;
+    }>(
+      sql`
+        with recursive ancestors as (
+          select id, parent_id, name, quota_bytes, array[id] as path
+          from folders
+          where id = ${folderId}
+          union all
+          select f.id, f.parent_id, f.name, f.quota_bytes, a.path || f.id
+          from folders f
+          join ancestors a on f.id = a.parent_id
+          where not f.id = any(a.path)
+        ),
+        limited as (
+          select id, name, quota_bytes from ancestors
+          where quota_bytes is not null
+        ),
+        subtree as (
+          select id as root_id, id, array[id] as path from limited
+          union all
+          select s.root_id, f.id, s.path || f.id
+          from folders f
+          join subtree s on f.parent_id = s.id
+          where not f.id = any(s.path)
+        )
+        select
+          l.id,
+          l.name,
+          l.quota_bytes::text as quota,
+          coalesce(sum(${storedFileBytes(sql`fi.id`)}), 0)::text as used
+        from limited l
+        join subtree s on s.root_id = l.id
+        left join files fi on fi.folder_id = s.id
+        group by l.id, l.name, l.quota_bytes
+      `
+    );
+
+    return rows.map((row) => ({
+      folderId: row.id,
+      label: `da pasta "${row.name}"`,
+      quota: BigInt(row.quota),
+      used: BigInt(row.used),
+    }));
+  }
+}
+
+function assertWithinLimits(limits: QuotaLimit[], bytes: bigint): void {
+  const exceeded = limits.find((limit) => limit.used + bytes > limit.quota);
+
+  if (exceeded) {
+    throw new QuotaExceededError(
+      `Cota de armazenamento ${exceeded.label} excedida: ${maxBigInt(exceeded.quota - exceeded.used, 0n)} bytes disponíveis`
+    );
+  }
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
@@ -0,0 +1,550 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { and, desc, eq, gt, isNull, lt, or, sql } from 'drizzle-orm';
+import { db } from '../db/connection.ts';
+import { files } from '../db/schema/files.ts';
+import { folders } from '../db/schema/folders.ts';
+import { logs } from '../db/schema/logs.ts';
+import { shares } from '../db/schema/shares.ts';
+import { users } from '../db/schema/users.ts';
+import { HTTP_STATUS, type HttpStatusCode } from '../types/api-response.ts';
+import type { AuthenticatedUser } from '../types/auth.ts';
+import { getPublicBaseUrl } from '../utils/public-url.ts';
+import { getRequestContext } from '../utils/request-context.ts';
+import { type AclPrincipal, AclService } from './acl.service.ts';
+import { hashPassword, verifyPassword } from './auth/password.ts';
+import type { FileRecord } from './file-version.service.ts';
+import {
+  type FolderRecord,
+  FolderService,
+  type SubtreeFile,
+} from './folder.service.ts';
+import { LogService } from './log.service.ts';
+import { LogQueryService } from './log-query.service.ts';
+
+const TOKEN_BYTES = 32;
+// Por quanto tempo um download contado pode ser retomado sem contar de novo
+const RESUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Tentativas de senha incorretas aceitas por janela, antes de calcular o scrypt
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const MAX_PASSWORD_ATTEMPTS_PER_IP = 5;
+const MAX_PASSWORD_ATTEMPTS_PER_SHARE = 50;
+const INVALID_PASSWORD_MESSAGE = 'Senha inválida';
+
+export type ShareRecord = typeof shares.$inferSelect;
+
+export interface ShareCreateInput {
+  fileId?: string;
+  folderId?: string;
+  password?: string;
+  expiresAt?: Date;
+  maxDownloads?: number;
+  viewOnly?: boolean;
+}
+
+export interface CreatedShare {
+  share: ShareRecord;
+  /** Exibido apenas na criação: o banco guarda só o hash do token */
+  token: string;
+  url: string;
+}
+
+export type ShareAccessAction = 'view' | 'download';
+
+export interface ShareAccess {
+  token: string;
+  password?: string;
+}
+
+export interface ShareOpenOptions {
+  action: ShareAccessAction;
+  /** Arquivo específico dentro de uma pasta compartilhada */
+  fileId?: string;
+  /**
+   * Downloads de arquivo que retomam um download anterior não contam no
+   * limite, desde que o mesmo IP tenha feito um download contado do arquivo
+   * recentemente. Zips de pastas sempre contam.
+   */
+  isResumedDownload?: (file: FileRecord) => boolean;
+}
+
+export type SharedContent =
+  | { type: 'file'; share: ShareRecord; file: FileRecord }
+  | {
+      type: 'folder';
+      share: ShareRecord;
+      folder: FolderRecord;
+      files: SubtreeFile[];
+    };
+
+export class ShareError extends Error {
+  readonly statusCode: HttpStatusCode;
+
+  constructor(message: string, statusCode: HttpStatusCode) {
+    super(message);
+    this.name = 'ShareError';
+    this.statusCode = statusCode;
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function getShareUrl(token: string): string {
+  return `${getPublicBaseUrl()}/s/${token}`;
+}
+
+/**
+ * Links públicos de arquivos e pastas para quem não tem conta. Cada acesso
+ * ao link, permitido ou não, é registrado nos logs como `access_share`.
+ */
+export class ShareService {
+  private readonly aclService = new AclService();
+  private readonly folderService = new FolderService();
+  private readonly logService = new LogService();
+  private readonly logQueryService = new LogQueryService();
+
+  async create(
+    input: ShareCreateInput,
+    actor: AuthenticatedUser
+  ): Promise<CreatedShare> {
+    if (Boolean(input.fileId) === Boolean(input.folderId)) {
+      throw new ShareError(
+        'Informe um arquivo ou uma pasta para compartilhar',
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    if (input.expiresAt && input.expiresAt.getTime() <= Date.now()) {
+      throw new ShareError(
+        'A data de expiração deve estar no futuro',
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    await this.assertTargetExists(input);
+
+    // Só compartilha quem pode ler o conteúdo
+    if (!(await this.aclService.hasAccess(actor, input, 'read'))) {
+      throw new ShareError(
+        'Você não tem permissão para compartilhar este item',
+        HTTP_STATUS.FORBIDDEN
+      );
+    }
+
+    const token = randomBytes(TOKEN_BYTES).toString('base64url');
+    const passwordHash = input.password
+      ? await hashPassword(input.password)
+      : null;
+
+    const share = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(shares)
+        .values({
+          tokenHash: hashToken(token),
+          fileId: input.fileId ?? null,
+          folderId: input.folderId ?? null,
+          createdBy: actor.id,
+          passwordHash,
+          expiresAt: input.expiresAt ?? null,
+          maxDownloads: input.maxDownloads ?? null,
+          viewOnly: input.viewOnly ?? false,
+        })
+        .returning();
+
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: 'share',
+          fileId: created.fileId,
+          folderId: created.folderId,
+          shareId: created.id,
+          details: {
+            expiresAt: created.expiresAt?.toISOString() ?? null,
+            maxDownloads: created.maxDownloads,
+            viewOnly: created.viewOnly,
+            passwordProtected: passwordHash !== null,
+          },
+        },
+        tx
+      );
+
+      return created;
+    });
+
+    return { share, token, url: getShareUrl(token) };
+  }
+
+  /**
+   * Links criados pelo usuário; administradores veem os de todos
+   */
+  list(actor: AuthenticatedUser): Promise<ShareRecord[]> {
+    return db
+      .select()
+      .from(shares)
+      .where(
+        actor.role === 'admin' ? undefined : eq(shares.createdBy, actor.id)
+      )
+      .orderBy(desc(shares.createdAt));
+  }
+
+  async revoke(id: string, actor: AuthenticatedUser): Promise<ShareRecord> {
+    await this.getManaged(id, actor);
+
+    return db.transaction(async (tx) => {
+      const [revoked] = await tx
+        .update(shares)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(shares.id, id), isNull(shares.revokedAt)))
+        .returning();
+
+      if (!revoked) {
+        throw new ShareError('Link já revogado', HTTP_STATUS.CONFLICT);
+      }
+
+      await this.logService.record(
+        {
+          userId: actor.id,
+          actionType: 'revoke_share',
+          fileId: revoked.fileId,
+          folderId: revoked.folderId,
+          shareId: revoked.id,
+        },
+        tx
+      );
+
+      return revoked;
+    });
+  }
+
+  async listAccesses(
+    id: string,
+    actor: AuthenticatedUser,
+    page: number,
+    limit: number
+  ) {
+    await this.getManaged(id, actor);
+
+    return this.logQueryService.list({
+      filters: { shareId: id, actionType: ['access_share'] },
+      sort: 'desc',
+      expand: true,
+      page,
+      limit,
+    });
+  }
+
+  /**
+   * Valida o link e retorna o conteúdo compartilhado. Lança `ShareError`
+   * quando o link não existe, foi revogado, expirou, exige outra senha,
+   * não permite download ou atingiu o limite de downloads.
+   */
+  async open(
+    access: ShareAccess,
+    options: ShareOpenOptions
+  ): Promise<SharedContent> {
+    const [share] = await db
+      .select()
+      .from(shares)
+      .where(eq(shares.tokenHash, hashToken(access.token)))
+      .limit(1);
+
+    if (!share) {
+      throw new ShareError('Link não encontrado', HTTP_STATUS.NOT_FOUND);
+    }
+
+    try {
+      await this.assertAccessible(share, access.password, options.action);
+      const content = await this.resolveContent(share, options.fileId);
+
+      const counted =
+        options.action === 'download' &&
+        !(await this.isResumedDownload(share, content, options));
+
+      if (counted) {
+        content.share = await this.countDownload(share);
+      }
+
+      await this.recordAccess(share, options, { counted });
+
+      return content;
+    } catch (error) {
+      if (error instanceof ShareError) {
+        await this.recordAccess(share, options, { error });
+      }
+      throw error;
+    }
+  }
+
+  private async getManaged(
+    id: string,
+    actor: AuthenticatedUser
+  ): Promise<ShareRecord> {
+    const [share] = await db.select().from(shares).where(eq(shares.id, id));
+
+    if (!share) {
+      throw new ShareError('Link não encontrado', HTTP_STATUS.NOT_FOUND);
+    }
+
+    if (share.createdBy !== actor.id && actor.role !== 'admin') {
+      throw new ShareError(
+        'Apenas quem criou o link pode gerenciá-lo',
+        HTTP_STATUS.FORBIDDEN
+      );
+    }
+
+    return share;
+  }
+
+  private async assertTargetExists(input: ShareCreateInput) {
+    const [target] = input.fileId
+      ? await db
+          .select({ id: files.id })
+          .from(files)
+          .where(and(eq(files.id, input.fileId), eq(files.status, 'ativo')))
+      : await db
+          .select({ id: folders.id })
+          .from(folders)
+          .where(
+            and(
+              eq(folders.id, input.folderId as string),
+              eq(folders.status, 'ativo')
+            )
+          );
+
+    if (!target) {
+      throw new ShareError(
+        input.fileId ? 'Arquivo não encontrado' : 'Pasta não encontrada',
+        HTTP_STATUS.NOT_FOUND
+      );
+    }
+  }
+
+  private async assertAccessible(
+    share: ShareRecord,
+    password: string | undefined,
+    action: ShareAccessAction
+  ) {
+    if (share.revokedAt) {
+      throw new ShareError('Link revogado', HTTP_STATUS.GONE);
+    }
+
+    if (share.expiresAt && share.expiresAt.getTime() <= Date.now()) {
+      throw new ShareError('Link expirado', HTTP_STATUS.GONE);
+    }
+
+    if (share.passwordHash) {
+      if (!password) {
+        throw new ShareError('Este link exige senha', HTTP_STATUS.UNAUTHORIZED);
+      }
+
+      await this.assertPasswordAttemptsAvailable(share);
+
+      if (!(await verifyPassword(password, share.passwordHash))) {
+        throw new ShareError(
+          INVALID_PASSWORD_MESSAGE,
+          HTTP_STATUS.UNAUTHORIZED
+        );
+      }
+    }
+
+    if (action === 'download' && share.viewOnly) {
+      throw new ShareError(
+        'Este link permite apenas visualização',
+        HTTP_STATUS.FORBIDDEN
+      );
+    }
+  }
+
+  /**
+   * Limita as senhas incorretas por IP e por link, consultando os acessos
+   * negados nos logs. Barra tentativas de adivinhação e o custo de memória e
+   * CPU do scrypt em requisições anônimas.
+   */
+  private async assertPasswordAttemptsAvailable(share: ShareRecord) {
+    const ip = getRequestContext()?.ip ?? null;
+
+    const [attempts] = await db
+      .select({
+        fromIp: sql<number>`count(*) filter (where ${logs.ip} = ${ip})::int`,
+        total: sql<number>`count(*)::int`,
+      })
+      .from(logs)
+      .where(
+        and(
+          eq(logs.actionType, 'access_share'),
+          eq(logs.shareId, share.id),
+          sql`${logs.details}->>'reason' = ${INVALID_PASSWORD_MESSAGE}`,
+          gt(logs.timestamp, new Date(Date.now() - PASSWORD_ATTEMPT_WINDOW_MS))
+        )
+      );
+
+    if (
+      attempts.fromIp >= MAX_PASSWORD_ATTEMPTS_PER_IP ||
+      attempts.total >= MAX_PASSWORD_ATTEMPTS_PER_SHARE
+    ) {
+      throw new ShareError(
+        'Muitas tentativas de senha incorretas. Tente novamente mais tarde',
+        HTTP_STATUS.TOO_MANY_REQUESTS
+      );
+    }
+  }
+
+  private async resolveContent(
+    share: ShareRecord,
+    fileId: string | undefined
+  ): Promise<SharedContent> {
+    const unavailable = new ShareError(
+      'Conteúdo compartilhado não está mais disponível',
+      HTTP_STATUS.NOT_FOUND
+    );
+
+    // O link expõe apenas o que quem o criou ainda pode ler
+    const creator = await this.findCreator(share);
+    if (
+      !(creator && (await this.aclService.hasAccess(creator, share, 'read')))
+    ) {
+      throw unavailable;
+    }
+
+    if (share.fileId) {
+      const [file] = await db
+        .select()
+        .from(files)
+        .where(and(eq(files.id, share.fileId), eq(files.status, 'ativo')));
+
+      if (!file || (fileId && fileId !== file.id)) {
+        throw unavailable;
+      }
+
+      return { type: 'file', share, file };
+    }
+
+    const [folder] = await db
+      .select()
+      .from(folders)
+      .where(
+        and(
+          eq(folders.id, share.folderId as string),
+          eq(folders.status, 'ativo')
+        )
+      );
+
+    if (!folder) {
+      throw unavailable;
+    }
+
+    const subtreeFiles = await this.folderService.listSubtreeFiles(folder.id, {
+      readableBy: creator,
+    });
+
+    if (!fileId) {
+      return { type: 'folder', share, folder, files: subtreeFiles };
+    }
+
+    const subtreeFile = subtreeFiles.find((entry) => entry.id === fileId);
+    if (!subtreeFile) {
+      throw new ShareError(
+        'Arquivo não encontrado no compartilhamento',
+        HTTP_STATUS.NOT_FOUND
+      );
+    }
+
+    return { type: 'file', share, file: subtreeFile };
+  }
+
+  private async findCreator(
+    share: ShareRecord
+  ): Promise<AclPrincipal | undefined> {
+    const [creator] = await db
+      .select({ id: users.id, role: users.role })
+      .from(users)
+      .where(eq(users.id, share.createdBy));
+
+    return creator;
+  }
+
+  /**
+   * Uma retomada só é gratuita se continuar um download já contado: sem
+   * isso, bastaria enviar `If-Range` com o ETag para baixar sem limite
+   */
+  private async isResumedDownload(
+    share: ShareRecord,
+    content: SharedContent,
+    options: ShareOpenOptions
+  ): Promise<boolean> {
+    const ip = getRequestContext()?.ip;
+
+    if (
+      !(
+        ip &&
+        content.type === 'file' &&
+        options.isResumedDownload?.(content.file)
+      )
+    ) {
+      return false;
+    }
+
+    const [countedDownload] = await db
+      .select({ id: logs.id })
+      .from(logs)
+      .where(
+        and(
+          eq(logs.actionType, 'access_share'),
+          eq(logs.shareId, share.id),
+          eq(logs.fileId, content.file.id),
+          eq(logs.ip, ip),
+          sql`${logs.details}->>'counted' = 'true'`,
+          gt(logs.timestamp, new Date(Date.now() - RESUME_WINDOW_MS))
+        )
+      )
+      .limit(1);
+
+    return Boolean(countedDownload);
+  }
+
+  /**
+   * Incrementa o contador de forma atômica, para que downloads simultâneos
+   * não ultrapassem o limite
+   */
+  private async countDownload(share: ShareRecord): Promise<ShareRecord> {
+    const withinLimit = or(
+      isNull(shares.maxDownloads),
+      lt(shares.downloadCount, shares.maxDownloads)
+    );
+
+    const [updated] = await db
+      .update(shares)
+      .set({ downloadCount: sql`${shares.downloadCount} + 1` })
+      .where(and(eq(shares.id, share.id), withinLimit))
+      .returning();
+
+    if (!updated) {
+      throw new ShareError('Limite de downloads atingido', HTTP_STATUS.GONE);
+    }
+
+    return updated;
+  }
+
+  private async recordAccess(
+    share: ShareRecord,
+    options: ShareOpenOptions,
+    outcome: { error?: ShareError; counted?: boolean }
+  ) {
+    const { error, counted } = outcome;
+
+    await this.logService.record({
+      userId: null,
+      actionType: 'access_share',
+      fileId: options.fileId ?? share.fileId,
+      folderId: share.folderId,
+      shareId: share.id,
+      details: {
+        action: options.action,
+        granted: !error,
+        ...(error && { reason: error.message }),
+        ...(counted && { counted }),
+      },
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { after, describe, it } from 'node:test';
+
+// A assinatura usa o segredo definido no env
+process.env.JWT_SECRET ??= 'x'.repeat(32);
+
+const { sql } = await import('../db/connection.ts');
+const { signUrlClaims, SignedUrlError } = await import(
+  './storage/signed-url.ts'
+);
+const { SignedUrlService } = await import('./signed-url.service.ts');
+
+const CLIENT_IP = '203.0.113.10';
+
+function inSeconds(seconds: number): number {
+  return Math.floor(Date.now() / 1000) + seconds;
+}
+
+function signedAccess(expires: number, ipBound = false) {
+  const storagePath = 'ab/arquivo.bin';
+
+  return {
+    storagePath,
+    expires,
+    ipBound,
+    signature: signUrlClaims({
+      storagePath,
+      expires,
+      ip: ipBound ? CLIENT_IP : undefined,
+    }),
+  };
+}
+
+describe('URLs assinadas', () => {
+  const service = new SignedUrlService();
+
+  after(async () => {
+    await sql.end();
+  });
+
+  it('aceita a URL assinada dentro do prazo', async () => {
+    await service.verify(signedAccess(inSeconds(60)), CLIENT_IP);
+  });
+
+  it('recusa a URL expirada mesmo com assinatura válida', async () => {
+    await assert.rejects(
+      service.verify(signedAccess(inSeconds(-1)), CLIENT_IP),
+      new SignedUrlError('URL expirada')
+    );
+  });
+
+  it('recusa a URL com a expiração ou o caminho alterados', async () => {
+    const access = signedAccess(inSeconds(60));
+
+    await assert.rejects(
+      service.verify({ ...access, expires: inSeconds(3600) }, CLIENT_IP),
+      new SignedUrlError('Assinatura inválida')
+    );
+    await assert.rejects(
+      service.verify({ ...access, storagePath: 'ab/outro.bin' }, CLIENT_IP),
+      new SignedUrlError('Assinatura inválida')
+    );
+  });
+
+  it('aceita a URL vinculada apenas a partir do IP original', async () => {
+    const access = signedAccess(inSeconds(60), true);
+
+    await service.verify(access, CLIENT_IP);
+    await assert.rejects(
+      service.verify(access, '198.51.100.1'),
+      new SignedUrlError('Assinatura inválida')
+    );
+    await assert.rejects(
+      service.verify({ ...access, ipBound: false }, CLIENT_IP),
+      new SignedUrlError('Assinatura inválida')
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { lt, sql } from 'drizzle-orm';
+import { db } from '../db/connection.ts';
+import { signedUrlNonces } from '../db/schema/signed-url-nonces.ts';
+import {
+  hasValidSignature,
+  type SignedUrlClaims,
+  SignedUrlError,
+} from './storage/signed-url.ts';
+
+export interface SignedUrlAccess {
+  storagePath: string;
+  expires: number;
+  nonce?: string;
+  ipBound: boolean;
+  signature: string;
+}
+
+/**
+ * Validação das URLs assinadas do storage local
+ */
+export class SignedUrlService {
+  /**
+   * Confere expiração, assinatura e IP de origem e, para URLs de uso
+   * único, registra o acesso. Lança `SignedUrlError` quando a URL não vale.
+   */
+  async verify(access: SignedUrlAccess, clientIp: string): Promise<void> {
+    const expiresAt = new Date(access.expires * 1000);
+
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new SignedUrlError('URL expirada');
+    }
+
+    const claims: SignedUrlClaims = {
+      storagePath: access.storagePath,
+      expires: access.expires,
+      nonce: access.nonce,
+      ip: access.ipBound ? clientIp : undefined,
+    };
+
+    // Com IP vinculado, a assinatura só confere a partir do IP original
+    if (!hasValidSignature(claims, access.signature)) {
+      throw new SignedUrlError('Assinatura inválida');
+    }
+
+    if (access.nonce && !(await this.consume(access.nonce, expiresAt))) {
+      throw new SignedUrlError('URL de uso único já utilizada');
+    }
+  }
+
+  private async consume(nonce: string, expiresAt: Date): Promise<boolean> {
+    // Nonces expirados não podem mais ser usados e são descartados
+    await db
+      .delete(signedUrlNonces)
+      .where(lt(signedUrlNonces.expiresAt, sql`now()`));
+
+    const [used] = await db
+      .insert(signedUrlNonces)
+      .values({ nonce, expiresAt })
+      .onConflictDoNothing()
+      .returning({ nonce: signedUrlNonces.nonce });
+
+    return Boolean(used);
+  }
+}
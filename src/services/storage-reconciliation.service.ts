@@ -0,0 +1,320 @@
+import { createHash } from 'node:crypto';
+import type { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { and, inArray, ne, notInArray } from 'drizzle-orm';
+import { db } from '../db/connection.ts';
+import { blobs } from '../db/schema/blobs.ts';
+import { fileVersions } from '../db/schema/file-versions.ts';
+import { files } from '../db/schema/files.ts';
+import { uploadParts } from '../db/schema/upload-sessions.ts';
+import { logger } from '../utils/logger.ts';
+import { getStorageProvider } from './storage/storage.factory.ts';
+
+export const QUARANTINE_PREFIX = 'quarantine/';
+
+// Objetos recentes podem pertencer a uploads ainda não registrados no banco
+const ORPHAN_GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+export interface ReconciliationOptions {
+  /** Move órfãos para a quarentena e marca arquivos com problemas */
+  fix?: boolean;
+  /** Recalcula o SHA-256 de cada objeto referenciado (lê todo o conteúdo) */
+  verifyChecksums?: boolean;
+}
+
+export interface ReferencedObjectOwners {
+  fileIds: string[];
+  versionIds: string[];
+}
+
+export interface OrphanObject {
+  storagePath: string;
+  size: number;
+  lastModified: Date;
+  quarantinePath: string | null;
+}
+
+export interface MissingObject extends ReferencedObjectOwners {
+  storagePath: string;
+}
+
+export interface ChecksumMismatch extends ReferencedObjectOwners {
+  storagePath: string;
+  expected: string;
+  actual: string;
+}
+
+export interface ReconciliationReport {
+  startedAt: Date;
+  finishedAt: Date;
+  fixed: boolean;
+  checksumsVerified: boolean;
+  scannedObjects: number;
+  referencedObjects: number;
+  orphans: OrphanObject[];
+  missing: MissingObject[];
+  checksumMismatches: ChecksumMismatch[];
+  flaggedFiles: number;
+}
+
+interface ObjectReference extends ReferencedObjectOwners {
+  expectedChecksum: string | null;
+}
+
+/**
+ * Compara os objetos do storage com os caminhos referenciados no banco
+ * (arquivos, versões, blobs e partes de uploads retomáveis), apontando
+ * órfãos, objetos ausentes e conteúdos cujo checksum não confere.
+ */
+export class StorageReconciliationService {
+  private readonly storageProvider = getStorageProvider();
+
+  async reconcile(
+    options: ReconciliationOptions = {}
+  ): Promise<ReconciliationReport> {
+    const startedAt = new Date();
+    const fix = options.fix ?? false;
+    const verifyChecksums = options.verifyChecksums ?? false;
+
+    // As referências são lidas antes da listagem: objetos gravados depois
+    // disso ficam protegidos pelo período de carência
+    const references = await this.loadReferences();
+
+    const { storedPaths, orphans } = await this.scanStorage(
+      references,
+      startedAt.getTime() - ORPHAN_GRACE_PERIOD_MS
+    );
+    const { missing, checksumMismatches } = await this.checkReferences(
+      references,
+      storedPaths,
+      verifyChecksums
+    );
+
+    let flaggedFiles = 0;
+    if (fix) {
+      await this.quarantine(orphans);
+      flaggedFiles = await this.flagFiles(
+        missing,
+        checksumMismatches,
+        verifyChecksums
+      );
+    }
+
+    return {
+      startedAt,
+      finishedAt: new Date(),
+      fixed: fix,
+      checksumsVerified: verifyChecksums,
+      scannedObjects: storedPaths.size,
+      referencedObjects: references.size,
+      orphans,
+      missing,
+      checksumMismatches,
+      flaggedFiles,
+    };
+  }
+
+  private async scanStorage(
+    references: Map<string, ObjectReference>,
+    graceLimit: number
+  ) {
+    const storedPaths = new Set<string>();
+    const orphans: OrphanObject[] = [];
+
+    for await (const object of this.storageProvider.list()) {
+      if (object.storagePath.startsWith(QUARANTINE_PREFIX)) {
+        continue;
+      }
+
+      storedPaths.add(object.storagePath);
+
+      if (
+        !references.has(object.storagePath) &&
+        object.lastModified.getTime() < graceLimit
+      ) {
+        orphans.push({ ...object, quarantinePath: null });
+      }
+    }
+
+    return { storedPaths, orphans };
+  }
+
+  private async checkReferences(
+    references: Map<string, ObjectReference>,
+    storedPaths: Set<string>,
+    verifyChecksums: boolean
+  ) {
+    const missing: MissingObject[] = [];
+    const checksumMismatches: ChecksumMismatch[] = [];
+
+    for (const [storagePath, reference] of references) {
+      if (!storedPaths.has(storagePath)) {
+        // Confirma a ausência: o objeto pode ter sido gravado após a listagem
+        // biome-ignore lint/nursery/noAwaitInLoop: true
+        if (!(await this.storageProvider.exists(storagePath))) {
+          missing.push({
+            storagePath,
+            fileIds: reference.fileIds,
+            versionIds: reference.versionIds,
+          });
+        }
+        continue;
+      }
+
+      if (!(verifyChecksums && reference.expectedChecksum)) {
+        continue;
+      }
+
+      const actual = await this.computeChecksum(storagePath);
+      if (actual !== reference.expectedChecksum) {
+        checksumMismatches.push({
+          storagePath,
+          expected: reference.expectedChecksum,
+          actual,
+          fileIds: reference.fileIds,
+          versionIds: reference.versionIds,
+        });
+      }
+    }
+
+    return { missing, checksumMismatches };
+  }
+
+  private async loadReferences(): Promise<Map<string, ObjectReference>> {
+    const references = new Map<string, ObjectReference>();
+
+    const addReference = (
+      storagePath: string,
+      checksum: string | null,
+      owner?: { fileId?: string; versionId?: string }
+    ) => {
+      const reference = references.get(storagePath) ?? {
+        expectedChecksum: null,
+        fileIds: [],
+        versionIds: [],
+      };
+
+      reference.expectedChecksum ??= checksum;
+      if (owner?.fileId) {
+        reference.fileIds.push(owner.fileId);
+      }
+      if (owner?.versionId) {
+        reference.versionIds.push(owner.versionId);
+      }
+
+      references.set(storagePath, reference);
+    };
+
+    // O checksum do blob é o do conteúdo gravado e tem precedência
+    const blobRows = await db
+      .select({ storagePath: blobs.storagePath, checksum: blobs.checksum })
+      .from(blobs);
+    for (const blob of blobRows) {
+      addReference(blob.storagePath, blob.checksum);
+    }
+
+    const fileRows = await db
+      .select({
+        id: files.id,
+        storagePath: files.storagePath,
+        checksum: files.checksum,
+      })
+      .from(files);
+    for (const file of fileRows) {
+      addReference(file.storagePath, file.checksum, { fileId: file.id });
+    }
+
+    const versionRows = await db
+      .select({
+        id: fileVersions.id,
+        storagePath: fileVersions.storagePath,
+        checksum: fileVersions.checksum,
+      })
+      .from(fileVersions);
+    for (const version of versionRows) {
+      addReference(version.storagePath, version.checksum, {
+        versionId: version.id,
+      });
+    }
+
+    const partRows = await db
+      .select({ storagePath: uploadParts.storagePath })
+      .from(uploadParts);
+    for (const part of partRows) {
+      addReference(part.storagePath, null);
+    }
+
+    return references;
+  }
+
+  private async computeChecksum(storagePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    await pipeline(
+      this.storageProvider.createReadStream(storagePath) as Readable,
+      hash
+    );
+    return hash.digest('hex');
+  }
+
+  private async quarantine(orphans: OrphanObject[]): Promise<void> {
+    for (const orphan of orphans) {
+      const quarantinePath = `${QUARANTINE_PREFIX}${orphan.storagePath}`;
+      try {
+        // biome-ignore lint/nursery/noAwaitInLoop: true
+        await this.storageProvider.move(orphan.storagePath, quarantinePath);
+        orphan.quarantinePath = quarantinePath;
+      } catch (error) {
+        logger.error(
+          `Falha ao mover objeto órfão para a quarentena: ${orphan.storagePath}`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Marca os arquivos cujo conteúdo atual está ausente ou corrompido e
+   * libera os demais. Sem a verificação de checksums, marcações de
+   * corrupção anteriores são mantidas.
+   */
+  private flagFiles(
+    missing: MissingObject[],
+    checksumMismatches: ChecksumMismatch[],
+    checksumsVerified: boolean
+  ): Promise<number> {
+    const missingIds = missing.flatMap((object) => object.fileIds);
+    const corruptedIds = checksumMismatches.flatMap((object) => object.fileIds);
+    const brokenIds = [...missingIds, ...corruptedIds];
+    const integrityCheckedAt = new Date();
+
+    return db.transaction(async (tx) => {
+      if (missingIds.length > 0) {
+        await tx
+          .update(files)
+          .set({ integrityStatus: 'ausente', integrityCheckedAt })
+          .where(inArray(files.id, missingIds));
+      }
+
+      if (corruptedIds.length > 0) {
+        await tx
+          .update(files)
+          .set({ integrityStatus: 'corrompido', integrityCheckedAt })
+          .where(inArray(files.id, corruptedIds));
+      }
+
+      await tx
+        .update(files)
+        .set({ integrityStatus: 'integro', integrityCheckedAt })
+        .where(
+          and(
+            brokenIds.length > 0 ? notInArray(files.id, brokenIds) : undefined,
+            checksumsVerified
+              ? undefined
+              : ne(files.integrityStatus, 'corrompido')
+          )
+        );
+
+      return brokenIds.length;
+    });
+  }
+}
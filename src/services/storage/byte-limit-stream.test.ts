@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { describe, it } from 'node:test';
+import { type ByteBudget, ByteLimitStream } from './byte-limit-stream.ts';
+
+class BudgetExceededError extends Error {}
+
+async function consume(chunks: string[], budget: ByteBudget) {
+  const received: Buffer[] = [];
+
+  await pipeline(
+    Readable.from(chunks.map((chunk) => Buffer.from(chunk))),
+    new ByteLimitStream(budget, () => new BudgetExceededError()),
+    async (source: AsyncIterable<Buffer>) => {
+      for await (const chunk of source) {
+        received.push(chunk);
+      }
+    }
+  );
+
+  return Buffer.concat(received).toString();
+}
+
+describe('ByteLimitStream', () => {
+  it('repassa os bytes e consome o orçamento', async () => {
+    const budget = { remaining: 10 };
+
+    assert.equal(await consume(['abc', 'defg'], budget), 'abcdefg');
+    assert.equal(budget.remaining, 3);
+  });
+
+  it('aceita exatamente o orçamento disponível', async () => {
+    const budget = { remaining: 6 };
+
+    assert.equal(await consume(['abc', 'def'], budget), 'abcdef');
+    assert.equal(budget.remaining, 0);
+  });
+
+  it('falha com o erro informado ao ultrapassar o orçamento', async () => {
+    const budget = { remaining: 5 };
+
+    await assert.rejects(consume(['abc', 'def'], budget), BudgetExceededError);
+    assert.equal(budget.remaining, 2);
+  });
+
+  it('compartilha o orçamento entre streams', async () => {
+    const budget = { remaining: 8 };
+
+    await consume(['abcde'], budget);
+    await assert.rejects(consume(['fghi'], budget), BudgetExceededError);
+    assert.equal(await consume(['fgh'], budget), 'fgh');
+    assert.equal(budget.remaining, 0);
+  });
+});
@@ -0,0 +1,38 @@
+import { Transform, type TransformCallback } from 'node:stream';
+
+/**
+ * Bytes ainda disponíveis, que podem ser compartilhados entre os streams de
+ * uma mesma requisição (ex.: os arquivos de um upload em lote)
+ */
+export interface ByteBudget {
+  remaining: number;
+}
+
+/**
+ * Transform que consome o orçamento à medida que os bytes passam e falha
+ * com o erro informado assim que ele se esgota
+ */
+export class ByteLimitStream extends Transform {
+  private readonly budget: ByteBudget;
+  private readonly createError: () => Error;
+
+  constructor(budget: ByteBudget, createError: () => Error) {
+    super();
+    this.budget = budget;
+    this.createError = createError;
+  }
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    if (chunk.length > this.budget.remaining) {
+      callback(this.createError());
+      return;
+    }
+
+    this.budget.remaining -= chunk.length;
+    callback(null, chunk);
+  }
+}
@@ -0,0 +1,70 @@
+import { createHash, type Hash } from 'node:crypto';
+import { Transform, type TransformCallback } from 'node:stream';
+
+const SHA256_HEX_REGEX = /^[a-f0-9]{64}$/i;
+const SHA256_DIGEST_PREFIX = 'sha-256=';
+
+/**
+ * Transform que calcula SHA-256 e MD5 dos bytes à medida que passam,
+ * sem bufferizar o conteúdo. Os valores ficam disponíveis após o fim do stream.
+ */
+export class ChecksumStream extends Transform {
+  private readonly sha256Hash: Hash = createHash('sha256');
+  private readonly md5Hash: Hash = createHash('md5');
+  private sha256Digest: string | null = null;
+  private md5Digest: string | null = null;
+  bytesProcessed = 0;
+
+  override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback
+  ): void {
+    this.sha256Hash.update(chunk);
+    this.md5Hash.update(chunk);
+    this.bytesProcessed += chunk.length;
+    callback(null, chunk);
+  }
+
+  override _flush(callback: TransformCallback): void {
+    this.sha256Digest = this.sha256Hash.digest('hex');
+    this.md5Digest = this.md5Hash.digest('hex');
+    callback();
+  }
+
+  get sha256(): string {
+    if (!this.sha256Digest) {
+      throw new Error('Checksum disponível apenas após o fim do stream');
+    }
+    return this.sha256Digest;
+  }
+
+  get md5(): string {
+    if (!this.md5Digest) {
+      throw new Error('Checksum disponível apenas após o fim do stream');
+    }
+    return this.md5Digest;
+  }
+}
+
+/**
+ * Normaliza um SHA-256 informado pelo cliente para hexadecimal minúsculo.
+ * Aceita hex puro ou o formato de header `sha-256=<base64>`.
+ */
+export function normalizeSha256(value: string): string | null {
+  const trimmed = value.trim();
+
+  if (SHA256_HEX_REGEX.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+
+  if (trimmed.toLowerCase().startsWith(SHA256_DIGEST_PREFIX)) {
+    const digest = Buffer.from(
+      trimmed.slice(SHA256_DIGEST_PREFIX.length).replace(/:/g, ''),
+      'base64'
+    );
+    return digest.length === 32 ? digest.toString('hex') : null;
+  }
+
+  return null;
+}
@@ -1,22 +1,44 @@
-import { createHash } from 'node:crypto';
-import { createReadStream, createWriteStream } from 'node:fs';
-import { access, mkdir, unlink } from 'node:fs/promises';
-import { extname, join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { createReadStream, createWriteStream, type Dirent } from 'node:fs';
+import { access, mkdir, readdir, rename, stat, unlink } from 'node:fs/promises';
+import { dirname, isAbsolute, posix, relative, resolve, sep } from 'node:path';
 import { pipeline } from 'node:stream/promises';
 import { URL } from 'node:url';
 import { logger } from '../../utils/logger.ts';
+import { ChecksumStream } from './checksum-stream.ts';
+import { type SignedUrlClaims, signUrlClaims } from './signed-url.ts';
+import { generateStoragePath } from './storage-path.ts';
 import type {
+  ByteRange,
+  SignedUrlOptions,
   StorageProvider,
+  StoredObject,
   UploadResult,
 } from './storage-provider.interface.ts';
 
+const DEFAULT_URL_EXPIRES_IN = 60 * 60;
+const TRAILING_SLASH_REGEX = /\/+$/;
+
+export class StoragePathError extends Error {
+  constructor(storagePath: string) {
+    super(`Caminho fora do diretório de uploads: ${storagePath}`);
+    this.name = 'StoragePathError';
+  }
+}
+
 export class LocalStorageProvider implements StorageProvider {
   private readonly uploadsDir: string;
   private readonly baseUrl: string;
+  private readonly urlExpiresIn: number;
 
-  constructor(uploadsDir: string, baseUrl = 'http://localhost:3333') {
+  constructor(
+    uploadsDir: string,
+    baseUrl = 'http://localhost:3333',
+    urlExpiresIn = DEFAULT_URL_EXPIRES_IN
+  ) {
     this.uploadsDir = uploadsDir;
-    this.baseUrl = baseUrl;
+    this.baseUrl = baseUrl.replace(TRAILING_SLASH_REGEX, '');
+    this.urlExpiresIn = urlExpiresIn;
   }
 
   async upload(
@@ -25,40 +47,24 @@ export class LocalStorageProvider implements StorageProvider {
     mimeType: string,
     _size: number
   ): Promise<UploadResult> {
-    // Gerar hash único para o arquivo
-    const hash = createHash('sha256');
-    const timestamp = Date.now();
-    const extension = extname(fileName);
-    const uniqueFileName = `${timestamp}_${hash
-      .update(`${fileName}_${timestamp}`)
-      .digest('hex')
-      .substring(0, 16)}${extension}`;
-
-    // Criar estrutura de diretórios baseada na data
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-
-    const subDir = join(String(year), month, day);
-    const fullDir = join(this.uploadsDir, subDir);
+    const storagePath = generateStoragePath(fileName);
+    const filePath = this.resolvePath(storagePath);
 
     // Garantir que o diretório existe
-    logger.info(`Criando diretório: ${fullDir}`);
-    await mkdir(fullDir, { recursive: true });
-
-    const filePath = join(fullDir, uniqueFileName);
-    const storagePath = join(subDir, uniqueFileName).replace(/\\/g, '/'); // Normalize path separators
+    logger.info(`Criando diretório: ${dirname(filePath)}`);
+    await mkdir(dirname(filePath), { recursive: true });
 
     logger.info(`Salvando arquivo em: ${filePath}`);
 
     try {
       // Fazer upload do arquivo
       const writeStream = createWriteStream(filePath);
+      const checksumStream = new ChecksumStream();
 
       logger.info('Iniciando pipeline para salvar arquivo...');
 
-      await pipeline(file, writeStream);
+      // O checksum é calculado sobre os mesmos bytes gravados em disco
+      await pipeline(file, checksumStream, writeStream);
 
       logger.info('Pipeline concluído com sucesso');
 
@@ -74,6 +80,8 @@ export class LocalStorageProvider implements StorageProvider {
         size: totalSize,
         mimeType,
         originalName: fileName,
+        checksum: checksumStream.sha256,
+        md5: checksumStream.md5,
       };
     } catch (error) {
       logger.error(`Erro durante o upload do arquivo: ${error}`);
@@ -94,7 +102,7 @@ export class LocalStorageProvider implements StorageProvider {
   }
 
   async delete(storagePath: string): Promise<void> {
-    const fullPath = join(this.uploadsDir, storagePath);
+    const fullPath = this.resolvePath(storagePath);
 
     try {
       await unlink(fullPath);
@@ -105,25 +113,107 @@ export class LocalStorageProvider implements StorageProvider {
     }
   }
 
-  getUrl(storagePath: string): Promise<string> {
-    return Promise.resolve(
-      new URL(`/uploads/${storagePath}`, this.baseUrl).toString()
+  /**
+   * URL assinada com HMAC, servida pela rota `/uploads/*` após validar a
+   * expiração, o uso único e o IP de origem
+   */
+  getUrl(storagePath: string, options: SignedUrlOptions = {}): Promise<string> {
+    const claims: SignedUrlClaims = {
+      storagePath,
+      expires:
+        Math.floor(Date.now() / 1000) +
+        (options.expiresIn ?? this.urlExpiresIn),
+      nonce: options.singleUse ? randomUUID() : undefined,
+      ip: options.ip,
+    };
+
+    // Concatena em vez de resolver para manter o caminho da URL base
+    const url = new URL(
+      `${this.baseUrl}/uploads/${storagePath.split('/').map(encodeURIComponent).join('/')}`
     );
+    url.searchParams.set('expires', String(claims.expires));
+    if (claims.nonce) {
+      url.searchParams.set('nonce', claims.nonce);
+    }
+    if (claims.ip) {
+      url.searchParams.set('ipBound', 'true');
+    }
+    url.searchParams.set('signature', signUrlClaims(claims));
+
+    return Promise.resolve(url.toString());
   }
 
   async exists(storagePath: string): Promise<boolean> {
-    const fullPath = join(this.uploadsDir, storagePath);
-
     try {
-      await access(fullPath);
+      await access(this.resolvePath(storagePath));
       return true;
     } catch {
       return false;
     }
   }
 
-  createReadStream(storagePath: string): NodeJS.ReadableStream {
-    const fullPath = join(this.uploadsDir, storagePath);
-    return createReadStream(fullPath);
+  createReadStream(
+    storagePath: string,
+    range?: ByteRange
+  ): NodeJS.ReadableStream {
+    const fullPath = this.resolvePath(storagePath);
+    return createReadStream(fullPath, range);
+  }
+
+  list(prefix = ''): AsyncIterable<StoredObject> {
+    return this.walk(prefix);
+  }
+
+  async move(storagePath: string, targetPath: string): Promise<void> {
+    const targetFullPath = this.resolvePath(targetPath);
+
+    await mkdir(dirname(targetFullPath), { recursive: true });
+    await rename(this.resolvePath(storagePath), targetFullPath);
+  }
+
+  /**
+   * Caminho absoluto do objeto, recusando caminhos que escapem do diretório
+   * de uploads (ex.: `../../etc/passwd`)
+   */
+  private resolvePath(storagePath: string): string {
+    const fullPath = resolve(this.uploadsDir, storagePath);
+    const relativePath = relative(resolve(this.uploadsDir), fullPath);
+
+    if (
+      relativePath === '..' ||
+      relativePath.startsWith(`..${sep}`) ||
+      isAbsolute(relativePath)
+    ) {
+      throw new StoragePathError(storagePath);
+    }
+
+    return fullPath;
+  }
+
+  private async *walk(relativeDir: string): AsyncIterable<StoredObject> {
+    let entries: Dirent[];
+    try {
+      entries = await readdir(this.resolvePath(relativeDir), {
+        withFileTypes: true,
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      // Caminhos no storage sempre usam "/" como separador
+      const storagePath = posix.join(relativeDir, entry.name);
+
+      if (entry.isDirectory()) {
+        yield* this.walk(storagePath);
+      } else if (entry.isFile()) {
+        // biome-ignore lint/nursery/noAwaitInLoop: true
+        const stats = await stat(this.resolvePath(storagePath));
+        yield { storagePath, size: stats.size, lastModified: stats.mtime };
+      }
+    }
   }
 }
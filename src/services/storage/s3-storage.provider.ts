@@ -1,5 +1,25 @@
+import { PassThrough, type Readable } from 'node:stream';
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  paginateListObjectsV2,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { HTTP_STATUS } from '../../types/api-response.ts';
+import { logger } from '../../utils/logger.ts';
+import { ChecksumStream } from './checksum-stream.ts';
+import { SignedUrlError } from './signed-url.ts';
+import { generateStoragePath } from './storage-path.ts';
 import type {
+  ByteRange,
+  SignedUrlOptions,
   StorageProvider,
+  StoredObject,
   UploadResult,
 } from './storage-provider.interface.ts';
 
@@ -9,37 +29,205 @@ export interface S3Config {
   accessKeyId: string;
   secretAccessKey: string;
   endpoint?: string;
+  forcePathStyle?: boolean;
+  presignedUrlExpiresIn?: number;
+}
+
+// Partes de 10MB com até 4 partes em paralelo (máx. ~40MB em memória)
+const MULTIPART_PART_SIZE = 10 * 1024 * 1024;
+const MULTIPART_QUEUE_SIZE = 4;
+const DEFAULT_PRESIGNED_URL_EXPIRES_IN = 60 * 60;
+const ETAG_QUOTES_REGEX = /"/g;
+
+function isNotFoundError(error: unknown): boolean {
+  return (
+    error instanceof S3ServiceException &&
+    (error.name === 'NotFound' ||
+      error.name === 'NoSuchKey' ||
+      error.$metadata.httpStatusCode === 404)
+  );
 }
 
 export class S3StorageProvider implements StorageProvider {
-  upload(
-    _file: NodeJS.ReadableStream,
-    _fileName: string,
-    _mimeType: string,
+  private readonly client: S3Client;
+  private readonly bucketName: string;
+  private readonly presignedUrlExpiresIn: number;
+
+  constructor(config: S3Config) {
+    this.bucketName = config.bucketName;
+    this.presignedUrlExpiresIn =
+      config.presignedUrlExpiresIn ?? DEFAULT_PRESIGNED_URL_EXPIRES_IN;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+      },
+    });
+  }
+
+  async upload(
+    file: NodeJS.ReadableStream,
+    fileName: string,
+    mimeType: string,
     _size: number
   ): Promise<UploadResult> {
-    // TODO: Implementar upload para S3
-    // Esta é uma estrutura base para futura implementação
-    return Promise.reject(new Error('S3 provider not implemented yet'));
+    const storagePath = generateStoragePath(fileName);
+    const checksumStream = new ChecksumStream();
+    (file as Readable).on('error', (error) => checksumStream.destroy(error));
+
+    logger.info(`Enviando arquivo para s3://${this.bucketName}/${storagePath}`);
+
+    // Conta os bytes e calcula os checksums enquanto o stream é enviado em partes
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucketName,
+        Key: storagePath,
+        Body: file.pipe(checksumStream),
+        ContentType: mimeType,
+      },
+      partSize: MULTIPART_PART_SIZE,
+      queueSize: MULTIPART_QUEUE_SIZE,
+      leavePartsOnError: false,
+    });
+
+    let etag: string | undefined;
+    try {
+      ({ ETag: etag } = await upload.done());
+    } catch (error) {
+      logger.error(`Erro durante o upload para o S3: ${error}`);
+      throw error;
+    }
+
+    // Em uploads de parte única o ETag é o MD5 do conteúdo
+    const normalizedEtag = etag?.replace(ETAG_QUOTES_REGEX, '');
+    if (
+      normalizedEtag &&
+      !normalizedEtag.includes('-') &&
+      normalizedEtag !== checksumStream.md5
+    ) {
+      await this.delete(storagePath);
+      throw new Error(
+        `Integridade do upload falhou: ETag ${normalizedEtag} difere do MD5 ${checksumStream.md5}`
+      );
+    }
+
+    const totalSize = checksumStream.bytesProcessed;
+    logger.info(`Arquivo enviado ao S3 com tamanho: ${totalSize} bytes`);
+
+    return {
+      storagePath,
+      size: totalSize,
+      mimeType,
+      originalName: fileName,
+      checksum: checksumStream.sha256,
+      md5: checksumStream.md5,
+    };
+  }
+
+  async delete(storagePath: string): Promise<void> {
+    // DeleteObject é idempotente: remover uma chave inexistente não falha
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucketName, Key: storagePath })
+    );
+  }
+
+  getUrl(storagePath: string, options: SignedUrlOptions = {}): Promise<string> {
+    // URLs pré-assinadas do S3 não têm como limitar usos nem IP de origem
+    if (options.singleUse || options.ip) {
+      return Promise.reject(
+        new SignedUrlError(
+          'URLs de uso único ou vinculadas a IP não são suportadas pelo S3',
+          HTTP_STATUS.BAD_REQUEST
+        )
+      );
+    }
+
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucketName, Key: storagePath }),
+      { expiresIn: options.expiresIn ?? this.presignedUrlExpiresIn }
+    );
   }
 
-  delete(_storagePath: string): Promise<void> {
-    // TODO: Implementar delete para S3
-    return Promise.reject(new Error('S3 provider not implemented yet'));
+  async exists(storagePath: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucketName, Key: storagePath })
+      );
+      return true;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return false;
+      }
+      throw error;
+    }
   }
 
-  getUrl(_storagePath: string): Promise<string> {
-    // TODO: Implementar getUrl para S3
-    return Promise.reject(new Error('S3 provider not implemented yet'));
+  createReadStream(
+    storagePath: string,
+    range?: ByteRange
+  ): NodeJS.ReadableStream {
+    // A interface é síncrona; o corpo do objeto é encadeado assim que chegar
+    const output = new PassThrough();
+
+    this.client
+      .send(
+        new GetObjectCommand({
+          Bucket: this.bucketName,
+          Key: storagePath,
+          Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        })
+      )
+      .then((response) => {
+        const body = response.Body as Readable | undefined;
+        if (!body) {
+          output.destroy(new Error(`Objeto vazio no S3: ${storagePath}`));
+          return;
+        }
+        body.on('error', (error) => output.destroy(error));
+        body.pipe(output);
+      })
+      .catch((error: Error) => {
+        logger.error(`Erro ao ler objeto do S3: ${storagePath}`, error);
+        output.destroy(error);
+      });
+
+    return output;
   }
 
-  exists(_storagePath: string): Promise<boolean> {
-    // TODO: Implementar exists para S3
-    return Promise.reject(new Error('S3 provider not implemented yet'));
+  async *list(prefix?: string): AsyncIterable<StoredObject> {
+    const pages = paginateListObjectsV2(
+      { client: this.client },
+      { Bucket: this.bucketName, Prefix: prefix || undefined }
+    );
+
+    for await (const page of pages) {
+      for (const object of page.Contents ?? []) {
+        if (!object.Key) {
+          continue;
+        }
+        yield {
+          storagePath: object.Key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified ?? new Date(0),
+        };
+      }
+    }
   }
 
-  createReadStream(_storagePath: string): NodeJS.ReadableStream {
-    // TODO: Implementar createReadStream para S3
-    throw new Error('S3 provider not implemented yet');
+  async move(storagePath: string, targetPath: string): Promise<void> {
+    // O S3 não renomeia objetos: copia para a nova chave e remove a original
+    await this.client.send(
+      new CopyObjectCommand({
+        Bucket: this.bucketName,
+        CopySource: `${this.bucketName}/${encodeURIComponent(storagePath)}`,
+        Key: targetPath,
+      })
+    );
+    await this.delete(storagePath);
   }
 }
@@ -0,0 +1,54 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { env } from '../../env.ts';
+import { HTTP_STATUS, type HttpStatusCode } from '../../types/api-response.ts';
+
+const secret = env.STORAGE_URL_SECRET ?? env.JWT_SECRET;
+
+/** Dados cobertos pela assinatura de uma URL do storage local */
+export interface SignedUrlClaims {
+  storagePath: string;
+  /** Expiração em segundos desde a época Unix */
+  expires: number;
+  /** Identificador das URLs de uso único */
+  nonce?: string;
+  /** IP ao qual a URL está vinculada (não aparece na URL) */
+  ip?: string;
+}
+
+export class SignedUrlError extends Error {
+  readonly statusCode: HttpStatusCode;
+
+  constructor(
+    message: string,
+    statusCode: HttpStatusCode = HTTP_STATUS.FORBIDDEN
+  ) {
+    super(message);
+    this.name = 'SignedUrlError';
+    this.statusCode = statusCode;
+  }
+}
+
+export function signUrlClaims(claims: SignedUrlClaims): string {
+  return createHmac('sha256', secret)
+    .update(
+      [
+        claims.storagePath,
+        claims.expires,
+        claims.nonce ?? '',
+        claims.ip ?? '',
+      ].join('\n')
+    )
+    .digest('base64url');
+}
+
+export function hasValidSignature(
+  claims: SignedUrlClaims,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signUrlClaims(claims));
+  const received = Buffer.from(signature);
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
@@ -0,0 +1,20 @@
+import { createHash } from 'node:crypto';
+import { extname } from 'node:path';
+
+/**
+ * Gera um caminho único no formato YYYY/MM/DD/<timestamp>_<hash><ext>
+ */
+export function generateStoragePath(fileName: string): string {
+  const timestamp = Date.now();
+  const uniqueFileName = `${timestamp}_${createHash('sha256')
+    .update(`${fileName}_${timestamp}_${Math.random()}`)
+    .digest('hex')
+    .slice(0, 16)}${extname(fileName)}`;
+
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+
+  return `${year}/${month}/${day}/${uniqueFileName}`;
+}
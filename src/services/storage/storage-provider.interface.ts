@@ -3,6 +3,36 @@ export interface UploadResult {
   size: number;
   mimeType: string;
   originalName: string;
+  /** SHA-256 (hex) calculado sobre os bytes gravados */
+  checksum: string;
+  /** MD5 (hex) para comparação com ETag de storages S3 */
+  md5: string;
+}
+
+/** Intervalo de bytes inclusivo, como no header Range */
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/** Objeto encontrado na listagem do storage */
+export interface StoredObject {
+  storagePath: string;
+  size: number;
+  lastModified: Date;
+}
+
+/**
+ * Opções das URLs temporárias de acesso direto ao conteúdo. Uso único e
+ * vínculo com IP são aplicados apenas pelo storage local.
+ */
+export interface SignedUrlOptions {
+  /** Validade em segundos; o padrão é definido pelo provider */
+  expiresIn?: number;
+  /** Invalida a URL após o primeiro acesso */
+  singleUse?: boolean;
+  /** Aceita a URL apenas quando acessada a partir deste IP */
+  ip?: string;
 }
 
 export interface StorageProvider {
@@ -15,9 +45,17 @@ export interface StorageProvider {
 
   delete(storagePath: string): Promise<void>;
 
-  getUrl(storagePath: string): Promise<string>;
+  getUrl(storagePath: string, options?: SignedUrlOptions): Promise<string>;
 
   exists(storagePath: string): Promise<boolean>;
 
-  createReadStream(storagePath: string): NodeJS.ReadableStream;
+  createReadStream(
+    storagePath: string,
+    range?: ByteRange
+  ): NodeJS.ReadableStream;
+
+  /** Percorre todos os objetos armazenados sob o prefixo informado */
+  list(prefix?: string): AsyncIterable<StoredObject>;
+
+  move(storagePath: string, targetPath: string): Promise<void>;
 }
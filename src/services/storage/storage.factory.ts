@@ -1,5 +1,6 @@
 import { join } from 'node:path';
 import { env } from '../../env.ts';
+import { getPublicBaseUrl } from '../../utils/public-url.ts';
 import { LocalStorageProvider } from './local-storage.provider.ts';
 import { type S3Config, S3StorageProvider } from './s3-storage.provider.ts';
 import type { StorageProvider } from './storage-provider.interface.ts';
@@ -11,12 +12,33 @@ export interface StorageConfig {
   local?: {
     uploadsDir: string;
     baseUrl: string;
+    urlExpiresIn?: number;
   };
   s3?: S3Config;
 }
 
 let storageInstance: StorageProvider | null = null;
 
+export function getStorageConfigFromEnv(): StorageConfig {
+  if (env.STORAGE_TYPE === 's3') {
+    return {
+      type: 's3',
+      s3: {
+        bucketName: env.S3_BUCKET ?? '',
+        region: env.S3_REGION,
+        accessKeyId: env.S3_ACCESS_KEY_ID ?? '',
+        secretAccessKey: env.S3_SECRET_ACCESS_KEY ?? '',
+        endpoint: env.S3_ENDPOINT,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE,
+        presignedUrlExpiresIn: env.S3_PRESIGNED_URL_TTL,
+      },
+    };
+  }
+
+  // Default to local storage
+  return { type: 'local' };
+}
+
 export function createStorageProvider(config: StorageConfig): StorageProvider {
   if (storageInstance) {
     return storageInstance;
@@ -26,12 +48,14 @@ export function createStorageProvider(config: StorageConfig): StorageProvider {
     case 'local': {
       const localConfig = config.local ?? {
         uploadsDir: join(process.cwd(), 'uploads'),
-        baseUrl: `http://localhost:${env.PORT}`,
+        baseUrl: getPublicBaseUrl(),
+        urlExpiresIn: env.STORAGE_URL_TTL,
       };
 
       storageInstance = new LocalStorageProvider(
         localConfig.uploadsDir,
-        localConfig.baseUrl
+        localConfig.baseUrl,
+        localConfig.urlExpiresIn
       );
       break;
     }
@@ -39,7 +63,7 @@ export function createStorageProvider(config: StorageConfig): StorageProvider {
       if (!config.s3) {
         throw new Error('S3 configuration is required when using S3 storage');
       }
-      storageInstance = new S3StorageProvider();
+      storageInstance = new S3StorageProvider(config.s3);
       break;
     }
     default: {
@@ -52,10 +76,7 @@ export function createStorageProvider(config: StorageConfig): StorageProvider {
 
 export function getStorageProvider(): StorageProvider {
   if (!storageInstance) {
-    // Default to local storage
-    storageInstance = createStorageProvider({
-      type: 'local',
-    });
+    storageInstance = createStorageProvider(getStorageConfigFromEnv());
   }
   return storageInstance;
 }
@@ -0,0 +1,234 @@
+import { and, desc, eq, isNull, lt, type SQL, sql } from 'drizzle-orm';
+import { db } from '../db/connection.ts';
+import { files } from '../db/schema/files.ts';
+import { folders } from '../db/schema/folders.ts';
+import { env } from '../env.ts';
+import type { AuthenticatedUser } from '../types/auth.ts';
+import { type AclPrincipal, AclService } from './acl.service.ts';
+import { BlobService } from './blob.service.ts';
+import { FileVersionService } from './file-version.service.ts';
+import { FolderService } from './folder.service.ts';
+import { LogService } from './log.service.ts';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashItem {
+  id: string;
+  type: 'file' | 'folder';
+  name: string;
+  size: bigint | null;
+  trashedAt: Date;
+  expiresAt: Date;
+  daysRemaining: number;
+}
+
+export interface TrashPurgeSummary {
+  folders: number;
+  files: number;
+  storageObjects: number;
+}
+
+interface TrashFilter {
+  ownerId?: string;
+  // Restringe aos itens em que o usuário ainda tem acesso de escrita
+  accessibleBy?: AclPrincipal;
+  trashedBefore?: Date;
+}
+
+/**
+ * Lixeira dos usuários. Os itens são as raízes da exclusão: arquivos
+ * enviados individualmente para a lixeira e pastas excluídas no modo
+ * `trash` (com toda a sua subárvore). Itens mais antigos que
+ * TRASH_RETENTION_DAYS são removidos permanentemente.
+ */
+export class TrashService {
+  private readonly aclService = new AclService();
+  private readonly blobService = new BlobService();
+  private readonly fileVersionService = new FileVersionService();
+  private readonly folderService = new FolderService();
+  private readonly logService = new LogService();
+
+  async list(ownerId: string): Promise<TrashItem[]> {
+    const trashedFiles = await db
+      .select({
+        id: files.id,
+        name: files.name,
+        size: files.size,
+        trashedAt: files.trashedAt,
+      })
+      .from(files)
+      .where(
+        and(
+          eq(files.ownerId, ownerId),
+          eq(files.status, 'lixeira'),
+          isNull(files.trashRootId)
+        )
+      )
+      .orderBy(desc(files.trashedAt));
+
+    const trashedFolders = await db
+      .select({
+        id: folders.id,
+        name: folders.name,
+        trashedAt: folders.trashedAt,
+      })
+      .from(folders)
+      .where(
+        and(eq(folders.createdBy, ownerId), eq(folders.trashRootId, folders.id))
+      )
+      .orderBy(desc(folders.trashedAt));
+
+    const now = new Date();
+    const items = [
+      ...trashedFolders.map((folder) =>
+        this.toTrashItem({ ...folder, type: 'folder', size: null }, now)
+      ),
+      ...trashedFiles.map((file) =>
+        this.toTrashItem({ ...file, type: 'file' }, now)
+      ),
+    ];
+
+    return items.sort((a, b) => b.trashedAt.getTime() - a.trashedAt.getTime());
+  }
+
+  /**
+   * Remove permanentemente os itens da lixeira do usuário. Itens em que ele
+   * perdeu o acesso de escrita desde que os enviou para a lixeira ficam
+   * para a remoção por expiração.
+   */
+  empty(actor: AuthenticatedUser): Promise<TrashPurgeSummary> {
+    return this.purge({ ownerId: actor.id, accessibleBy: actor }, actor);
+  }
+
+  /**
+   * Remove permanentemente os itens cujo período de retenção expirou
+   */
+  purgeExpired(): Promise<TrashPurgeSummary> {
+    return this.purge({ trashedBefore: this.getRetentionCutoff(new Date()) });
+  }
+
+  private getRetentionCutoff(now: Date): Date {
+    return new Date(now.getTime() - env.TRASH_RETENTION_DAYS * DAY_IN_MS);
+  }
+
+  private toTrashItem(
+    item: Omit<TrashItem, 'trashedAt' | 'expiresAt' | 'daysRemaining'> & {
+      trashedAt: Date | null;
+    },
+    now: Date
+  ): TrashItem {
+    // Itens sem data (anteriores à retenção) contam a partir de agora
+    const trashedAt = item.trashedAt ?? now;
+    const expiresAt = new Date(
+      trashedAt.getTime() + env.TRASH_RETENTION_DAYS * DAY_IN_MS
+    );
+
+    return {
+      ...item,
+      trashedAt,
+      expiresAt,
+      daysRemaining: Math.max(
+        0,
+        Math.ceil((expiresAt.getTime() - now.getTime()) / DAY_IN_MS)
+      ),
+    };
+  }
+
+  private rootFilesCondition(filter: TrashFilter): SQL | undefined {
+    return and(
+      eq(files.status, 'lixeira'),
+      isNull(files.trashRootId),
+      filter.ownerId ? eq(files.ownerId, filter.ownerId) : undefined,
+      filter.accessibleBy
+        ? this.aclService.readableFiles(filter.accessibleBy, 'write')
+        : undefined,
+      filter.trashedBefore
+        ? lt(files.trashedAt, filter.trashedBefore)
+        : undefined
+    );
+  }
+
+  private rootFoldersCondition(filter: TrashFilter): SQL | undefined {
+    return and(
+      eq(folders.trashRootId, folders.id),
+      filter.ownerId ? eq(folders.createdBy, filter.ownerId) : undefined,
+      filter.accessibleBy
+        ? this.aclService.readableFolders(
+            filter.accessibleBy,
+            folders.id,
+            'write'
+          )
+        : undefined,
+      filter.trashedBefore
+        ? lt(folders.trashedAt, filter.trashedBefore)
+        : undefined
+    );
+  }
+
+  private async purge(
+    filter: TrashFilter,
+    actor?: AuthenticatedUser
+  ): Promise<TrashPurgeSummary> {
+    const { summary, storagePaths } = await db.transaction(async (tx) => {
+      await tx.execute(
+        sql`select pg_advisory_xact_lock(hashtext('folders:hierarchy'))`
+      );
+
+      const rootFiles = await tx
+        .select({ id: files.id })
+        .from(files)
+        .where(this.rootFilesCondition(filter))
+        .for('update');
+
+      const rootFolders = await tx
+        .select({ id: folders.id })
+        .from(folders)
+        .where(this.rootFoldersCondition(filter))
+        .for('update');
+
+      // Arquivos primeiro: os que estiverem dentro de uma pasta também
+      // removida não são contados duas vezes
+      const paths = await this.fileVersionService.purgeFiles(
+        rootFiles.map((file) => file.id),
+        tx
+      );
+
+      const result: TrashPurgeSummary = {
+        folders: 0,
+        files: rootFiles.length,
+        storageObjects: 0,
+      };
+
+      for (const folder of rootFolders) {
+        // As remoções precisam ser sequenciais dentro da mesma transação
+        // biome-ignore lint/nursery/noAwaitInLoop: true
+        const purged = await this.folderService.purgeTree(folder.id, tx);
+        result.folders += purged.summary.folders;
+        result.files += purged.summary.files;
+        paths.push(...purged.storagePaths);
+      }
+
+      if (actor) {
+        for (const entry of [
+          ...rootFiles.map((file) => ({ fileId: file.id })),
+          ...rootFolders.map((folder) => ({ folderId: folder.id })),
+        ]) {
+          // biome-ignore lint/nursery/noAwaitInLoop: true
+          await this.logService.record(
+            { userId: actor.id, actionType: 'purge', ...entry },
+            tx
+          );
+        }
+      }
+
+      const uniquePaths = [...new Set(paths)];
+      result.storageObjects = uniquePaths.length;
+
+      return { summary: result, storagePaths: uniquePaths };
+    });
+
+    await this.blobService.deleteStoredObjects(storagePaths);
+
+    return summary;
+  }
+}
@@ -0,0 +1,483 @@
+import { Readable } from 'node:stream';
+import { and, asc, eq, inArray, lt, ne, sql } from 'drizzle-orm';
+import { db } from '../db/connection.ts';
+import { files } from '../db/schema/files.ts';
+import { folders } from '../db/schema/folders.ts';
+import { uploadParts, uploadSessions } from '../db/schema/upload-sessions.ts';
+import { env } from '../env.ts';
+import { HTTP_STATUS, type HttpStatusCode } from '../types/api-response.ts';
+import type { AuthenticatedUser } from '../types/auth.ts';
+import { logger } from '../utils/logger.ts';
+import { AclService } from './acl.service.ts';
+import { BlobService } from './blob.service.ts';
+import {
+  ChecksumMismatchError,
+  FileUploadService,
+} from './file-upload.service.ts';
+import { FileVersionService } from './file-version.service.ts';
+import { QuotaService } from './quota.service.ts';
+import { getStorageProvider } from './storage/storage.factory.ts';
+
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type UploadedFile = typeof files.$inferSelect;
+
+export interface CreateUploadSessionInput {
+  ownerId: string;
+  fileName: string;
+  mimeType: string;
+  totalSize: number;
+  folderId?: string;
+  checksum?: string;
+}
+
+export interface AppendChunkInput {
+  offset: number;
+  length: number;
+  chunk: NodeJS.ReadableStream;
+}
+
+export class UploadSessionError extends Error {
+  readonly statusCode: HttpStatusCode;
+
+  constructor(message: string, statusCode: HttpStatusCode) {
+    super(message);
+    this.name = 'UploadSessionError';
+    this.statusCode = statusCode;
+  }
+}
+
+function calculateExpiresAt(): Date {
+  return new Date(Date.now() + env.UPLOAD_SESSION_TTL * 1000);
+}
+
+/**
+ * Uploads retomáveis: o conteúdo chega em partes sequenciais (cada uma
+ * gravada como objeto próprio no storage) e, ao finalizar, as partes são
+ * concatenadas em um único arquivo com checksum e deduplicação.
+ */
+export class UploadSessionService {
+  private readonly storageProvider = getStorageProvider();
+  private readonly aclService = new AclService();
+  private readonly blobService = new BlobService();
+  private readonly uploadService = new FileUploadService();
+  private readonly fileVersionService = new FileVersionService();
+  private readonly quotaService = new QuotaService();
+
+  async create(input: CreateUploadSessionInput): Promise<UploadSession> {
+    if (input.totalSize > env.UPLOAD_SESSION_MAX_SIZE) {
+      throw new UploadSessionError(
+        `Tamanho máximo para upload: ${env.UPLOAD_SESSION_MAX_SIZE} bytes`,
+        HTTP_STATUS.PAYLOAD_TOO_LARGE
+      );
+    }
+
+    await this.assertFolderAvailable(input.folderId ?? null);
+
+    await this.quotaService.assertAvailable(
+      input.ownerId,
+      input.folderId ?? null,
+      BigInt(input.totalSize)
+    );
+
+    const [session] = await db
+      .insert(uploadSessions)
+      .values({
+        ownerId: input.ownerId,
+        fileName: input.fileName,
+        mimeType: input.mimeType,
+        folderId: input.folderId ?? null,
+        checksum: input.checksum ?? null,
+        totalSize: BigInt(input.totalSize),
+        expiresAt: calculateExpiresAt(),
+      })
+      .returning();
+
+    logger.info(
+      `Sessão de upload ${session.id} criada para ${input.fileName} (${input.totalSize} bytes)`
+    );
+
+    return session;
+  }
+
+  /**
+   * Busca uma sessão do usuário. Sessões de outros usuários são tratadas
+   * como inexistentes.
+   */
+  async get(id: string, ownerId: string): Promise<UploadSession> {
+    const [session] = await db
+      .select()
+      .from(uploadSessions)
+      .where(
+        and(eq(uploadSessions.id, id), eq(uploadSessions.ownerId, ownerId))
+      );
+
+    if (!session) {
+      throw new UploadSessionError(
+        'Sessão de upload não encontrada',
+        HTTP_STATUS.NOT_FOUND
+      );
+    }
+
+    if (session.status === 'pendente' && session.expiresAt < new Date()) {
+      throw new UploadSessionError(
+        'Sessão de upload expirada',
+        HTTP_STATUS.GONE
+      );
+    }
+
+    return session;
+  }
+
+  /**
+   * Grava a próxima parte do upload. A parte só é aceita se começar
+   * exatamente no offset atual da sessão e chegar completa; caso contrário
+   * é descartada e o cliente deve reenviá-la a partir do offset informado.
+   */
+  async appendChunk(
+    id: string,
+    ownerId: string,
+    input: AppendChunkInput
+  ): Promise<UploadSession> {
+    const session = await this.get(id, ownerId);
+    this.assertPending(session);
+
+    if (BigInt(input.offset) !== session.uploadedSize) {
+      throw new UploadSessionError(
+        `Offset inválido: esperado ${session.uploadedSize}`,
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    if (BigInt(input.offset + input.length) > session.totalSize) {
+      throw new UploadSessionError(
+        'A parte enviada ultrapassa o tamanho declarado do arquivo',
+        HTTP_STATUS.PAYLOAD_TOO_LARGE
+      );
+    }
+
+    // A cota pode ter sido consumida por outros uploads desde a criação
+    await this.quotaService.assertAvailable(
+      session.ownerId,
+      session.folderId,
+      BigInt(input.offset + input.length)
+    );
+
+    const part = await this.storageProvider.upload(
+      input.chunk,
+      `${session.fileName}.part`,
+      'application/octet-stream',
+      input.length
+    );
+
+    if (part.size !== input.length) {
+      await this.storageProvider.delete(part.storagePath);
+      throw new UploadSessionError(
+        `Parte incompleta: recebidos ${part.size} de ${input.length} bytes`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    try {
+      return await db.transaction(async (tx) => {
+        // Avança o offset apenas se nenhuma outra requisição o alterou
+        const [updated] = await tx
+          .update(uploadSessions)
+          .set({
+            uploadedSize: sql`${uploadSessions.uploadedSize} + ${part.size}`,
+            expiresAt: calculateExpiresAt(),
+            updatedAt: new Date(),
+          })
+          .where(
+            and(
+              eq(uploadSessions.id, session.id),
+              eq(uploadSessions.status, 'pendente'),
+              eq(uploadSessions.uploadedSize, BigInt(input.offset))
+            )
+          )
+          .returning();
+
+        if (!updated) {
+          throw new UploadSessionError(
+            'A sessão foi alterada por outra requisição',
+            HTTP_STATUS.CONFLICT
+          );
+        }
+
+        await tx.insert(uploadParts).values({
+          sessionId: session.id,
+          offset: BigInt(input.offset),
+          size: BigInt(part.size),
+          storagePath: part.storagePath,
+        });
+
+        return updated;
+      });
+    } catch (error) {
+      await this.storageProvider.delete(part.storagePath);
+      throw error;
+    }
+  }
+
+  /**
+   * Concatena as partes em um arquivo definitivo, cria o registro em
+   * `files` e remove as partes do storage
+   */
+  async complete(id: string, owner: AuthenticatedUser): Promise<UploadedFile> {
+    const session = await this.get(id, owner.id);
+    this.assertPending(session);
+
+    // A pasta pode ter sido removida desde a criação da sessão, e o acesso
+    // de escrita a ela, revogado
+    await this.assertFolderAvailable(session.folderId);
+
+    if (
+      !(await this.aclService.hasAccess(
+        owner,
+        { folderId: session.folderId },
+        'write'
+      ))
+    ) {
+      throw new UploadSessionError(
+        'Você não tem permissão para enviar arquivos para a pasta de destino',
+        HTTP_STATUS.FORBIDDEN
+      );
+    }
+
+    await this.quotaService.assertAvailable(
+      session.ownerId,
+      session.folderId,
+      session.totalSize
+    );
+
+    const [claimed] = await db
+      .update(uploadSessions)
+      .set({
+        status: 'finalizando',
+        expiresAt: calculateExpiresAt(),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(uploadSessions.id, session.id),
+          eq(uploadSessions.status, 'pendente'),
+          eq(uploadSessions.uploadedSize, session.totalSize)
+        )
+      )
+      .returning();
+
+    if (!claimed) {
+      throw new UploadSessionError(
+        `Upload incompleto: ${session.uploadedSize} de ${session.totalSize} bytes recebidos`,
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    const parts = await db
+      .select()
+      .from(uploadParts)
+      .where(eq(uploadParts.sessionId, session.id))
+      .orderBy(asc(uploadParts.offset));
+
+    try {
+      const uploadResult = await this.uploadService.uploadStream(
+        this.createConcatenatedStream(parts.map((part) => part.storagePath)),
+        session.fileName,
+        session.mimeType,
+        { expectedChecksum: session.checksum ?? undefined }
+      );
+
+      const file = await db
+        .transaction(async (tx) => {
+          const [created] = await tx
+            .insert(files)
+            .values({
+              name: session.fileName,
+              type: session.mimeType,
+              size: BigInt(uploadResult.size),
+              checksum: uploadResult.checksum,
+              blobId: uploadResult.blobId,
+              storagePath: uploadResult.storagePath,
+              folderId: session.folderId,
+              ownerId: session.ownerId,
+              status: 'ativo',
+              createdBy: session.ownerId,
+            })
+            .returning();
+
+          await this.fileVersionService.createInitialVersion(created, tx);
+
+          await tx
+            .update(uploadSessions)
+            .set({
+              status: 'concluido',
+              fileId: created.id,
+              updatedAt: new Date(),
+            })
+            .where(eq(uploadSessions.id, session.id));
+
+          await tx
+            .delete(uploadParts)
+            .where(eq(uploadParts.sessionId, session.id));
+
+          return created;
+        })
+        .catch(async (error) => {
+          await this.uploadService.discardUpload(uploadResult);
+          throw error;
+        });
+
+      await this.blobService.deleteStoredObjects(
+        parts.map((part) => part.storagePath)
+      );
+
+      logger.info(
+        `Sessão de upload ${session.id} finalizada: arquivo ${file.id}`
+      );
+
+      return file;
+    } catch (error) {
+      if (error instanceof ChecksumMismatchError) {
+        // Repetir a conclusão com as mesmas partes falharia sempre: o
+        // conteúdo precisa ser reenviado desde o início
+        await this.resetParts(session.id);
+      } else {
+        // Devolve a sessão ao estado pendente para permitir nova tentativa
+        await db
+          .update(uploadSessions)
+          .set({ status: 'pendente', updatedAt: new Date() })
+          .where(eq(uploadSessions.id, session.id));
+      }
+      throw error;
+    }
+  }
+
+  async cancel(id: string, ownerId: string): Promise<void> {
+    const session = await this.get(id, ownerId);
+
+    if (session.status === 'finalizando') {
+      throw new UploadSessionError(
+        'A sessão está sendo finalizada',
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    await this.removeSessions([session.id]);
+  }
+
+  /**
+   * Remove sessões expiradas e as partes abandonadas no storage. Sessões
+   * concluídas permanecem consultáveis até expirarem; sessões em
+   * finalização não são removidas, pois suas partes ainda estão sendo lidas.
+   */
+  async cleanupExpired(): Promise<number> {
+    const expired = await db
+      .select({ id: uploadSessions.id })
+      .from(uploadSessions)
+      .where(
+        and(
+          lt(uploadSessions.expiresAt, new Date()),
+          ne(uploadSessions.status, 'finalizando')
+        )
+      );
+
+    if (expired.length > 0) {
+      await this.removeSessions(expired.map((session) => session.id));
+    }
+
+    return expired.length;
+  }
+
+  private assertPending(session: UploadSession): void {
+    if (session.status !== 'pendente') {
+      throw new UploadSessionError(
+        'A sessão de upload já foi finalizada',
+        HTTP_STATUS.CONFLICT
+      );
+    }
+  }
+
+  private async assertFolderAvailable(folderId: string | null): Promise<void> {
+    if (!folderId) {
+      return;
+    }
+
+    const [folder] = await db
+      .select({ status: folders.status })
+      .from(folders)
+      .where(eq(folders.id, folderId));
+
+    if (!folder) {
+      throw new UploadSessionError(
+        'Pasta de destino não encontrada',
+        HTTP_STATUS.NOT_FOUND
+      );
+    }
+
+    if (folder.status !== 'ativo') {
+      throw new UploadSessionError(
+        'A pasta de destino está na lixeira',
+        HTTP_STATUS.UNPROCESSABLE_ENTITY
+      );
+    }
+  }
+
+  /**
+   * Descarta as partes recebidas e volta o offset da sessão para zero
+   */
+  private async resetParts(sessionId: string): Promise<void> {
+    const removedParts = await db.transaction(async (tx) => {
+      const parts = await tx
+        .delete(uploadParts)
+        .where(eq(uploadParts.sessionId, sessionId))
+        .returning({ storagePath: uploadParts.storagePath });
+
+      await tx
+        .update(uploadSessions)
+        .set({ status: 'pendente', uploadedSize: 0n, updatedAt: new Date() })
+        .where(eq(uploadSessions.id, sessionId));
+
+      return parts;
+    });
+
+    await this.blobService.deleteStoredObjects(
+      removedParts.map((part) => part.storagePath)
+    );
+  }
+
+  private async removeSessions(sessionIds: string[]): Promise<void> {
+    const removedParts = await db.transaction(async (tx) => {
+      const parts = await tx
+        .delete(uploadParts)
+        .where(inArray(uploadParts.sessionId, sessionIds))
+        .returning({ storagePath: uploadParts.storagePath });
+
+      await tx
+        .delete(uploadSessions)
+        .where(inArray(uploadSessions.id, sessionIds));
+
+      return parts;
+    });
+
+    await this.blobService.deleteStoredObjects(
+      removedParts.map((part) => part.storagePath)
+    );
+  }
+
+  private createConcatenatedStream(storagePaths: string[]): Readable {
+    const storageProvider = this.storageProvider;
+
+    async function* readParts() {
+      for (const storagePath of storagePaths) {
+        // As partes precisam ser lidas em ordem para formar o arquivo
+        // biome-ignore lint/nursery/noAwaitInLoop: true
+        for await (const chunk of storageProvider.createReadStream(
+          storagePath
+        )) {
+          yield chunk;
+        }
+      }
+    }
+
+    return Readable.from(readParts(), { objectMode: false });
+  }
+}
@@ -0,0 +1,28 @@
+import type { userRoleEnum } from '../db/schema/users.ts';
+
+export type UserRole = (typeof userRoleEnum.enumValues)[number];
+
+/**
+ * Usuário autenticado extraído do access token
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * Par de tokens emitido no login e na renovação de sessão
+ */
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    user: AuthenticatedUser;
+  }
+}
@@ -0,0 +1,12 @@
+import { env } from '../env.ts';
+
+const TRAILING_SLASH_REGEX = /\/+$/;
+
+/**
+ * Endereço público do servidor, sem a barra final. Sem `PUBLIC_URL`, usa o
+ * endereço local na porta configurada.
+ */
+export function getPublicBaseUrl(): string {
+  const baseUrl = env.PUBLIC_URL ?? `http://localhost:${env.PORT}`;
+  return baseUrl.replace(TRAILING_SLASH_REGEX, '');
+}
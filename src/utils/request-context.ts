@@ -0,0 +1,24 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Dados da requisição HTTP em andamento, anexados aos logs de auditoria
+ * registrados durante o seu processamento
+ */
+export interface RequestContext {
+  ip: string;
+  userAgent: string | null;
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext(
+  context: RequestContext,
+  callback: () => void
+): void {
+  storage.run(context, callback);
+}
+
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { buffer } from 'node:stream/consumers';
+import { describe, it } from 'node:test';
+import { crc32 } from 'node:zlib';
+import { createZipStream, type ZipEntry } from './zip-stream.ts';
+
+const LAST_MODIFIED = new Date(2026, 0, 15, 10, 30, 20);
+
+interface ReadEntry {
+  name: string;
+  content: string;
+  time: number;
+  date: number;
+}
+
+function entry(name: string, ...chunks: string[]): ZipEntry {
+  return {
+    name,
+    lastModified: LAST_MODIFIED,
+    open: () => Readable.from(chunks.map((chunk) => Buffer.from(chunk))),
+  };
+}
+
+// Asserções ficam nos testes: o leitor só rejeita zips inválidos
+function ensure(condition: boolean, description: string): void {
+  if (!condition) {
+    throw new Error(`Zip inválido: ${description}`);
+  }
+}
+
+/**
+ * Lê o zip pelo diretório central ZIP64, conferindo cada entrada contra o
+ * cabeçalho local, o descritor de dados e o CRC do conteúdo
+ */
+function readZip(zip: Buffer): ReadEntry[] {
+  const classicEnd = zip.length - 22;
+  ensure(
+    zip.readUInt32LE(classicEnd) === 0x06_05_4b_50,
+    'fim do diretório central'
+  );
+
+  const locator = classicEnd - 20;
+  ensure(zip.readUInt32LE(locator) === 0x07_06_4b_50, 'localizador ZIP64');
+
+  const zip64End = Number(zip.readBigUInt64LE(locator + 8));
+  ensure(
+    zip.readUInt32LE(zip64End) === 0x06_06_4b_50,
+    'fim do diretório central ZIP64'
+  );
+
+  const count = Number(zip.readBigUInt64LE(zip64End + 32));
+  const directorySize = Number(zip.readBigUInt64LE(zip64End + 40));
+  let position = Number(zip.readBigUInt64LE(zip64End + 48));
+  ensure(position + directorySize === zip64End, 'tamanho do diretório central');
+  ensure(zip.readUInt16LE(classicEnd + 10) === count, 'quantidade de entradas');
+
+  const entries: ReadEntry[] = [];
+  for (let index = 0; index < count; index++) {
+    ensure(
+      zip.readUInt32LE(position) === 0x02_01_4b_50,
+      'cabeçalho do diretório central'
+    );
+    const crc = zip.readUInt32LE(position + 16);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const extraLength = zip.readUInt16LE(position + 30);
+    const name = zip.toString(
+      'utf8',
+      position + 46,
+      position + 46 + nameLength
+    );
+
+    const extra = position + 46 + nameLength;
+    ensure(zip.readUInt16LE(extra) === 0x00_01, 'campo extra ZIP64');
+    const size = Number(zip.readBigUInt64LE(extra + 4));
+    const offset = Number(zip.readBigUInt64LE(extra + 20));
+
+    ensure(zip.readUInt32LE(offset) === 0x04_03_4b_50, 'cabeçalho local');
+    const localNameLength = zip.readUInt16LE(offset + 26);
+    const localExtraLength = zip.readUInt16LE(offset + 28);
+    const dataStart = offset + 30 + localNameLength + localExtraLength;
+    const content = zip.subarray(dataStart, dataStart + size);
+
+    const descriptor = dataStart + size;
+    ensure(
+      zip.readUInt32LE(descriptor) === 0x08_07_4b_50,
+      'descritor de dados'
+    );
+    ensure(zip.readUInt32LE(descriptor + 4) === crc, 'CRC do descritor');
+    ensure(
+      Number(zip.readBigUInt64LE(descriptor + 8)) === size,
+      'tamanho do descritor'
+    );
+    ensure(crc32(content) === crc, 'CRC do conteúdo');
+
+    entries.push({
+      name,
+      content: content.toString(),
+      time: zip.readUInt16LE(position + 12),
+      date: zip.readUInt16LE(position + 14),
+    });
+    position = extra + extraLength;
+  }
+
+  return entries;
+}
+
+describe('createZipStream', () => {
+  it('gera um zip ZIP64 legível com o conteúdo de cada entrada', async () => {
+    const zip = await buffer(
+      createZipStream([
+        entry('dados.csv', 'a,b\n', '1,2\n'),
+        entry('pasta/relatório.txt', 'conteúdo'),
+        entry('vazio.txt'),
+      ])
+    );
+
+    assert.deepEqual(
+      readZip(zip).map(({ name, content }) => ({ name, content })),
+      [
+        { name: 'dados.csv', content: 'a,b\n1,2\n' },
+        { name: 'pasta/relatório.txt', content: 'conteúdo' },
+        { name: 'vazio.txt', content: '' },
+      ]
+    );
+  });
+
+  it('renomeia entradas com nomes repetidos', async () => {
+    const zip = await buffer(
+      createZipStream([
+        entry('dados.csv', '1'),
+        entry('dados.csv', '2'),
+        entry('dados.csv', '3'),
+        entry('LEIAME', '4'),
+        entry('LEIAME', '5'),
+      ])
+    );
+
+    assert.deepEqual(
+      readZip(zip).map(({ name }) => name),
+      ['dados.csv', 'dados (1).csv', 'dados (2).csv', 'LEIAME', 'LEIAME (1)']
+    );
+  });
+
+  it('grava a data de modificação no formato DOS', async () => {
+    const [read] = readZip(
+      await buffer(createZipStream([entry('a.txt', 'a')]))
+    );
+
+    assert.equal(read.time, 10 * 2048 + 30 * 32 + 10);
+    assert.equal(read.date, (2026 - 1980) * 512 + 1 * 32 + 15);
+  });
+
+  it('gera um zip vazio sem entradas', async () => {
+    assert.deepEqual(readZip(await buffer(createZipStream([]))), []);
+  });
+});
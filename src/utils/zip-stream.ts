@@ -0,0 +1,216 @@
+import { Readable } from 'node:stream';
+import { crc32 } from 'node:zlib';
+
+export interface ZipEntry {
+  /** Caminho dentro do arquivo zip, com "/" como separador */
+  name: string;
+  lastModified: Date;
+  open(): NodeJS.ReadableStream;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04_03_4b_50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08_07_4b_50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02_01_4b_50;
+const ZIP64_END_SIGNATURE = 0x06_06_4b_50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07_06_4b_50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06_05_4b_50;
+
+// ZIP64 (versão 4.5), tamanhos no descritor após os dados e nomes em UTF-8
+const ZIP_VERSION = 45;
+const GENERAL_PURPOSE_FLAGS = 0x08_08;
+const ZIP64_EXTRA_FIELD_ID = 0x00_01;
+const UINT16_MAX = 0xff_ff;
+const UINT32_MAX = 0xff_ff_ff_ff;
+const EXTENSION_REGEX = /(\.[^./]+)?$/;
+
+interface WrittenEntry {
+  name: Buffer;
+  time: number;
+  date: number;
+  crc: number;
+  size: bigint;
+  offset: bigint;
+}
+
+function toDosDateTime(value: Date) {
+  // O formato DOS não representa datas anteriores a 1980
+  const year = Math.max(value.getFullYear(), 1980);
+
+  // Campos empacotados em 16 bits: hhhhhmmmmmmsssss e aaaaaaammmmddddd
+  return {
+    time:
+      value.getHours() * 2048 +
+      value.getMinutes() * 32 +
+      Math.floor(value.getSeconds() / 2),
+    date: (year - 1980) * 512 + (value.getMonth() + 1) * 32 + value.getDate(),
+  };
+}
+
+// Nomes repetidos recebem um sufixo numérico, como "dados (1).csv"
+function uniqueEntryName(name: string, usedNames: Set<string>): string {
+  let candidate = name;
+
+  for (let index = 1; usedNames.has(candidate); index++) {
+    candidate = name.replace(
+      EXTENSION_REGEX,
+      (extension) => ` (${index})${extension}`
+    );
+  }
+
+  usedNames.add(candidate);
+  return candidate;
+}
+
+function localFileHeader(entry: WrittenEntry): Buffer {
+  const header = Buffer.alloc(30 + entry.name.length + 20);
+  header.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 6);
+  // Método 0: armazenado sem compressão
+  header.writeUInt16LE(0, 8);
+  header.writeUInt16LE(entry.time, 10);
+  header.writeUInt16LE(entry.date, 12);
+  // CRC e tamanhos vão no descritor de dados
+  header.writeUInt32LE(0, 14);
+  header.writeUInt32LE(UINT32_MAX, 18);
+  header.writeUInt32LE(UINT32_MAX, 22);
+  header.writeUInt16LE(entry.name.length, 26);
+  header.writeUInt16LE(20, 28);
+  entry.name.copy(header, 30);
+
+  const extra = 30 + entry.name.length;
+  header.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, extra);
+  header.writeUInt16LE(16, extra + 2);
+
+  return header;
+}
+
+function dataDescriptor(entry: WrittenEntry): Buffer {
+  const descriptor = Buffer.alloc(24);
+  descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0);
+  descriptor.writeUInt32LE(entry.crc, 4);
+  descriptor.writeBigUInt64LE(entry.size, 8);
+  descriptor.writeBigUInt64LE(entry.size, 16);
+
+  return descriptor;
+}
+
+function centralDirectoryHeader(entry: WrittenEntry): Buffer {
+  const header = Buffer.alloc(46 + entry.name.length + 28);
+  header.writeUInt32LE(CENTRAL_DIRECTORY_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_VERSION, 6);
+  header.writeUInt16LE(GENERAL_PURPOSE_FLAGS, 8);
+  header.writeUInt16LE(0, 10);
+  header.writeUInt16LE(entry.time, 12);
+  header.writeUInt16LE(entry.date, 14);
+  header.writeUInt32LE(entry.crc, 16);
+  // Tamanhos e deslocamento ficam no campo extra ZIP64
+  header.writeUInt32LE(UINT32_MAX, 20);
+  header.writeUInt32LE(UINT32_MAX, 24);
+  header.writeUInt16LE(entry.name.length, 28);
+  header.writeUInt16LE(28, 30);
+  header.writeUInt32LE(UINT32_MAX, 42);
+  entry.name.copy(header, 46);
+
+  const extra = 46 + entry.name.length;
+  header.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, extra);
+  header.writeUInt16LE(24, extra + 2);
+  header.writeBigUInt64LE(entry.size, extra + 4);
+  header.writeBigUInt64LE(entry.size, extra + 12);
+  header.writeBigUInt64LE(entry.offset, extra + 20);
+
+  return header;
+}
+
+function endOfCentralDirectory(
+  entryCount: number,
+  directoryOffset: bigint,
+  directorySize: bigint
+): Buffer {
+  const record = Buffer.alloc(56 + 20 + 22);
+
+  record.writeUInt32LE(ZIP64_END_SIGNATURE, 0);
+  record.writeBigUInt64LE(44n, 4);
+  record.writeUInt16LE(ZIP_VERSION, 12);
+  record.writeUInt16LE(ZIP_VERSION, 14);
+  record.writeBigUInt64LE(BigInt(entryCount), 24);
+  record.writeBigUInt64LE(BigInt(entryCount), 32);
+  record.writeBigUInt64LE(directorySize, 40);
+  record.writeBigUInt64LE(directoryOffset, 48);
+
+  record.writeUInt32LE(ZIP64_LOCATOR_SIGNATURE, 56);
+  record.writeBigUInt64LE(directoryOffset + directorySize, 64);
+  record.writeUInt32LE(1, 72);
+
+  // Registro clássico: valores que não cabem apontam para o ZIP64
+  const classic = 76;
+  const count = Math.min(entryCount, UINT16_MAX);
+  record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, classic);
+  record.writeUInt16LE(count, classic + 8);
+  record.writeUInt16LE(count, classic + 10);
+  record.writeUInt32LE(
+    Number(directorySize < UINT32_MAX ? directorySize : UINT32_MAX),
+    classic + 12
+  );
+  record.writeUInt32LE(
+    Number(directoryOffset < UINT32_MAX ? directoryOffset : UINT32_MAX),
+    classic + 16
+  );
+
+  return record;
+}
+
+async function* generateZip(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>
+): AsyncGenerator<Buffer> {
+  const written: WrittenEntry[] = [];
+  const usedNames = new Set<string>();
+  let offset = 0n;
+
+  for await (const entry of entries) {
+    const current: WrittenEntry = {
+      name: Buffer.from(uniqueEntryName(entry.name, usedNames), 'utf8'),
+      ...toDosDateTime(entry.lastModified),
+      crc: 0,
+      size: 0n,
+      offset,
+    };
+
+    const header = localFileHeader(current);
+    yield header;
+
+    // O conteúdo é copiado sem compressão, calculando o CRC em streaming
+    for await (const chunk of entry.open()) {
+      const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      current.crc = crc32(data, current.crc);
+      current.size += BigInt(data.length);
+      yield data;
+    }
+
+    const descriptor = dataDescriptor(current);
+    yield descriptor;
+
+    offset += BigInt(header.length) + current.size + BigInt(descriptor.length);
+    written.push(current);
+  }
+
+  let directorySize = 0n;
+  for (const entry of written) {
+    const header = centralDirectoryHeader(entry);
+    directorySize += BigInt(header.length);
+    yield header;
+  }
+
+  yield endOfCentralDirectory(written.length, offset, directorySize);
+}
+
+/**
+ * Gera um arquivo zip em streaming, sem compressão e no formato ZIP64,
+ * lendo uma entrada por vez
+ */
+export function createZipStream(
+  entries: Iterable<ZipEntry> | AsyncIterable<ZipEntry>
+): Readable {
+  return Readable.from(generateZip(entries));
+}